@@ -1,123 +1,594 @@
-import React, { useState, useEffect } from 'react';
-import { Coordinates, FoodSpot, AgentType, AgentLog } from './types';
-import { fetchFoodSpots } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Coordinates, FoodSpot, AgentType, AgentLog, FilterState, RankingWeights, SpotDiff, SavedState, DiscoveryResult, DiscoveryFailure, DiscoverySource, LocationStatus, UserPosition, CrawlPlan, QueryIntent, MapBounds } from './types';
+import { discoveryProvider, discoveryRateLimiter, invalidateDiscoveryCache } from './services/discoveryService';
+import { toDiscoveryFailure } from './services/resilienceService';
+import { runDiscoveryPipeline, createLog, createRunId, createAbortReason, isAbortError } from './services/agentPipeline';
+import { recordSnapshots } from './services/historyService';
+import { diffSpots, describeDiff } from './services/diffService';
+import { loadSavedState, persistSavedState, toggleSaved, toggleInList, setNote, setVisited, createList, deleteList, syncSavedSpots, getSavedSpots } from './services/savedSpotsService';
+import { rankSpots, loadWeights, saveWeights } from './services/rankingService';
+import { applyFilters, getCuisineOptions, DEFAULT_FILTERS } from './services/filterService';
+import { createLocationService, LocationService } from './services/locationService';
+import { distanceKm, formatDistance, getBoundsCenter, getBoundsRadiusKm, sameBounds } from './services/geo';
+import { parseUrlState, writeUrlState, UrlState, MapType, ViewMode } from './services/urlStateService';
+import { OVERLAY_LAYERS, OverlayLayer } from './services/overlayService';
+import { resolveOpenCheck } from './services/hoursService';
+import { getSearchRadiusKm } from './services/validationService';
+import { refineResults, RefinementTurn } from './services/refinementService';
+import { parseQueryIntent, resolveQueryIntent, applyIntentToFilters, composeQuery, isEmptyIntent } from './services/queryIntentService';
+import { loadCrawlPlans, persistCrawlPlans, saveCrawlPlan, deleteCrawlPlan } from './services/routeService';
+import { loadComparison, persistComparison, toggleCompared, syncCompared, isCompared, MIN_COMPARE, MAX_COMPARE } from './services/comparisonService';
 import { AgentHUD } from './components/AgentHUD';
 import { SpotCard } from './components/SpotCard';
 import { MapVisualization } from './components/MapVisualization';
 import { DetailPanel } from './components/DetailPanel';
-import { Search, Navigation, RefreshCw, LayoutGrid, Map as MapIcon, Menu, Loader2 } from 'lucide-react';
+import { FilterBar } from './components/FilterBar';
+import { RankingSettings } from './components/RankingSettings';
+import { RefreshStatus } from './components/RefreshStatus';
+import { DiscoveryErrorBanner } from './components/DiscoveryErrorBanner';
+import { SourceBadge } from './components/SourceBadge';
+import { SavedSpotsPanel } from './components/SavedSpotsPanel';
+import { RefinementPanel } from './components/RefinementPanel';
+import { DataTransferPanel } from './components/DataTransferPanel';
+import { CompareTray } from './components/CompareTray';
+import { CrawlPlanner, CrawlStart } from './components/CrawlPlanner';
+import { ComparisonView } from './components/ComparisonView';
+import { QueryIntentChips } from './components/QueryIntentChips';
+import { Search, Navigation, RefreshCw, LayoutGrid, Map as MapIcon, Menu, Loader2, Settings2, Bookmark, ArrowDownUp, Flame, Smile, Layers, Route, MessageSquare, X } from 'lucide-react';
 
 // Kochi, Kerala Coordinates
 const DEFAULT_CENTER: Coordinates = { lat: 9.9312, lng: 76.2673 }; 
 const DEFAULT_LOCATION_NAME = "Kochi, Kerala";
+const AUTO_REFRESH_STORAGE_KEY = 'foodifind-auto-refresh-minutes';
+
+type DiscoveryMode = 'search' | 'refresh';
+
+// A failed discovery with everything needed to run it again
+interface FailedDiscovery {
+  failure: DiscoveryFailure;
+  center: Coordinates;
+  query: string;
+  mode: DiscoveryMode;
+  intent?: QueryIntent;
+  bounds?: MapBounds;
+}
+
+const DEFAULT_ZOOM = 13;
+// Discovery query used when searching around the device position
+const NEARBY_QUERY = "Current Location";
+// Discovery query used by "Search this area" after panning the map
+const MAP_AREA_QUERY = "Current Map Area";
+// While following the user, re-run discovery after moving this far
+const WATCH_REDISCOVER_KM = 0.5;
+// Open/closed status is re-evaluated on this interval
+const CLOCK_TICK_MS = 60 * 1000;
+
+// Rule-based intent for queries restored from the URL; synthetic queries carry none
+const intentFor = (query: string): QueryIntent | undefined =>
+  query === NEARBY_QUERY || query === MAP_AREA_QUERY ? undefined : parseQueryIntent(query);
+
+// Browser geolocation unless a caller injects another source (tests, demos)
+const defaultLocationService = createLocationService();
+
+const OVERLAY_ICONS: Record<OverlayLayer, typeof Flame> = {
+  trending: Flame,
+  sentiment: Smile,
+  cuisine: Layers
+};
+
+interface AppProps {
+  locationService?: LocationService;
+}
+
+const App: React.FC<AppProps> = ({ locationService = defaultLocationService }) => {
+  // Deep-link state from the URL, read once on first render
+  const [initialUrlState] = useState<UrlState>(() => parseUrlState(window.location.search));
 
-const App: React.FC = () => {
   // State
-  const [userLocation, setUserLocation] = useState<Coordinates>(DEFAULT_CENTER);
+  const [userLocation, setUserLocation] = useState<Coordinates>(initialUrlState.center ?? DEFAULT_CENTER);
   const [locationName, setLocationName] = useState<string>(DEFAULT_LOCATION_NAME);
   const [spots, setSpots] = useState<FoodSpot[]>([]);
   const [selectedSpot, setSelectedSpot] = useState<FoodSpot | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeQuery, setActiveQuery] = useState<string>(initialUrlState.query ?? DEFAULT_LOCATION_NAME);
+  const [queryIntent, setQueryIntent] = useState<QueryIntent | null>(null);
+  // Visible area of the last "Search this area", so a refresh covers the same ground
+  const [searchBounds, setSearchBounds] = useState<MapBounds | null>(null);
   const [activeAgent, setActiveAgent] = useState<AgentType>(AgentType.IDLE);
   const [agentLogs, setAgentLogs] = useState<AgentLog[]>([]);
-  const [viewMode, setViewMode] = useState<'map' | 'list'>('map');
-  const [mapType, setMapType] = useState<'map' | 'satellite'>('map');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialUrlState.viewMode ?? 'map');
+  const [mapType, setMapType] = useState<MapType>(initialUrlState.mapType ?? 'map');
+  const [overlays, setOverlays] = useState<OverlayLayer[]>([]);
+  // The map view as the user left it; discovery results move it, panning and zooming update it
+  const [mapCenter, setMapCenter] = useState<Coordinates>(initialUrlState.center ?? DEFAULT_CENTER);
+  const [mapZoom, setMapZoom] = useState<number>(initialUrlState.zoom ?? DEFAULT_ZOOM);
+  const [filters, setFilters] = useState<FilterState>(initialUrlState.filters ?? DEFAULT_FILTERS);
+  const [weights, setWeights] = useState<RankingWeights>(loadWeights);
+  const [showRankingSettings, setShowRankingSettings] = useState(false);
+  const [showDataTransfer, setShowDataTransfer] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [streamedCount, setStreamedCount] = useState(0);
+  const [resultSource, setResultSource] = useState<DiscoverySource | null>(null);
+  const [failedDiscovery, setFailedDiscovery] = useState<FailedDiscovery | null>(null);
+  const [refreshDiff, setRefreshDiff] = useState<SpotDiff | null>(null);
+  const [saved, setSaved] = useState<SavedState>(loadSavedState);
+  const [sidebarTab, setSidebarTab] = useState<'trending' | 'saved' | 'crawl'>('trending');
+  const [crawlPlan, setCrawlPlan] = useState<CrawlPlan | null>(null);
+  const [showRefinement, setShowRefinement] = useState(false);
+  const [refinementTurns, setRefinementTurns] = useState<RefinementTurn[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [crawlPlans, setCrawlPlans] = useState<CrawlPlan[]>(loadCrawlPlans);
+  const [compared, setCompared] = useState<FoodSpot[]>(loadComparison);
+  const [showComparison, setShowComparison] = useState(false);
+  const [userPosition, setUserPosition] = useState<UserPosition | null>(null);
+  const [locationStatus, setLocationStatus] = useState<LocationStatus>('idle');
+  const [locationMessage, setLocationMessage] = useState<string | null>(null);
+  const [followLocation, setFollowLocation] = useState(false);
+  const [autoRefreshMinutes, setAutoRefreshMinutes] = useState<number>(() => Number(localStorage.getItem(AUTO_REFRESH_STORAGE_KEY)) || 0);
+  const [clock, setClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setClock(Date.now()), CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Derived: ranking is recomputed whenever weights change, then filtered + sorted
+  // into the view shared by the list and the map
+  const rankedSpots = useMemo(
+    () => rankSpots(spots, userLocation, weights, getSearchRadiusKm(searchBounds ?? undefined)),
+    [spots, userLocation, weights, searchBounds]
+  );
+  const cuisineOptions = useMemo(() => getCuisineOptions(spots), [spots]);
+  const visibleSpots = useMemo(() => applyFilters(rankedSpots, filters, userLocation, new Date(clock)), [rankedSpots, filters, userLocation, clock]);
+  // Opening hours are shown for the planned time when the filter has one, otherwise for now
+  const openCheck = useMemo(() => resolveOpenCheck(filters.openAt, new Date(clock)), [filters.openAt, clock]);
+  // Keep the open detail panel in sync with the latest ranking
+  const selectedView = selectedSpot ? rankedSpots.find(s => s.id === selectedSpot.id) ?? selectedSpot : null;
+
+  const savedSpots = useMemo(() => getSavedSpots(saved), [saved]);
+
+  useEffect(() => {
+    persistSavedState(saved);
+  }, [saved]);
+
+  // Compared spots use the current ranking when they are part of this result
+  const comparedView = useMemo(() => compared.map(s => rankedSpots.find(r => r.id === s.id) ?? s), [compared, rankedSpots]);
+  const comparisonFull = compared.length >= MAX_COMPARE;
+
+  useEffect(() => {
+    persistComparison(compared);
+    if (compared.length < MIN_COMPARE) setShowComparison(false);
+  }, [compared]);
+
+  const handleToggleCompare = (spot: FoodSpot) => setCompared(prev => toggleCompared(prev, spot));
+
+  useEffect(() => {
+    persistCrawlPlans(crawlPlans);
+  }, [crawlPlans]);
+
+  // Crawl stops can come from the current results, saved spots or the plan on the map
+  const crawlCandidates = useMemo(() => {
+    const byId = new Map<string, FoodSpot>();
+    [...(crawlPlan?.stops ?? []), ...visibleSpots, ...savedSpots].forEach(spot => {
+      if (!byId.has(spot.id)) byId.set(spot.id, spot);
+    });
+    return [...byId.values()];
+  }, [crawlPlan, visibleSpots, savedSpots]);
+
+  const crawlStarts = useMemo<CrawlStart[]>(() => [
+    { key: 'center', label: locationName, coordinates: userLocation },
+    ...(userPosition ? [{ key: 'me', label: 'My location', coordinates: userPosition.coordinates }] : [])
+  ], [locationName, userLocation, userPosition]);
+
+  const handleWeightsChange = (next: RankingWeights) => {
+    setWeights(next);
+    saveWeights(next);
+  };
+
+  // The one discovery run allowed to write results; older runs are aborted and ignored
+  const pipelineRef = useRef<{ runId: string; controller: AbortController } | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
+  // Bumped by every new request, so a slow query parse can't start a run after a newer one
+  const requestSeqRef = useRef(0);
+  // Spot to select once the next discovery finishes (from a deep link)
+  const pendingSpotIdRef = useRef<string | null>(initialUrlState.spotId ?? null);
+  // Latest spots for diffing from async callbacks without stale closures
+  const spotsRef = useRef<FoodSpot[]>(spots);
+  spotsRef.current = spots;
 
   // Helper to add logs
-  const addLog = (message: string, agent: AgentType) => {
-    setAgentLogs(prev => [...prev, {
-      id: Math.random().toString(36).substring(7),
-      timestamp: Date.now(),
-      message,
-      agent
-    }]);
+  const addLog = (message: string, agent: AgentType, extra: Partial<AgentLog> = {}) => {
+    setAgentLogs(prev => [...prev, createLog(message, agent, extra)]);
+  };
+
+  // Stops the active run and returns the UI to idle straight away
+  const cancelActiveRun = (reason: string) => {
+    pipelineRef.current?.controller.abort(createAbortReason(reason));
+    pipelineRef.current = null;
+    setActiveRunId(null);
+    setActiveAgent(AgentType.IDLE);
+    setIsRefreshing(false);
   };
 
   // 1. Initial Load - Get Location & Run Discovery Agent
   useEffect(() => {
     addLog('Initializing FoodiFind System...', AgentType.IDLE);
     
-    // Default to Kochi immediately
-    runDiscoveryAgent(DEFAULT_CENTER, DEFAULT_LOCATION_NAME);
-
-    // Optional: Attempt real geolocation silently to update if granted
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const coords = { lat: position.coords.latitude, lng: position.coords.longitude };
-          addLog(`User position detected: ${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`, AgentType.IDLE);
-        },
-        (err) => {
-          console.log("Location access denied or ignored, staying in Kochi.");
-        }
-      );
-    }
+    // Restore a deep-linked search, or default to Kochi immediately
+    runUrlSearch(initialUrlState, DEFAULT_CENTER);
+
+    // Optional: Attempt real geolocation silently to show the user's marker if granted
+    locationService.locate().then(result => {
+      if (result.ok) {
+        setUserPosition(result.position);
+        const coords = result.position.coordinates;
+        addLog(`User position detected: ${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}. Use "Locate Me" to explore nearby.`, AgentType.IDLE);
+      } else {
+        console.log("Location access denied or ignored, staying in Kochi.");
+      }
+    });
+
+    return () => pipelineRef.current?.controller.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // 2. AI Agent Workflows
-  const runDiscoveryAgent = async (center: Coordinates, query: string) => {
-    // Clear previous selection
-    setSelectedSpot(null);
-    
-    setActiveAgent(AgentType.DISCOVERY);
-    addLog(`Scanning social signals for "${query}" within 5km...`, AgentType.DISCOVERY);
-    
-    // Simulate delay for "Thinking" visualization
-    await new Promise(r => setTimeout(r, 800));
-    
-    setActiveAgent(AgentType.SEARCH);
-    addLog('Extracting entities & geolocation data...', AgentType.SEARCH);
-    
-    // Fetch spots AND the new center coordinates from the AI
-    const result = await fetchFoodSpots(query, center.lat, center.lng);
-    
-    setActiveAgent(AgentType.RANKING);
-    addLog(`Ranking ${result.spots.length} candidates by sentiment velocity...`, AgentType.RANKING);
-    await new Promise(r => setTimeout(r, 600));
+  // Locate Me: resolve the device position and run discovery around it
+  const discoveredAtRef = useRef<Coordinates | null>(null);
 
-    setActiveAgent(AgentType.VALIDATION);
-    addLog('Cross-referencing with public review databases...', AgentType.VALIDATION);
-    await new Promise(r => setTimeout(r, 400));
+  const discoverAround = (position: UserPosition) => {
+    discoveredAtRef.current = position.coordinates;
+    runDiscoveryAgent(position.coordinates, NEARBY_QUERY);
+  };
 
-    setSpots(result.spots);
-    
-    // Update map center and location name based on what the AI found
-    if (result.center) {
-      setUserLocation(result.center);
+  const handleSearchArea = (bounds: MapBounds) => {
+    const center = getBoundsCenter(bounds);
+    addLog(`Searching visible map area (${formatDistance(getBoundsRadiusKm(bounds))} radius) around ${center.lat.toFixed(4)}, ${center.lng.toFixed(4)}`, AgentType.DISCOVERY);
+    runDiscoveryAgent(center, MAP_AREA_QUERY, 'search', undefined, bounds);
+  };
+
+  const handleLocateMe = async () => {
+    setLocationStatus('locating');
+    setLocationMessage(null);
+    const result = await locationService.locate();
+    if (result.ok === false) {
+      setLocationStatus(result.status);
+      setLocationMessage(result.message);
+      addLog(`Geolocation failed: ${result.message}`, AgentType.DISCOVERY);
+      return;
     }
-    if (result.locationName) {
-      setLocationName(result.locationName);
+    setUserPosition(result.position);
+    setLocationStatus('located');
+    const { lat, lng } = result.position.coordinates;
+    addLog(`Located at ${lat.toFixed(4)}, ${lng.toFixed(4)} (±${Math.round(result.position.accuracyMeters)} m)`, AgentType.DISCOVERY);
+    discoverAround(result.position);
+  };
+
+  // Watch mode: follow the device and re-discover after significant movement
+  const watchHandlerRef = useRef((position: UserPosition) => {});
+  watchHandlerRef.current = (position: UserPosition) => {
+    setUserPosition(position);
+    const last = discoveredAtRef.current;
+    if (!last || distanceKm(last, position.coordinates) >= WATCH_REDISCOVER_KM) {
+      addLog(`Moved to ${position.coordinates.lat.toFixed(4)}, ${position.coordinates.lng.toFixed(4)}, rescanning nearby...`, AgentType.DISCOVERY);
+      discoverAround(position);
     }
+  };
 
-    addLog(`Discovery complete. ${result.spots.length} trending spots found in ${result.locationName}.`, AgentType.IDLE);
-    setActiveAgent(AgentType.IDLE);
+  useEffect(() => {
+    if (!followLocation) return;
+    setLocationStatus('watching');
+    setLocationMessage(null);
+    const stop = locationService.watch(
+      position => watchHandlerRef.current(position),
+      failure => {
+        setLocationStatus(failure.status);
+        setLocationMessage(failure.message);
+        setFollowLocation(false);
+      }
+    );
+    return () => {
+      stop();
+      setLocationStatus(status => status === 'watching' ? 'idle' : status);
+    };
+  }, [followLocation, locationService]);
+
+  // Keep the URL in sync with the view; a new search (query or area) becomes a new history entry
+  useEffect(() => {
+    const current = parseUrlState(window.location.search);
+    const bounds = searchBounds ?? undefined;
+    const isNewSearch = current.query !== undefined && (current.query !== activeQuery || !sameBounds(current.bounds, bounds));
+    writeUrlState({
+      query: activeQuery,
+      center: mapCenter,
+      zoom: mapZoom,
+      bounds,
+      mapType,
+      viewMode,
+      filters,
+      spotId: selectedSpot?.id
+    }, isNewSearch ? 'push' : 'replace');
+  }, [activeQuery, searchBounds, mapCenter, mapZoom, mapType, viewMode, filters, selectedSpot]);
+
+  // Back/forward: restore the stored view, re-running discovery only if the search changed
+  const popStateRef = useRef<(state: UrlState) => void>(() => {});
+  popStateRef.current = (state: UrlState) => {
+    setMapType(state.mapType ?? 'map');
+    setViewMode(state.viewMode ?? 'map');
+    setFilters(state.filters ?? DEFAULT_FILTERS);
+    // Zoom and center apply on their own, even when the search is unchanged
+    if (state.zoom !== undefined) setMapZoom(state.zoom);
+    if (state.center) setMapCenter(state.center);
+
+    const query = state.query ?? DEFAULT_LOCATION_NAME;
+    if (query !== activeQuery || !sameBounds(state.bounds, searchBounds ?? undefined)) {
+      pendingSpotIdRef.current = state.spotId ?? null;
+      runUrlSearch(state, userLocation);
+    } else {
+      setSelectedSpot(state.spotId ? spots.find(s => s.id === state.spotId) ?? null : null);
+    }
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!searchQuery.trim()) return;
-    addLog(`New search initiated: "${searchQuery}"`, AgentType.SEARCH);
-    
+  useEffect(() => {
+    const handlePopState = () => popStateRef.current(parseUrlState(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Set when a view restored from the URL should survive the discovery it triggers
+  const keepViewRef = useRef(false);
+
+  // Re-runs the search a URL describes: an area search over its bounds, otherwise the query
+  const runUrlSearch = (state: UrlState, fallbackCenter: Coordinates) => {
+    const query = state.query ?? DEFAULT_LOCATION_NAME;
+    keepViewRef.current = state.center !== undefined;
+    if (state.bounds) {
+      runDiscoveryAgent(getBoundsCenter(state.bounds), query, 'search', undefined, state.bounds);
+    } else {
+      runDiscoveryAgent(state.center ?? fallbackCenter, query, 'search', intentFor(query));
+    }
+  };
+
+  // 2. AI Agent Workflows
+  const runDiscoveryAgent = async (
+    center: Coordinates,
+    query: string,
+    mode: DiscoveryMode = 'search',
+    intent?: QueryIntent,
+    bounds?: MapBounds
+  ): Promise<DiscoveryResult | null> => {
+    // Only one pipeline runs at a time; a new search cancels the previous one
+    requestSeqRef.current++;
+    pipelineRef.current?.controller.abort(createAbortReason('Superseded by a newer search'));
+    const runId = createRunId();
+    const controller = new AbortController();
+    pipelineRef.current = { runId, controller };
+    const keepView = keepViewRef.current;
+    keepViewRef.current = false;
+    // The search region becomes the reference point; the map follows unless a restored view is kept
+    const showRegion = (regionCenter: Coordinates) => {
+      setUserLocation(regionCenter);
+      if (!keepView) setMapCenter(regionCenter);
+    };
+    setActiveRunId(runId);
+
+    if (mode === 'search') {
+      // Clear previous selection and any diff from an earlier refresh
+      setSelectedSpot(null);
+      setRefreshDiff(null);
+      setActiveQuery(query);
+      setQueryIntent(intent ?? null);
+      setSearchBounds(bounds ?? null);
+    }
+    setIsRefreshing(mode === 'refresh');
+    setStreamedCount(0);
+    setFailedDiscovery(null);
+
+    try {
+      const result = await runDiscoveryPipeline({ query, center, intent, bounds, bypassCache: mode === 'refresh' }, {
+        provider: discoveryProvider,
+        runId,
+        signal: controller.signal,
+        weights,
+        onStage: (agent) => {
+          if (!controller.signal.aborted) setActiveAgent(agent);
+        },
+        onLog: (log) => setAgentLogs(prev => [...prev, log]),
+        // A refresh diffs against the old spots, so only a new search shows them as they arrive
+        onPartial: mode === 'search' ? (partial) => {
+          if (controller.signal.aborted) return;
+          setSpots(partial.spots);
+          showRegion(partial.center);
+          setLocationName(partial.locationName);
+          setStreamedCount(partial.spots.length);
+          setResultSource('live');
+        } : undefined
+      });
+
+      if (mode === 'refresh') {
+        const diff = diffSpots(spotsRef.current, result.spots);
+        setRefreshDiff(diff);
+        addLog(`Refresh complete: ${describeDiff(diff)}.`, AgentType.REFRESH, { runId });
+      }
+
+      setSpots(result.spots);
+      setResultSource(result.source ?? null);
+      recordSnapshots(result.spots);
+      if (pendingSpotIdRef.current) {
+        const pending = pendingSpotIdRef.current;
+        pendingSpotIdRef.current = null;
+        setSelectedSpot(result.spots.find(s => s.id === pending) ?? null);
+      }
+      setSaved(prev => syncSavedSpots(prev, result.spots));
+      setCompared(prev => syncCompared(prev, result.spots));
+      // Drop cuisine selections that no longer exist in the new result set
+      const nextCuisines = getCuisineOptions(result.spots);
+      setFilters(prev => ({ ...prev, cuisines: prev.cuisines.filter(c => nextCuisines.includes(c)) }));
+      
+      // Update map center and location name based on what the AI found
+      if (result.center) {
+        showRegion(result.center);
+      }
+      if (result.locationName) {
+        setLocationName(result.locationName);
+      }
+
+      addLog(`Discovery complete. ${result.spots.length} trending spots found in ${result.locationName}.`, AgentType.IDLE, { runId, status: 'success' });
+      return result;
+    } catch (error) {
+      // Providers may surface an abort as their own error type; the signal is authoritative
+      if (controller.signal.aborted || isAbortError(error)) {
+        const reason = controller.signal.reason;
+        addLog(`Run cancelled: ${reason instanceof Error ? reason.message : 'aborted'}.`, AgentType.IDLE, { runId, status: 'error' });
+        return null;
+      }
+      const failure = toDiscoveryFailure(error);
+      setFailedDiscovery({ failure, center, query, mode, intent, bounds });
+      addLog(`Discovery failed (${failure.kind}): ${failure.message}`, AgentType.IDLE, { runId, status: 'error' });
+      return null;
+    } finally {
+      if (pipelineRef.current?.controller === controller) {
+        pipelineRef.current = null;
+        setActiveRunId(null);
+        setActiveAgent(AgentType.IDLE);
+        setIsRefreshing(false);
+      }
+    }
+  };
+
+  // Runs a search with parsed intent; the intent's price, cuisine and dietary parts become filters
+  const searchWithIntent = async (query: string, intent: QueryIntent) => {
+    addLog(`New search initiated: "${query}"`, AgentType.SEARCH);
     // Pass current location as reference, but the AI will determine the new center based on the query
-    runDiscoveryAgent(userLocation, searchQuery);
+    const result = await runDiscoveryAgent(userLocation, query, 'search', intent);
+    if (result) {
+      setFilters(prev => applyIntentToFilters(intent, prev, getCuisineOptions(result.spots)));
+    }
   };
 
-  const handleWeeklyRefresh = () => {
-    if (spots.length === 0) return;
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const query = searchQuery.trim();
+    if (!query) return;
+    const request = ++requestSeqRef.current;
+    const intent = await resolveQueryIntent(query, discoveryProvider);
+    // Another search or map action started while the query was being parsed
+    if (request !== requestSeqRef.current) return;
+    if (!isEmptyIntent(intent)) {
+      addLog(`Parsed query as: ${composeQuery(intent)}`, AgentType.SEARCH);
+    }
+    searchWithIntent(query, intent);
+  };
+
+  // Edited chips rebuild the query so the URL and cache key follow the intent
+  const handleIntentChange = (intent: QueryIntent) => {
+    const query = composeQuery(intent);
+    if (!query) return;
+    setSearchQuery(query);
+    searchWithIntent(query, intent);
+  };
+
+  // Conversational refinement: adjust filters locally or run a constrained follow-up discovery
+  const addTurn = (role: RefinementTurn['role'], text: string) =>
+    setRefinementTurns(prev => [...prev, { id: `${Date.now()}-${prev.length}`, role, text, timestamp: Date.now() }]);
+
+  const handleRefine = async (message: string) => {
+    addTurn('user', message);
+    addLog(`Refinement: "${message}"`, AgentType.REFINEMENT);
+
+    const outcome = refineResults(message, {
+      query: activeQuery,
+      locationName,
+      center: userLocation,
+      spots: rankedSpots,
+      selectedSpot: selectedView,
+      filters
+    });
+    addTurn('assistant', outcome.reply);
+
+    if (outcome.kind === 'unknown') {
+      setAgentLogs(prev => [...prev, createLog('Refinement not understood', AgentType.REFINEMENT, { status: 'error' })]);
+      return;
+    }
+
+    setFilters(outcome.filters);
+    if (outcome.kind === 'local') {
+      setAgentLogs(prev => [...prev, createLog(`Refined locally: ${outcome.reply}`, AgentType.REFINEMENT, { status: 'success' })]);
+      return;
+    }
+
+    addLog(`Follow-up discovery: "${outcome.query}"`, AgentType.REFINEMENT);
+    setIsRefining(true);
+    const result = await runDiscoveryAgent(outcome.center, outcome.query);
+    setIsRefining(false);
+    if (result) {
+      const matching = applyFilters(rankSpots(result.spots, result.center ?? outcome.center, weights), outcome.filters, result.center ?? outcome.center).length;
+      addTurn('assistant', `Found ${result.spots.length} spots${matching !== result.spots.length ? `, ${matching} match your filters` : ''}.`);
+    } else {
+      addTurn('assistant', 'That follow-up search did not finish. Try again?');
+    }
+  };
+
+  // Re-runs discovery for the current view against the live provider and diffs the result
+  const handleWeeklyRefresh = async () => {
+    // Imported results have no search behind them to re-run
+    if (spots.length === 0 || !activeQuery || pipelineRef.current) return;
+    const request = ++requestSeqRef.current;
     setActiveAgent(AgentType.REFRESH);
-    addLog('Executing Weekly Analytics Refresh...', AgentType.REFRESH);
-    
-    setTimeout(() => {
-       const updatedSpots = spots.map(s => ({
-         ...s,
-         trendingScore: Math.min(100, s.trendingScore + Math.floor(Math.random() * 10 - 3)),
-         lastUpdated: new Date().toISOString()
-       }));
-       setSpots(updatedSpots);
-       addLog('Refresh complete. Trends updated.', AgentType.IDLE);
-       setActiveAgent(AgentType.IDLE);
-    }, 2500);
+    addLog(`Executing Weekly Analytics Refresh for ${locationName}...`, AgentType.REFRESH);
+
+    // Cached discoveries for this query are stale once a refresh runs
+    await invalidateDiscoveryCache(activeQuery);
+    if (request !== requestSeqRef.current) return;
+    await runDiscoveryAgent(userLocation, activeQuery, 'refresh', queryIntent ?? undefined, searchBounds ?? undefined);
+  };
+
+  // Scheduled refresh while the app is open; the ref avoids resetting the timer every render
+  const refreshRef = useRef(handleWeeklyRefresh);
+  refreshRef.current = handleWeeklyRefresh;
+
+  useEffect(() => {
+    if (!autoRefreshMinutes) return;
+    const timer = setInterval(() => refreshRef.current(), autoRefreshMinutes * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [autoRefreshMinutes]);
+
+  const handleRetryDiscovery = () => {
+    if (!failedDiscovery) return;
+    const { center, query, mode, intent, bounds } = failedDiscovery;
+    addLog(`Retrying "${query}"...`, mode === 'refresh' ? AgentType.REFRESH : AgentType.SEARCH);
+    runDiscoveryAgent(center, query, mode, intent, bounds);
+  };
+
+  const handleCancelRun = () => {
+    requestSeqRef.current++;
+    cancelActiveRun('Cancelled by user');
+  };
+
+  // Imported files replace the current result set just like a discovery would
+  const handleImport = (result: DiscoveryResult) => {
+    requestSeqRef.current++;
+    cancelActiveRun('Replaced by imported file');
+    setSelectedSpot(null);
+    setRefreshDiff(null);
+    setFailedDiscovery(null);
+    setSpots(result.spots);
+    setResultSource(null);
+    setSearchBounds(null);
+    setUserLocation(result.center);
+    setMapCenter(result.center);
+    setLocationName(result.locationName);
+    // Not a search: nothing for the URL or a refresh to re-run
+    setActiveQuery('');
+    setQueryIntent(null);
+    setSidebarTab('trending');
+    const rejected = result.validation?.rejected ?? 0;
+    addLog(`Imported ${result.spots.length} spots${rejected > 0 ? ` (${rejected} rejected)` : ''} from file.`, AgentType.VALIDATION);
+  };
+
+  const handleAutoRefreshChange = (minutes: number) => {
+    setAutoRefreshMinutes(minutes);
+    localStorage.setItem(AUTO_REFRESH_STORAGE_KEY, String(minutes));
+    if (minutes > 0) addLog(`Auto-refresh scheduled every ${minutes} minutes.`, AgentType.REFRESH);
   };
 
   const isLoading = activeAgent !== AgentType.IDLE;
@@ -133,6 +604,14 @@ const App: React.FC = () => {
               <LayoutGrid className="w-5 h-5" />
             </div>
             <span className="text-xl font-bold text-brand-dark tracking-tight">FoodiFind</span>
+            {(discoveryProvider.id === 'mock' || resultSource === 'mock') && (
+              <span
+                title="Offline demo mode: places and spots come from a bundled sample dataset, not real recommendations"
+                className="text-[10px] px-2 py-0.5 rounded-full font-bold uppercase tracking-wide bg-amber-50 text-amber-700 border border-amber-200"
+              >
+                Demo data
+              </span>
+            )}
           </div>
           
           <div className="hidden md:flex items-center space-x-1 ml-8">
@@ -153,6 +632,7 @@ const App: React.FC = () => {
              <button type="submit" className="absolute right-1 top-1 bg-brand-dark text-white p-1.5 rounded-full hover:bg-brand-accent transition-colors shadow-sm">
                <Search className="w-4 h-4" />
              </button>
+             <QueryIntentChips intent={queryIntent} onChange={handleIntentChange} className="absolute top-full left-2 right-2 mt-1.5 z-50" />
            </form>
            
            <button className="text-sm font-medium text-slate-600 hover:text-brand-dark">Contact Us</button>
@@ -175,22 +655,42 @@ const App: React.FC = () => {
              />
              <Search className="absolute right-3 top-3.5 w-5 h-5 text-slate-400" />
            </form>
+           <QueryIntentChips intent={queryIntent} onChange={handleIntentChange} className="mt-2" />
         </div>
 
         {/* Map Area */}
         <div className="flex-1 relative bg-slate-200">
            
-           {/* Loading Overlay */}
+           {/* Failed searches say so; nothing is substituted for the missing results */}
+           {failedDiscovery && !isLoading && (
+             <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[450] max-w-[90%]">
+               <DiscoveryErrorBanner
+                 failure={failedDiscovery.failure}
+                 query={failedDiscovery.query}
+                 shownLocation={spots.length > 0 ? locationName : null}
+                 onRetry={handleRetryDiscovery}
+                 onDismiss={() => setFailedDiscovery(null)}
+               />
+             </div>
+           )}
+
+           {/* Progress pill: the map stays usable while spots stream in */}
            {isLoading && (
-             <div className="absolute inset-0 z-[450] bg-white/60 backdrop-blur-sm flex items-center justify-center">
-               <div className="bg-white p-6 rounded-xl shadow-2xl flex flex-col items-center animate-in fade-in zoom-in duration-300">
-                 <div className="relative w-16 h-16 mb-4">
-                   <div className="absolute inset-0 border-4 border-slate-100 rounded-full"></div>
-                   <div className="absolute inset-0 border-4 border-brand-primary border-t-transparent rounded-full animate-spin"></div>
-                   <LayoutGrid className="absolute inset-0 m-auto w-6 h-6 text-brand-dark" />
-                 </div>
-                 <h3 className="text-lg font-bold text-slate-800">Scanning Area...</h3>
-                 <p className="text-sm text-slate-500 mt-1 animate-pulse">{agentLogs[agentLogs.length - 1]?.message || "Initializing agents..."}</p>
+             <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[450] max-w-[90%] animate-in fade-in slide-in-from-bottom-2 duration-300">
+               <div className="flex items-center bg-white/95 backdrop-blur-sm pl-3 pr-1.5 py-1.5 rounded-full shadow-lg border border-slate-200">
+                 <Loader2 className="w-4 h-4 mr-2 text-brand-primary animate-spin shrink-0" />
+                 <span className="text-xs font-bold text-slate-800 whitespace-nowrap">
+                   {streamedCount > 0 ? `${streamedCount} spot${streamedCount === 1 ? '' : 's'} so far` : 'Scanning area...'}
+                 </span>
+                 <span className="text-xs text-slate-500 ml-2 truncate">{agentLogs.filter(log => log.runId === activeRunId).pop()?.message || "Initializing agents..."}</span>
+                 <button
+                   onClick={handleCancelRun}
+                   className="ml-3 shrink-0 flex items-center px-2.5 py-1 rounded-full text-xs font-bold text-slate-600 bg-slate-100 hover:bg-red-50 hover:text-red-600 transition-colors"
+                   title="Stop this search"
+                 >
+                   <X className="w-3 h-3 mr-1" />
+                   Cancel
+                 </button>
                </div>
              </div>
            )}
@@ -209,14 +709,42 @@ const App: React.FC = () => {
              >
                Satellite
              </button>
+             <div className="w-px bg-slate-200 mx-1" />
+             {OVERLAY_LAYERS.map(({ key, label }) => {
+               const Icon = OVERLAY_ICONS[key];
+               const active = overlays.includes(key);
+               return (
+                 <button
+                   key={key}
+                   onClick={() => setOverlays(prev => active ? prev.filter(o => o !== key) : [...prev, key])}
+                   className={`p-1.5 rounded transition-colors ${active ? 'bg-slate-100 text-brand-dark shadow-sm' : 'text-slate-400 hover:bg-slate-50 hover:text-slate-600'}`}
+                   title={label}
+                   aria-pressed={active}
+                 >
+                   <Icon className="w-4 h-4" />
+                 </button>
+               );
+             })}
            </div>
 
            <MapVisualization 
-             spots={spots} 
-             center={userLocation} 
+             spots={visibleSpots} 
+             center={mapCenter} 
              selectedSpotId={selectedSpot?.id || null}
              onSelectSpot={setSelectedSpot}
              mapType={mapType}
+             savedSpots={savedSpots}
+             zoom={mapZoom}
+             onViewChange={(center, zoom) => {
+               setMapCenter(center);
+               setMapZoom(zoom);
+             }}
+             userPosition={userPosition}
+             onSearchArea={handleSearchArea}
+             overlays={overlays}
+             onToggleCompare={handleToggleCompare}
+             route={crawlPlan}
+             openCheck={openCheck}
            />
 
            {/* Mobile List Toggle */}
@@ -233,62 +761,265 @@ const App: React.FC = () => {
           
           {/* Sidebar Header */}
           <div className="p-4 border-b border-slate-100 bg-white flex justify-between items-center">
-            <div>
-               <h2 className="font-bold text-slate-800 flex items-center text-lg">
-                 <LayoutGrid className="w-4 h-4 mr-2 text-brand-dark" />
-                 Trending Spots
-               </h2>
-               <p className="text-xs text-slate-500 mt-1">Found {spots.length} recommendations in {locationName}</p>
+            <div className="min-w-0">
+               <div className="flex items-center space-x-3">
+                 <button
+                   onClick={() => setSidebarTab('trending')}
+                   className={`font-bold flex items-center text-base transition-colors ${sidebarTab === 'trending' ? 'text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   <LayoutGrid className="w-4 h-4 mr-2 text-brand-dark" />
+                   Trending
+                 </button>
+                 <button
+                   onClick={() => setSidebarTab('saved')}
+                   className={`font-bold flex items-center text-base transition-colors ${sidebarTab === 'saved' ? 'text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   <Bookmark className="w-4 h-4 mr-2 text-amber-500" />
+                   Saved
+                 </button>
+                 <button
+                   onClick={() => setSidebarTab('crawl')}
+                   className={`font-bold flex items-center text-base transition-colors ${sidebarTab === 'crawl' ? 'text-slate-800' : 'text-slate-400 hover:text-slate-600'}`}
+                 >
+                   <Route className="w-4 h-4 mr-2 text-indigo-500" />
+                   Crawl
+                 </button>
+               </div>
+               <p className="text-xs text-slate-500 mt-1">
+                 {sidebarTab === 'trending' && resultSource && (
+                   <span className="mr-1.5 align-middle">
+                     <SourceBadge source={resultSource} providerLabel={discoveryProvider.label} usage={discoveryRateLimiter.getUsage()} />
+                   </span>
+                 )}
+                 {sidebarTab === 'saved'
+                   ? `${savedSpots.length} saved spots in ${saved.lists.length} lists`
+                   : sidebarTab === 'crawl'
+                     ? 'Pick spots and get the shortest walking order'
+                     : visibleSpots.length === spots.length
+                     ? `Found ${spots.length} recommendations in ${locationName}`
+                     : `Showing ${visibleSpots.length} of ${spots.length} recommendations in ${locationName}`}
+               </p>
+            </div>
+            <div className="flex items-center shrink-0">
+              <button
+                onClick={() => { setShowRefinement(!showRefinement); setSidebarTab('trending'); }}
+                className={`p-1.5 hover:text-brand-dark hover:bg-slate-50 rounded-full transition-colors ${showRefinement ? 'text-brand-dark' : 'text-slate-400'}`}
+                title="Refine Results"
+              >
+                <MessageSquare className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowDataTransfer(!showDataTransfer)}
+                className={`p-1.5 hover:text-brand-dark hover:bg-slate-50 rounded-full transition-colors ${showDataTransfer ? 'text-brand-dark' : 'text-slate-400'}`}
+                title="Import / Export"
+              >
+                <ArrowDownUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowRankingSettings(!showRankingSettings)}
+                className={`p-1.5 hover:text-brand-dark hover:bg-slate-50 rounded-full transition-colors ${showRankingSettings ? 'text-brand-dark' : 'text-slate-400'}`}
+                title="Ranking Weights"
+              >
+                <Settings2 className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={handleWeeklyRefresh} 
+                disabled={isLoading || !activeQuery}
+                className={`p-1.5 text-slate-400 hover:text-brand-dark hover:bg-slate-50 rounded-full transition-colors ${isLoading || !activeQuery ? 'opacity-50 cursor-not-allowed' : ''}`}
+                title="Refresh AI Analysis"
+              >
+                <RefreshCw className={`w-4 h-4 ${isRefreshing || activeAgent === AgentType.REFRESH ? 'animate-spin' : ''}`} />
+              </button>
             </div>
-            <button 
-              onClick={handleWeeklyRefresh} 
-              disabled={isLoading}
-              className={`p-2 text-slate-400 hover:text-brand-dark hover:bg-slate-50 rounded-full transition-colors ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-              title="Refresh AI Analysis"
-            >
-              <RefreshCw className={`w-4 h-4 ${activeAgent === AgentType.REFRESH ? 'animate-spin' : ''}`} />
-            </button>
           </div>
 
+          {showDataTransfer && (
+            <DataTransferPanel
+              visibleSpots={visibleSpots}
+              allSpots={rankedSpots}
+              savedSpots={savedSpots}
+              locationName={locationName}
+              onImport={handleImport}
+              onClose={() => setShowDataTransfer(false)}
+            />
+          )}
+
+          {sidebarTab === 'trending' && (
+            <>
+              <RefreshStatus
+                diff={refreshDiff}
+                autoRefreshMinutes={autoRefreshMinutes}
+                onAutoRefreshChange={handleAutoRefreshChange}
+                onDismissDiff={() => setRefreshDiff(null)}
+              />
+
+              {showRefinement && (
+                <RefinementPanel
+                  turns={refinementTurns}
+                  busy={isRefining}
+                  selectedSpotName={selectedView?.name}
+                  onSend={handleRefine}
+                  onClose={() => setShowRefinement(false)}
+                />
+              )}
+
+              {showRankingSettings && (
+                <RankingSettings weights={weights} onChange={handleWeightsChange} onClose={() => setShowRankingSettings(false)} />
+              )}
+
+              <FilterBar filters={filters} cuisineOptions={cuisineOptions} onChange={setFilters} />
+            </>
+          )}
+
           {/* List Content */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-50">
-            {spots.length === 0 && !isLoading && (
-               <div className="text-center p-8 text-slate-400 text-sm">
-                 No spots found. Try a different location.
-               </div>
-            )}
-            
-            {spots.map(spot => (
-              <SpotCard 
-                key={spot.id} 
-                spot={spot} 
-                selected={selectedSpot?.id === spot.id}
-                onSelect={setSelectedSpot} 
+          {sidebarTab === 'crawl' ? (
+            <div className="flex-1 overflow-y-auto p-4 bg-slate-50">
+              <CrawlPlanner
+                candidates={crawlCandidates}
+                startOptions={crawlStarts}
+                plan={crawlPlan}
+                savedPlans={crawlPlans}
+                onPlanChange={(plan) => {
+                  setCrawlPlan(plan);
+                  if (plan) addLog(`Planned crawl: ${plan.stops.length} stops, ${plan.totalKm} km (~${plan.totalMinutes} min walk)`, AgentType.RANKING);
+                }}
+                onSavePlan={(plan) => { setCrawlPlan(plan); setCrawlPlans(prev => saveCrawlPlan(prev, plan)); }}
+                onDeletePlan={(id) => setCrawlPlans(prev => deleteCrawlPlan(prev, id))}
+                onSelect={setSelectedSpot}
               />
-            ))}
-          </div>
+            </div>
+          ) : sidebarTab === 'saved' ? (
+            <div className="flex-1 overflow-y-auto p-4 bg-slate-50">
+              <SavedSpotsPanel
+                saved={saved}
+                selectedSpotId={selectedSpot?.id || null}
+                onSelect={setSelectedSpot}
+                onToggleSave={(spot) => setSaved(prev => toggleSaved(prev, spot))}
+                onToggleVisited={(id, visited) => setSaved(prev => setVisited(prev, id, visited))}
+                onCreateList={(name) => setSaved(prev => createList(prev, name))}
+                onDeleteList={(id) => setSaved(prev => deleteList(prev, id))}
+              />
+            </div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-4 space-y-3 bg-slate-50">
+              {spots.length === 0 && !isLoading && (
+                 <div className="text-center p-8 text-slate-400 text-sm">
+                   No spots found. Try a different location.
+                 </div>
+              )}
+
+              {spots.length > 0 && visibleSpots.length === 0 && (
+                 <div className="text-center p-8 text-slate-400 text-sm">
+                   No spots match the current filters.
+                 </div>
+              )}
+              
+              {visibleSpots.map(spot => (
+                <SpotCard 
+                  key={spot.id} 
+                  spot={spot} 
+                  selected={selectedSpot?.id === spot.id}
+                  onSelect={setSelectedSpot} 
+                  change={refreshDiff?.changes[spot.id]}
+                  isSaved={Boolean(saved.spots[spot.id])}
+                  onToggleSave={(s) => setSaved(prev => toggleSaved(prev, s))}
+                  isCompared={isCompared(compared, spot.id)}
+                  compareDisabled={comparisonFull && !isCompared(compared, spot.id)}
+                  onToggleCompare={handleToggleCompare}
+                  openCheck={openCheck}
+                />
+              ))}
+
+              {refreshDiff && refreshDiff.removed.length > 0 && (
+                <>
+                  <div className="pt-2 text-[10px] text-slate-400 uppercase font-semibold">No longer listed</div>
+                  {refreshDiff.removed.map(spot => (
+                    <SpotCard
+                      key={spot.id}
+                      spot={spot}
+                      selected={selectedSpot?.id === spot.id}
+                      onSelect={setSelectedSpot}
+                      change={refreshDiff.changes[spot.id]}
+                    />
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+
+          <CompareTray
+            spots={comparedView}
+            onRemove={handleToggleCompare}
+            onClear={() => setCompared([])}
+            onOpen={() => setShowComparison(true)}
+          />
 
           {/* Footer Actions */}
-          <div className="p-4 border-t border-slate-200 bg-white">
-             <button className="w-full bg-brand-dark text-white py-3 rounded-lg font-bold hover:bg-brand-accent transition-colors shadow-soft flex justify-center items-center">
-               <Navigation className="w-4 h-4 mr-2" />
-               Locate Me
+          <div className="p-4 border-t border-slate-200 bg-white space-y-2">
+             <button
+               onClick={handleLocateMe}
+               disabled={locationStatus === 'locating'}
+               className="w-full bg-brand-dark text-white py-3 rounded-lg font-bold hover:bg-brand-accent transition-colors shadow-soft flex justify-center items-center disabled:opacity-70 disabled:cursor-wait"
+             >
+               {locationStatus === 'locating'
+                 ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                 : <Navigation className="w-4 h-4 mr-2" />}
+               {locationStatus === 'locating' ? 'Locating...' : 'Locate Me'}
              </button>
+             <div className="flex items-center justify-between text-[10px]">
+               <label className="flex items-center text-slate-500 cursor-pointer">
+                 <input
+                   type="checkbox"
+                   checked={followLocation}
+                   onChange={(e) => setFollowLocation(e.target.checked)}
+                   className="mr-1.5 accent-emerald-700"
+                 />
+                 Follow my location
+               </label>
+               {locationStatus === 'watching' && <span className="text-blue-600 font-bold">Tracking</span>}
+               {locationStatus === 'located' && userPosition && (
+                 <span className="text-slate-400">±{Math.round(userPosition.accuracyMeters)} m</span>
+               )}
+             </div>
+             {locationMessage && <p className="text-[10px] text-red-600">{locationMessage}</p>}
           </div>
         </div>
 
         {/* Detail Panel (Slide Over) */}
-        {selectedSpot && (
+        {selectedView && (
           <div className="absolute top-4 right-4 md:right-[416px] bottom-4 w-full md:w-[400px] z-[500] pointer-events-none">
              <div className="pointer-events-auto h-full">
-                <DetailPanel spot={selectedSpot} onClose={() => setSelectedSpot(null)} />
+                <DetailPanel
+                  spot={selectedView}
+                  onClose={() => setSelectedSpot(null)}
+                  saved={saved.spots[selectedView.id]}
+                  lists={saved.lists}
+                  onToggleSave={(spot) => setSaved(prev => toggleSaved(prev, spot))}
+                  onToggleList={(spot, listId) => setSaved(prev => toggleInList(prev, spot, listId))}
+                  onNoteChange={(id, note) => setSaved(prev => setNote(prev, id, note))}
+                  onToggleVisited={(id, visited) => setSaved(prev => setVisited(prev, id, visited))}
+                  isCompared={isCompared(compared, selectedView.id)}
+                  compareDisabled={comparisonFull && !isCompared(compared, selectedView.id)}
+                  onToggleCompare={handleToggleCompare}
+                  openCheck={openCheck}
+                />
              </div>
           </div>
         )}
 
+        {showComparison && (
+          <ComparisonView
+            spots={comparedView}
+            center={userLocation}
+            onClose={() => setShowComparison(false)}
+            onRemove={handleToggleCompare}
+            onSelectSpot={(spot) => { setShowComparison(false); setSelectedSpot(spot); }}
+          />
+        )}
+
         {/* Agent HUD (Bottom Left) */}
         <div className="absolute bottom-4 left-4 z-30 hidden md:block">
-           <AgentHUD logs={agentLogs} activeAgent={activeAgent} />
+           <AgentHUD logs={agentLogs} activeAgent={activeAgent} activeRunId={activeRunId} />
         </div>
 
       </div>
@@ -1,13 +1,39 @@
 import React, { useEffect, useRef } from 'react';
-import { Terminal, ShieldCheck, Search, Database, Radio, Activity } from 'lucide-react';
+import { Terminal, ShieldCheck, Search, Database, Radio, Activity, MessageSquare } from 'lucide-react';
 import { AgentType, AgentLog } from '../types';
+import { getRunNumber } from '../services/agentPipeline';
 
 interface AgentHUDProps {
   logs: AgentLog[];
   activeAgent: AgentType;
+  activeRunId?: string | null;
 }
 
-export const AgentHUD: React.FC<AgentHUDProps> = ({ logs, activeAgent }) => {
+interface LogGroup {
+  key: string;
+  runId?: string;
+  logs: AgentLog[];
+}
+
+// One group per run in order of first appearance, so a cancelled run's late
+// logs stay with it; app-level messages form their own groups in between
+const groupLogsByRun = (logs: AgentLog[]): LogGroup[] => {
+  const groups: LogGroup[] = [];
+  const byRun = new Map<string, LogGroup>();
+  logs.forEach(log => {
+    const existing = log.runId ? byRun.get(log.runId) : groups[groups.length - 1];
+    if (existing && existing.runId === log.runId) {
+      existing.logs.push(log);
+      return;
+    }
+    const group: LogGroup = { key: log.runId ?? log.id, runId: log.runId, logs: [log] };
+    groups.push(group);
+    if (log.runId) byRun.set(log.runId, group);
+  });
+  return groups;
+};
+
+export const AgentHUD: React.FC<AgentHUDProps> = ({ logs, activeAgent, activeRunId = null }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -22,6 +48,7 @@ export const AgentHUD: React.FC<AgentHUDProps> = ({ logs, activeAgent }) => {
       case AgentType.SEARCH: return <Search className="w-3 h-3 text-purple-500" />;
       case AgentType.RANKING: return <Activity className="w-3 h-3 text-orange-500" />;
       case AgentType.VALIDATION: return <ShieldCheck className="w-3 h-3 text-green-500" />;
+      case AgentType.REFINEMENT: return <MessageSquare className="w-3 h-3 text-indigo-500" />;
       default: return <Database className="w-3 h-3 text-slate-400" />;
     }
   };
@@ -41,15 +68,31 @@ export const AgentHUD: React.FC<AgentHUDProps> = ({ logs, activeAgent }) => {
       
       <div className="relative flex-1 bg-white p-2">
         <div ref={scrollRef} className="h-full overflow-y-auto space-y-1.5 pr-1 max-h-[10rem]">
-          {logs.map((log) => (
-            <div key={log.id} className="flex items-start space-x-2">
-              <span className="mt-0.5 opacity-70">{getIcon(log.agent)}</span>
-              <div>
-                <span className="text-[10px] text-slate-400 block">{new Date(log.timestamp).toLocaleTimeString()}</span>
-                <span className="text-slate-700 leading-tight">{log.message}</span>
+          {groupLogsByRun(logs).map((group) => {
+            const isActive = group.runId !== undefined && group.runId === activeRunId;
+            return (
+              <div key={group.key} className={group.runId ? `border-l-2 pl-2 space-y-1.5 ${isActive ? 'border-brand-primary' : 'border-slate-200 opacity-70'}` : 'space-y-1.5'}>
+                {group.runId && (
+                  <div className="flex items-center justify-between text-[10px] font-bold text-slate-500">
+                    <span>RUN #{getRunNumber(group.runId)}</span>
+                    {isActive && <span className="text-brand-primary">LIVE</span>}
+                  </div>
+                )}
+                {group.logs.map((log) => (
+                  <div key={log.id} className="flex items-start space-x-2">
+                    <span className="mt-0.5 opacity-70">{getIcon(log.agent)}</span>
+                    <div>
+                      <span className="text-[10px] text-slate-400 block">{new Date(log.timestamp).toLocaleTimeString()}</span>
+                      <span className={`leading-tight ${log.status === 'error' ? 'text-red-600' : log.status === 'success' ? 'text-brand-dark' : 'text-slate-700'}`}>{log.message}</span>
+                      {log.durationMs !== undefined && (
+                        <span className="text-[10px] text-slate-400 ml-1">({log.durationMs}ms)</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
               </div>
-            </div>
-          ))}
+            );
+          })}
           {logs.length === 0 && (
             <div className="text-slate-400 italic text-center mt-6">System ready. Waiting for input...</div>
           )}
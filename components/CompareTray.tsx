@@ -0,0 +1,44 @@
+import React from 'react';
+import { FoodSpot } from '../types';
+import { COMPARE_COLORS, MAX_COMPARE, MIN_COMPARE } from '../services/comparisonService';
+import { Scale, X } from 'lucide-react';
+
+interface CompareTrayProps {
+  spots: FoodSpot[];
+  onRemove: (spot: FoodSpot) => void;
+  onClear: () => void;
+  onOpen: () => void;
+}
+
+export const CompareTray: React.FC<CompareTrayProps> = ({ spots, onRemove, onClear, onOpen }) => {
+  if (spots.length === 0) return null;
+  const ready = spots.length >= MIN_COMPARE;
+
+  return (
+    <div className="border-t border-slate-200 bg-slate-50 px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase">Compare ({spots.length}/{MAX_COMPARE})</span>
+        <button onClick={onClear} className="text-[10px] text-slate-400 hover:text-slate-600 font-bold">Clear</button>
+      </div>
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {spots.map((spot, index) => (
+          <span key={spot.id} className="flex items-center text-[10px] font-bold bg-white border border-slate-200 rounded-full pl-2 pr-1 py-0.5 text-slate-700 max-w-[140px]">
+            <span className="w-2 h-2 rounded-full mr-1 shrink-0" style={{ background: COMPARE_COLORS[index] }} />
+            <span className="truncate">{spot.name}</span>
+            <button onClick={() => onRemove(spot)} className="ml-0.5 text-slate-300 hover:text-slate-600">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+      <button
+        onClick={onOpen}
+        disabled={!ready}
+        className="w-full flex items-center justify-center py-1.5 rounded-md text-xs font-bold transition-colors bg-brand-dark text-white hover:bg-brand-accent disabled:bg-slate-200 disabled:text-slate-400"
+      >
+        <Scale className="w-3.5 h-3.5 mr-1.5" />
+        {ready ? 'Compare side by side' : `Pick at least ${MIN_COMPARE} spots`}
+      </button>
+    </div>
+  );
+};
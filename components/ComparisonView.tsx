@@ -0,0 +1,155 @@
+import React, { useMemo } from 'react';
+import { Coordinates, FoodSpot } from '../types';
+import { buildRadarData, COMPARE_COLORS } from '../services/comparisonService';
+import { getHistory } from '../services/historyService';
+import { getDietaryTags } from '../services/dietaryService';
+import { DietaryBadges } from './DietaryBadges';
+import { distanceKm, formatDistance } from '../services/geo';
+import { X, Users, Utensils, TrendingUp } from 'lucide-react';
+import { RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, LineChart, Line, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface ComparisonViewProps {
+  spots: FoodSpot[];
+  center: Coordinates; // Distances and proximity are measured from here
+  onClose: () => void;
+  onRemove: (spot: FoodSpot) => void;
+  onSelectSpot: (spot: FoodSpot) => void;
+}
+
+const tooltipStyle = { backgroundColor: '#fff', borderColor: '#e2e8f0', color: '#1e2937', fontSize: '12px', borderRadius: '4px', padding: '4px 8px' };
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ spots, center, onClose, onRemove, onSelectSpot }) => {
+  const radarData = useMemo(() => buildRadarData(spots, center), [spots, center]);
+  const histories = useMemo(() => spots.map(spot => getHistory(spot, '30d').map(snapshot => ({
+    time: new Date(snapshot.timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' }),
+    trending: snapshot.trendingScore,
+    sentiment: snapshot.sentimentScore
+  }))), [spots]);
+
+  // Label column plus one aligned column per spot
+  const gridStyle = { gridTemplateColumns: `120px repeat(${spots.length}, minmax(0, 1fr))` };
+
+  const renderRow = (label: string, render: (spot: FoodSpot, index: number) => React.ReactNode) => (
+    <div className="grid gap-3 py-2.5 border-b border-slate-100 items-start" style={gridStyle}>
+      <div className="text-[10px] text-slate-500 uppercase font-semibold pt-0.5">{label}</div>
+      {spots.map((spot, index) => (
+        <div key={spot.id} className="text-xs text-slate-700 min-w-0">{render(spot, index)}</div>
+      ))}
+    </div>
+  );
+
+  // Highlight the best value in a numeric row
+  const renderScoreRow = (label: string, value: (spot: FoodSpot) => number, format: (n: number) => string = String, lowerIsBetter = false) => {
+    const values = spots.map(value);
+    const best = lowerIsBetter ? Math.min(...values) : Math.max(...values);
+    return renderRow(label, (_, index) => (
+      <span className={`font-bold ${values[index] === best ? 'text-brand-dark' : 'text-slate-500'}`}>{format(values[index])}</span>
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-full bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-slate-100">
+          <h2 className="text-base font-bold text-slate-800">Compare {spots.length} spots</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-600 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {/* Column headers */}
+          <div className="grid gap-3 pb-3 border-b border-slate-200" style={gridStyle}>
+            <div />
+            {spots.map((spot, index) => (
+              <div key={spot.id} className="min-w-0">
+                <div className="flex items-start justify-between">
+                  <button onClick={() => onSelectSpot(spot)} className="text-left min-w-0">
+                    <div className="flex items-center">
+                      <span className="w-2.5 h-2.5 rounded-full mr-1.5 shrink-0" style={{ background: COMPARE_COLORS[index] }} />
+                      <span className="text-sm font-bold text-slate-800 truncate hover:text-brand-dark">{spot.name}</span>
+                    </div>
+                    <div className="text-[10px] text-slate-500 mt-0.5 truncate">{spot.cuisine}</div>
+                  </button>
+                  <button onClick={() => onRemove(spot)} className="p-0.5 text-slate-300 hover:text-slate-600" title="Remove from comparison">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Radar across the score dimensions */}
+          <div className="h-72 w-full my-3">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadarChart data={radarData} outerRadius="75%">
+                <PolarGrid stroke="#e2e8f0" />
+                <PolarAngleAxis dataKey="dimension" tick={{ fontSize: 10, fill: '#64748b' }} />
+                <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                {spots.map((spot, index) => (
+                  <Radar key={spot.id} name={spot.name} dataKey={spot.id} stroke={COMPARE_COLORS[index]} fill={COMPARE_COLORS[index]} fillOpacity={0.15} strokeWidth={2} />
+                ))}
+                <Tooltip contentStyle={tooltipStyle} />
+                <Legend iconSize={8} wrapperStyle={{ fontSize: '10px' }} />
+              </RadarChart>
+            </ResponsiveContainer>
+          </div>
+
+          {renderScoreRow('Composite', spot => spot.ranking?.score ?? 0, n => n ? String(n) : '–')}
+          {renderScoreRow('Sentiment', spot => spot.sentimentScore)}
+          {renderScoreRow('Trending', spot => spot.trendingScore)}
+          {renderScoreRow('Growth', spot => spot.popularityVelocity, n => `${n > 0 ? '+' : ''}${n}%`)}
+          {renderScoreRow('AI Confidence', spot => spot.aiConfidence, n => `${n}%`)}
+          {renderScoreRow('Distance', spot => distanceKm(center, spot.coordinates), formatDistance, true)}
+          {renderRow('Price', spot => <span className="px-2 py-0.5 bg-slate-100 rounded font-medium">{spot.priceRange}</span>)}
+          {renderRow('Dietary', spot => (
+            getDietaryTags(spot).length > 0 || spot.allergens?.length
+              ? <DietaryBadges tags={getDietaryTags(spot)} allergens={spot.allergens} compact />
+              : <span className="text-slate-400">Unknown</span>
+          ))}
+          {renderRow('Best dishes', spot => (
+            <ul className="space-y-0.5">
+              {spot.bestDishes.map(dish => (
+                <li key={dish} className="flex items-start"><Utensils className="w-3 h-3 mr-1 mt-0.5 text-brand-primary shrink-0" />{dish}</li>
+              ))}
+            </ul>
+          ))}
+          {renderRow('Influencers', spot => (
+            <div className="space-y-1">
+              <p className="text-slate-600 leading-relaxed">{spot.influencerData.summary}</p>
+              <div className="flex items-center text-[10px] text-slate-500">
+                <Users className="w-3 h-3 mr-1" />
+                {spot.influencerData.sourceCount !== undefined ? `${spot.influencerData.sourceCount} sources` : 'Sources unknown'}
+                {spot.influencerData.topMentionedBy.length > 0 && ` · ${spot.influencerData.topMentionedBy.slice(0, 2).join(', ')}`}
+              </div>
+            </div>
+          ))}
+          {renderRow('History (30d)', (_, index) => histories[index].length < 2 ? (
+            <div className="h-20 flex items-center justify-center text-[10px] text-slate-400 bg-slate-50 rounded border border-dashed border-slate-200">
+              Not enough history yet
+            </div>
+          ) : (
+            <div className="h-20 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={histories[index]}>
+                  <YAxis hide domain={[0, 100]} />
+                  <Tooltip contentStyle={tooltipStyle} />
+                  <Line type="monotone" dataKey="trending" name="Trending" stroke={COMPARE_COLORS[index]} strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="sentiment" name="Sentiment" stroke="#94a3b8" strokeWidth={1} strokeDasharray="3 2" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ))}
+
+          <p className="text-[10px] text-slate-400 mt-3 flex items-center">
+            <TrendingUp className="w-3 h-3 mr-1" />
+            Best value in each row is highlighted. Proximity and distance are measured from the current map center.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Coordinates, CrawlPlan, FoodSpot } from '../types';
+import { createCrawlPlan, formatDuration, MAX_CRAWL_STOPS } from '../services/routeService';
+import { CRAWL_EXPORT_FORMATS, downloadCrawlPlan } from '../services/exportService';
+import { formatDistance } from '../services/geo';
+import { Route, Footprints, Save, Trash2, Download, X } from 'lucide-react';
+
+export interface CrawlStart {
+  key: string;
+  label: string;
+  coordinates: Coordinates;
+}
+
+interface CrawlPlannerProps {
+  candidates: FoodSpot[];
+  startOptions: CrawlStart[];
+  plan: CrawlPlan | null; // Plan currently drawn on the map
+  savedPlans: CrawlPlan[];
+  onPlanChange: (plan: CrawlPlan | null) => void;
+  onSavePlan: (plan: CrawlPlan) => void;
+  onDeletePlan: (planId: string) => void;
+  onSelect: (spot: FoodSpot) => void;
+}
+
+export const CrawlPlanner: React.FC<CrawlPlannerProps> = ({
+  candidates, startOptions, plan, savedPlans, onPlanChange, onSavePlan, onDeletePlan, onSelect
+}) => {
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [startKey, setStartKey] = useState(startOptions[0]?.key);
+  const [name, setName] = useState('');
+
+  const start = startOptions.find(o => o.key === startKey) ?? startOptions[0];
+  const picked = candidates.filter(s => pickedIds.includes(s.id));
+  const isSavedPlan = plan ? savedPlans.some(p => p.id === plan.id) : false;
+
+  const togglePick = (spotId: string) =>
+    setPickedIds(prev => prev.includes(spotId) ? prev.filter(id => id !== spotId) : [...prev, spotId]);
+
+  const handlePlan = () => {
+    if (!start || picked.length < 2) return;
+    onPlanChange(createCrawlPlan(name, start.coordinates, start.label, picked));
+  };
+
+  const handleLoad = (saved: CrawlPlan) => {
+    onPlanChange(saved);
+    setName(saved.name);
+    setPickedIds(saved.stops.map(s => s.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Stop picker */}
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <span className="text-[10px] font-bold text-slate-500 uppercase">Stops ({picked.length}/{MAX_CRAWL_STOPS})</span>
+          {pickedIds.length > 0 && (
+            <button onClick={() => setPickedIds([])} className="text-[10px] text-slate-400 hover:text-slate-600 font-bold">Clear</button>
+          )}
+        </div>
+        {candidates.length === 0 ? (
+          <p className="text-xs text-slate-400 text-center p-4">Search an area or save spots to plan a crawl.</p>
+        ) : (
+          <ul className="bg-white border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+            {candidates.map(spot => {
+              const checked = pickedIds.includes(spot.id);
+              return (
+                <li key={spot.id}>
+                  <label className="flex items-center px-3 py-2 text-xs cursor-pointer hover:bg-slate-50">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      disabled={!checked && picked.length >= MAX_CRAWL_STOPS}
+                      onChange={() => togglePick(spot.id)}
+                      className="mr-2 accent-emerald-700"
+                    />
+                    <span className="flex-1 truncate font-medium text-slate-700">{spot.name}</span>
+                    <span className="text-[10px] text-slate-400 ml-2">{spot.cuisine}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Start point + plan */}
+      <div className="flex items-center space-x-2">
+        <select
+          value={start?.key}
+          onChange={(e) => setStartKey(e.target.value)}
+          className="flex-1 text-xs bg-white border border-slate-200 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+        >
+          {startOptions.map(option => (
+            <option key={option.key} value={option.key}>Start: {option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={handlePlan}
+          disabled={picked.length < 2}
+          className="flex items-center px-3 py-1.5 bg-brand-dark text-white rounded text-xs font-bold hover:bg-brand-accent transition-colors disabled:bg-slate-200 disabled:text-slate-400"
+        >
+          <Route className="w-3.5 h-3.5 mr-1" />
+          Plan route
+        </button>
+      </div>
+
+      {/* Active plan */}
+      {plan && (
+        <div className="bg-white border border-slate-200 rounded-lg p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-bold text-slate-800">{plan.name}</div>
+              <div className="text-[10px] text-slate-500 flex items-center">
+                <Footprints className="w-3 h-3 mr-1" />
+                {formatDistance(plan.totalKm)} · {formatDuration(plan.totalMinutes)} walking · {plan.stops.length} stops
+              </div>
+            </div>
+            <button onClick={() => onPlanChange(null)} className="p-1 text-slate-300 hover:text-slate-600" title="Hide route">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <ol className="space-y-1.5">
+            <li className="text-[10px] text-slate-500 font-bold uppercase">From {plan.startLabel}</li>
+            {plan.stops.map((stop, i) => (
+              <li key={stop.id} className="flex items-center text-xs">
+                <span className="w-5 h-5 rounded-full bg-brand-dark text-white text-[10px] font-bold flex items-center justify-center mr-2 shrink-0">{i + 1}</span>
+                <button onClick={() => onSelect(stop)} className="flex-1 text-left truncate font-medium text-slate-700 hover:text-brand-dark">{stop.name}</button>
+                <span className="text-[10px] text-slate-400 ml-2 whitespace-nowrap">
+                  {formatDistance(plan.legs[i].distanceKm)} · {formatDuration(plan.legs[i].walkMinutes)}
+                </span>
+              </li>
+            ))}
+          </ol>
+
+          <div className="flex items-center space-x-1.5">
+            <input
+              type="text"
+              placeholder="Plan name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 text-xs bg-white border border-slate-200 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+            />
+            <button
+              onClick={() => onSavePlan({ ...plan, name: name.trim() || plan.name })}
+              className="flex items-center px-2 py-1.5 bg-brand-dark text-white rounded text-[10px] font-bold hover:bg-brand-accent transition-colors"
+              title={isSavedPlan ? 'Update saved plan' : 'Save plan'}
+            >
+              <Save className="w-3 h-3 mr-1" />
+              {isSavedPlan ? 'Update' : 'Save'}
+            </button>
+          </div>
+
+          <div className="flex items-center space-x-1.5">
+            <Download className="w-3 h-3 text-slate-400" />
+            {CRAWL_EXPORT_FORMATS.map(format => (
+              <button
+                key={format.key}
+                onClick={() => downloadCrawlPlan(plan, format.key)}
+                className="text-[10px] px-2 py-1 rounded font-bold border bg-white text-slate-600 border-slate-200 hover:border-brand-dark/30"
+              >
+                {format.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Saved plans */}
+      {savedPlans.length > 0 && (
+        <div>
+          <div className="text-[10px] font-bold text-slate-500 uppercase mb-1.5">Saved crawls</div>
+          <ul className="space-y-1.5">
+            {savedPlans.map(saved => (
+              <li
+                key={saved.id}
+                className={`flex items-center bg-white border rounded-lg px-3 py-2 text-xs ${plan?.id === saved.id ? 'border-brand-dark' : 'border-slate-200'}`}
+              >
+                <button onClick={() => handleLoad(saved)} className="flex-1 text-left min-w-0">
+                  <div className="font-bold text-slate-700 truncate">{saved.name}</div>
+                  <div className="text-[10px] text-slate-400">
+                    {saved.stops.length} stops · {formatDistance(saved.totalKm)} · {formatDuration(saved.totalMinutes)}
+                  </div>
+                </button>
+                <button onClick={() => onDeletePlan(saved.id)} className="p-1 text-slate-300 hover:text-red-600" title="Delete plan">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload } from 'lucide-react';
+import { DiscoveryResult, FoodSpot } from '../types';
+import { EXPORT_FORMATS, ExportFormat, downloadSpots } from '../services/exportService';
+import { readImportFile } from '../services/importService';
+
+interface DataTransferPanelProps {
+  visibleSpots: FoodSpot[];
+  allSpots: FoodSpot[];
+  savedSpots: FoodSpot[];
+  locationName: string;
+  onImport: (result: DiscoveryResult) => void;
+  onClose: () => void;
+}
+
+type ExportScope = 'visible' | 'all' | 'saved';
+
+export const DataTransferPanel: React.FC<DataTransferPanelProps> = ({
+  visibleSpots, allSpots, savedSpots, locationName, onImport, onClose
+}) => {
+  const [scope, setScope] = useState<ExportScope>('visible');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const scopes: { key: ExportScope; label: string; spots: FoodSpot[] }[] = [
+    { key: 'visible', label: 'Filtered', spots: visibleSpots },
+    { key: 'all', label: 'All results', spots: allSpots },
+    { key: 'saved', label: 'Saved', spots: savedSpots }
+  ];
+  const selected = scopes.find(s => s.key === scope)!;
+
+  const handleExport = (format: ExportFormat) => {
+    const name = scope === 'saved' ? 'foodifind-saved' : `foodifind-${locationName}`;
+    downloadSpots(selected.spots, format, name);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImportError(null);
+      onImport(await readImportFile(file));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const chipClass = (active: boolean) =>
+    `text-[10px] px-2 py-1 rounded font-bold border transition-colors ${active ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-dark/30'}`;
+
+  return (
+    <div className="border-b border-slate-100 bg-white px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-slate-800">Import / Export</h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-brand-dark rounded" title="Close">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Export</div>
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {scopes.map(s => (
+            <button key={s.key} onClick={() => setScope(s.key)} className={chipClass(scope === s.key)}>
+              {s.label} ({s.spots.length})
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.key}
+              onClick={() => handleExport(format.key)}
+              disabled={selected.spots.length === 0}
+              className="flex items-center text-[10px] px-2 py-1 rounded font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              {format.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Import</div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.geojson,application/json,application/geo+json"
+          onChange={handleFile}
+          className="hidden"
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center text-[10px] px-2 py-1 rounded font-bold bg-brand-dark text-white hover:bg-brand-accent transition-colors"
+        >
+          <Upload className="w-3 h-3 mr-1" />
+          JSON / GeoJSON file
+        </button>
+        {importError && <p className="text-[10px] text-red-600 mt-1">{importError}</p>}
+      </div>
+    </div>
+  );
+};
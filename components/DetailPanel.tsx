@@ -1,20 +1,47 @@
-import React from 'react';
-import { FoodSpot } from '../types';
-import { X, TrendingUp, DollarSign, Users, Heart, Play } from 'lucide-react';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import React, { useMemo, useState } from 'react';
+import { FoodSpot, SavedSpot, SpotList } from '../types';
+import { getHistory, HISTORY_RANGES, HistoryRange } from '../services/historyService';
+import { getDietaryTags, getDishAttributes, hasDietaryData } from '../services/dietaryService';
+import { formatWeeklyHours, getOpenStatus, getZonedTime, OpenCheck } from '../services/hoursService';
+import { DietaryBadges } from './DietaryBadges';
+import { OpenStatusBadge } from './OpenStatusBadge';
+import { X, TrendingUp, DollarSign, Users, Heart, Play, BarChart3, Bookmark, CheckCircle2, Circle, Scale, Leaf, Clock } from 'lucide-react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 interface DetailPanelProps {
   spot: FoodSpot;
   onClose: () => void;
+  saved?: SavedSpot;
+  lists?: SpotList[];
+  onToggleSave?: (spot: FoodSpot) => void;
+  onToggleList?: (spot: FoodSpot, listId: string) => void;
+  onNoteChange?: (spotId: string, note: string) => void;
+  onToggleVisited?: (spotId: string, visited: boolean) => void;
+  isCompared?: boolean;
+  compareDisabled?: boolean;
+  onToggleCompare?: (spot: FoodSpot) => void;
+  openCheck?: OpenCheck;
 }
 
-export const DetailPanel: React.FC<DetailPanelProps> = ({ spot, onClose }) => {
-  // Generate mock historical data for the chart based on current trends
-  const data = Array.from({ length: 7 }, (_, i) => ({
-    day: `Day ${i + 1}`,
-    score: Math.max(50, Math.min(100, spot.trendingScore + (Math.random() * 20 - 10) + (spot.popularityVelocity * i * 0.2))),
-    mentions: Math.max(0, Math.floor(spot.influencerData.sourceCount / 7 * (i + 1) + Math.random() * 5))
-  }));
+export const DetailPanel: React.FC<DetailPanelProps> = ({
+  spot, onClose, saved, lists = [], onToggleSave, onToggleList, onNoteChange, onToggleVisited,
+  isCompared, compareDisabled, onToggleCompare, openCheck = { kind: 'instant', date: new Date() }
+}) => {
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('7d');
+
+  const dietaryTags = getDietaryTags(spot);
+  const hours = spot.openingHours;
+  const openStatus = getOpenStatus(hours, openCheck);
+  // Day to highlight in the weekly table, in the spot's own timezone
+  const checkDay = hours ? (openCheck.kind === 'instant' ? getZonedTime(openCheck.date, hours.timezone).day : openCheck.day) : null;
+
+  // Stored snapshots only; re-read whenever the spot is updated by a discovery or refresh
+  const data = useMemo(() => getHistory(spot, historyRange).map(snapshot => ({
+    time: new Date(snapshot.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+    trending: snapshot.trendingScore,
+    sentiment: snapshot.sentimentScore,
+    mentions: snapshot.mentions
+  })), [spot, historyRange]);
 
   return (
     <div className="w-full h-full bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden flex flex-col animate-[slideInRight_0.3s_ease-out]">
@@ -27,12 +54,33 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ spot, onClose }) => {
         />
         <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent"></div>
         
-        <button 
-          onClick={onClose}
-          className="absolute top-3 right-3 p-1.5 bg-white/90 hover:bg-white rounded-full text-slate-800 transition-colors shadow-sm"
-        >
-          <X className="w-4 h-4" />
-        </button>
+        <div className="absolute top-3 right-3 flex space-x-2">
+          {onToggleSave && (
+            <button
+              onClick={() => onToggleSave(spot)}
+              className={`p-1.5 bg-white/90 hover:bg-white rounded-full transition-colors shadow-sm ${saved ? 'text-amber-500' : 'text-slate-800'}`}
+              title={saved ? 'Remove from saved' : 'Save spot'}
+            >
+              <Bookmark className={`w-4 h-4 ${saved ? 'fill-current' : ''}`} />
+            </button>
+          )}
+          {onToggleCompare && (
+            <button
+              onClick={() => onToggleCompare(spot)}
+              disabled={compareDisabled}
+              className={`p-1.5 bg-white/90 hover:bg-white rounded-full transition-colors shadow-sm disabled:opacity-50 ${isCompared ? 'text-indigo-500' : 'text-slate-800'}`}
+              title={isCompared ? 'Remove from comparison' : compareDisabled ? 'Comparison is full' : 'Add to comparison'}
+            >
+              <Scale className="w-4 h-4" />
+            </button>
+          )}
+          <button 
+            onClick={onClose}
+            className="p-1.5 bg-white/90 hover:bg-white rounded-full text-slate-800 transition-colors shadow-sm"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
 
         <div className="absolute bottom-3 left-4 right-4 text-white">
           <h2 className="text-xl font-bold mb-0.5">{spot.name}</h2>
@@ -62,6 +110,78 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ spot, onClose }) => {
           </div>
         </div>
 
+        {/* Saved: lists, visited status and personal notes */}
+        {saved && (
+          <div className="bg-amber-50 border border-amber-100 rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-bold text-slate-800">My Notes</h3>
+              {onToggleVisited && (
+                <button
+                  onClick={() => onToggleVisited(spot.id, !saved.visited)}
+                  className={`flex items-center text-[10px] font-bold ${saved.visited ? 'text-brand-dark' : 'text-slate-500 hover:text-brand-dark'}`}
+                >
+                  {saved.visited ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <Circle className="w-3 h-3 mr-1" />}
+                  {saved.visited ? 'Visited' : 'Not visited'}
+                </button>
+              )}
+            </div>
+            {onNoteChange && (
+              <textarea
+                value={saved.note}
+                onChange={(e) => onNoteChange(spot.id, e.target.value)}
+                placeholder="Add a personal note..."
+                rows={2}
+                className="w-full text-xs bg-white border border-amber-200 rounded p-2 focus:outline-none focus:ring-2 focus:ring-brand-dark resize-none"
+              />
+            )}
+            {lists.length > 0 && onToggleList && (
+              <div className="flex flex-wrap gap-1.5">
+                {lists.map(list => {
+                  const inList = saved.listIds.includes(list.id);
+                  return (
+                    <button
+                      key={list.id}
+                      onClick={() => onToggleList(spot, list.id)}
+                      className={`text-[10px] px-2 py-0.5 rounded-full border font-bold transition-colors ${inList ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-slate-500 border-slate-200 hover:border-brand-dark/30'}`}
+                    >
+                      {inList ? '✓ ' : '+ '}{list.name}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Ranking Breakdown */}
+        {spot.ranking && (
+          <div>
+            <h3 className="text-xs font-bold text-slate-800 mb-2 flex items-center justify-between">
+              <span className="flex items-center">
+                <BarChart3 className="w-3 h-3 mr-1.5 text-brand-primary" />
+                Rank #{spot.ranking.rank} · Score {spot.ranking.score}
+              </span>
+            </h3>
+            <div className="space-y-1.5">
+              {spot.ranking.components.map(c => (
+                <div key={c.key} className="text-[10px]">
+                  <div className="flex justify-between text-slate-500 mb-0.5">
+                    <span>
+                      {c.label} <span className="text-slate-400">({c.key === 'distance' ? `${c.raw} km` : c.raw})</span>
+                    </span>
+                    <span className="font-bold text-slate-700">
+                      {Math.round(c.normalized * 100)} × {Math.round(c.weight * 100)}% = +{c.contribution.toFixed(1)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-primary" style={{ width: `${c.normalized * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Viral on Social */}
         {spot.viralPosts && spot.viralPosts.length > 0 && (
           <div>
@@ -118,42 +238,113 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({ spot, onClose }) => {
 
         {/* Charts */}
         <div>
-          <h3 className="text-xs font-bold text-slate-800 mb-2 flex items-center">
-            <TrendingUp className="w-3 h-3 mr-1.5 text-brand-primary" />
-            Interest Over Time
-          </h3>
-          <div className="h-32 w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <AreaChart data={data}>
-                <defs>
-                  <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
-                    <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                  </linearGradient>
-                </defs>
-                <XAxis dataKey="day" hide />
-                <YAxis hide domain={[0, 120]} />
-                <Tooltip 
-                  contentStyle={{ backgroundColor: '#fff', borderColor: '#e2e8f0', color: '#1e2937', fontSize: '12px', borderRadius: '4px', padding: '4px 8px' }}
-                />
-                <Area type="monotone" dataKey="score" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorScore)" />
-              </AreaChart>
-            </ResponsiveContainer>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-xs font-bold text-slate-800 flex items-center">
+              <TrendingUp className="w-3 h-3 mr-1.5 text-brand-primary" />
+              Interest Over Time
+            </h3>
+            <div className="flex bg-slate-100 rounded p-0.5">
+              {HISTORY_RANGES.map(range => (
+                <button
+                  key={range.key}
+                  onClick={() => setHistoryRange(range.key)}
+                  className={`px-2 py-0.5 text-[10px] font-bold rounded transition-colors ${historyRange === range.key ? 'bg-white text-brand-dark shadow-sm' : 'text-slate-500 hover:text-brand-dark'}`}
+                >
+                  {range.label}
+                </button>
+              ))}
+            </div>
           </div>
+          {data.length < 2 ? (
+            <div className="h-32 w-full flex items-center justify-center text-center text-xs text-slate-400 bg-slate-50 rounded border border-dashed border-slate-200 px-4">
+              {data.length === 0
+                ? 'No history recorded for this period yet.'
+                : `Only one snapshot so far (${data[0].time}). Trends appear after the next refresh.`}
+            </div>
+          ) : (
+            <div className="h-40 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={data}>
+                  <defs>
+                    <linearGradient id="colorScore" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
+                      <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <XAxis dataKey="time" hide />
+                  <YAxis yAxisId="score" hide domain={[0, 100]} />
+                  <YAxis yAxisId="mentions" hide orientation="right" />
+                  <Tooltip 
+                    contentStyle={{ backgroundColor: '#fff', borderColor: '#e2e8f0', color: '#1e2937', fontSize: '12px', borderRadius: '4px', padding: '4px 8px' }}
+                  />
+                  <Legend iconSize={8} wrapperStyle={{ fontSize: '10px' }} />
+                  <Area yAxisId="score" type="monotone" dataKey="trending" name="Trending" stroke="#10b981" strokeWidth={2} fillOpacity={1} fill="url(#colorScore)" />
+                  <Line yAxisId="score" type="monotone" dataKey="sentiment" name="Sentiment" stroke="#064e3b" strokeWidth={1.5} dot={false} />
+                  <Line yAxisId="mentions" type="monotone" dataKey="mentions" name="Mentions" stroke="#f97316" strokeWidth={1.5} strokeDasharray="4 2" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
         </div>
 
+        {/* Opening Hours */}
+        {hours && (
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-800 flex items-center">
+                <Clock className="w-3 h-3 mr-1.5 text-brand-primary" />
+                Opening Hours
+              </h3>
+              <OpenStatusBadge status={openStatus} />
+            </div>
+            <ul className="text-xs bg-slate-50 rounded border border-slate-100 divide-y divide-slate-100">
+              {formatWeeklyHours(hours).map(row => (
+                <li key={row.day} className={`flex justify-between px-2.5 py-1 ${row.day === checkDay ? 'font-bold text-slate-800' : 'text-slate-600'}`}>
+                  <span>{row.label}</span>
+                  <span>{row.ranges}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-[10px] text-slate-400 mt-1">Local time ({hours.timezone})</p>
+          </div>
+        )}
+
+        {/* Dietary & Allergens */}
+        {(dietaryTags.length > 0 || (spot.allergens?.length ?? 0) > 0) && (
+          <div>
+            <h3 className="text-xs font-bold text-slate-800 mb-2 flex items-center">
+              <Leaf className="w-3 h-3 mr-1.5 text-brand-primary" />
+              Dietary & Allergens
+            </h3>
+            <DietaryBadges tags={dietaryTags} />
+            {(spot.allergens?.length ?? 0) > 0 && (
+              <div className="flex items-center mt-1.5">
+                <span className="text-[10px] text-slate-500 mr-1.5">Contains:</span>
+                <DietaryBadges tags={[]} allergens={spot.allergens} />
+              </div>
+            )}
+            {!hasDietaryData(spot) && (
+              <p className="text-[10px] text-slate-400 mt-1.5">Inferred from the description. Check with the venue.</p>
+            )}
+          </div>
+        )}
+
         {/* Best Dishes */}
         <div>
            <h3 className="text-xs font-bold text-slate-800 mb-2">Recommended Items</h3>
            <ul className="space-y-1.5">
-             {spot.bestDishes.map((dish, idx) => (
-               <li key={idx} className="flex items-center text-xs text-slate-600 bg-slate-50 p-2 rounded border border-slate-100">
-                 <span className="w-5 h-5 rounded-full bg-brand-primary text-white flex items-center justify-center text-[10px] font-bold mr-2">
-                   {idx + 1}
-                 </span>
-                 {dish}
-               </li>
-             ))}
+             {spot.bestDishes.map((dish, idx) => {
+               const attributes = getDishAttributes(spot, dish);
+               return (
+                 <li key={idx} className="flex items-center text-xs text-slate-600 bg-slate-50 p-2 rounded border border-slate-100">
+                   <span className="w-5 h-5 rounded-full bg-brand-primary text-white flex items-center justify-center text-[10px] font-bold mr-2 shrink-0">
+                     {idx + 1}
+                   </span>
+                   <span className="flex-1">{dish}</span>
+                   {attributes && <DietaryBadges tags={attributes.dietary} allergens={attributes.allergens} compact />}
+                 </li>
+               );
+             })}
            </ul>
         </div>
       </div>
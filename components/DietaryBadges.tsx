@@ -0,0 +1,29 @@
+import React from 'react';
+import { Allergen, DietaryTag } from '../types';
+import { DIETARY_TAGS, getAllergenLabel } from '../services/dietaryService';
+
+interface DietaryBadgesProps {
+  tags: DietaryTag[];
+  allergens?: Allergen[];
+  compact?: boolean; // Short codes ("VG", "GF") with the full label as a tooltip
+}
+
+export const DietaryBadges: React.FC<DietaryBadgesProps> = ({ tags, allergens = [], compact = false }) => {
+  if (tags.length === 0 && allergens.length === 0) return null;
+  const size = compact ? 'text-[9px] px-1 py-0.5' : 'text-[10px] px-1.5 py-0.5';
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {DIETARY_TAGS.filter(tag => tags.includes(tag.key)).map(tag => (
+        <span key={tag.key} title={tag.label} className={`${size} rounded font-bold bg-green-50 text-green-700 border border-green-100`}>
+          {compact ? tag.short : tag.label}
+        </span>
+      ))}
+      {allergens.map(allergen => (
+        <span key={allergen} title={`Contains ${getAllergenLabel(allergen).toLowerCase()}`} className={`${size} rounded font-medium bg-amber-50 text-amber-700 border border-amber-100`}>
+          {getAllergenLabel(allergen)}
+        </span>
+      ))}
+    </div>
+  );
+};
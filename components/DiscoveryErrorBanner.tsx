@@ -0,0 +1,47 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import { DiscoveryFailure, DiscoveryFailureKind } from '../types';
+
+interface DiscoveryErrorBannerProps {
+  failure: DiscoveryFailure;
+  query: string;
+  shownLocation: string | null; // Where the results still on screen are from, if any
+  onRetry: () => void;
+  onDismiss: () => void;
+}
+
+const TITLES: Record<DiscoveryFailureKind, string> = {
+  timeout: 'Search timed out',
+  'rate-limited': 'Provider is busy',
+  quota: 'Daily quota reached',
+  network: 'Provider unreachable',
+  provider: 'Search failed'
+};
+
+export const DiscoveryErrorBanner: React.FC<DiscoveryErrorBannerProps> = ({ failure, query, shownLocation, onRetry, onDismiss }) => (
+  <div role="alert" className="flex items-start bg-white border border-red-200 rounded-xl shadow-lg p-3 w-[22rem] max-w-full animate-in fade-in slide-in-from-bottom-2 duration-300">
+    <AlertTriangle className="w-4 h-4 text-red-500 mt-0.5 mr-2 shrink-0" />
+    <div className="flex-1 min-w-0">
+      <p className="text-sm font-bold text-slate-800">{TITLES[failure.kind]}</p>
+      <p className="text-xs text-slate-600 mt-0.5">
+        Couldn't search "{query}". {failure.message}
+      </p>
+      {shownLocation && (
+        <p className="text-[10px] text-slate-400 mt-1">Still showing results for {shownLocation}.</p>
+      )}
+      {/* A spent quota won't recover until tomorrow, so retrying now can't help */}
+      {failure.kind !== 'quota' && (
+        <button
+          onClick={onRetry}
+          className="mt-2 flex items-center px-3 py-1 rounded-full text-xs font-bold text-white bg-brand-dark hover:bg-brand-accent transition-colors"
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Retry
+        </button>
+      )}
+    </div>
+    <button onClick={onDismiss} className="p-0.5 text-slate-400 hover:text-brand-dark shrink-0" title="Dismiss">
+      <X className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
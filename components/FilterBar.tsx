@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, X } from 'lucide-react';
+import { FilterState, PriceRange, SortKey } from '../types';
+import { PRICE_RANGES, SORT_OPTIONS, DEFAULT_FILTERS, countActiveFilters } from '../services/filterService';
+import { ALLERGENS, DIETARY_TAGS } from '../services/dietaryService';
+
+interface FilterBarProps {
+  filters: FilterState;
+  cuisineOptions: string[];
+  onChange: (filters: FilterState) => void;
+}
+
+const DISTANCE_OPTIONS: (number | null)[] = [null, 1, 2, 3, 5];
+
+// Next full hour in the browser's local time, formatted for a datetime-local input
+const nextHourInputValue = () => {
+  const date = new Date(Date.now() + 60 * 60 * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:00`;
+};
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export const FilterBar: React.FC<FilterBarProps> = ({ filters, cuisineOptions, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const update = (patch: Partial<FilterState>) => onChange({ ...filters, ...patch });
+
+  const chipClass = (active: boolean) =>
+    `text-[10px] px-2 py-1 rounded font-bold border transition-colors ${active ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-dark/30'}`;
+
+  const renderSlider = (label: string, key: 'minSentiment' | 'minTrending' | 'minConfidence') => (
+    <label className="block">
+      <div className="flex justify-between text-[10px] text-slate-500 uppercase font-semibold mb-1">
+        <span>{label}</span>
+        <span className="text-brand-dark">≥ {filters[key]}</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        step={5}
+        value={filters[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) })}
+        className="w-full accent-emerald-700"
+      />
+    </label>
+  );
+
+  return (
+    <div className="border-b border-slate-100 bg-white">
+      <div className="px-4 py-2 flex items-center justify-between">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center text-xs font-bold text-slate-600 hover:text-brand-dark transition-colors"
+        >
+          <SlidersHorizontal className="w-3 h-3 mr-1.5" />
+          Filters
+          {activeCount > 0 && (
+            <span className="ml-1.5 bg-brand-dark text-white rounded-full px-1.5 text-[10px]">{activeCount}</span>
+          )}
+          <ChevronDown className={`w-3 h-3 ml-1 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+        </button>
+
+        <div className="flex items-center space-x-2">
+          {activeCount > 0 && (
+            <button
+              onClick={() => onChange({ ...DEFAULT_FILTERS, sortBy: filters.sortBy })}
+              className="flex items-center text-[10px] text-slate-400 hover:text-brand-dark"
+              title="Clear filters"
+            >
+              <X className="w-3 h-3 mr-0.5" />
+              Clear
+            </button>
+          )}
+          <select
+            value={filters.sortBy}
+            onChange={(e) => update({ sortBy: e.target.value as SortKey })}
+            className="text-xs bg-slate-100 rounded px-2 py-1 text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+          >
+            {SORT_OPTIONS.map(opt => (
+              <option key={opt.key} value={opt.key}>Sort: {opt.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {cuisineOptions.length > 0 && (
+            <div>
+              <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Cuisine</div>
+              <div className="flex flex-wrap gap-1.5">
+                {cuisineOptions.map(cuisine => (
+                  <button
+                    key={cuisine}
+                    onClick={() => update({ cuisines: toggle(filters.cuisines, cuisine) })}
+                    className={chipClass(filters.cuisines.includes(cuisine))}
+                  >
+                    {cuisine}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Price</div>
+            <div className="flex flex-wrap gap-1.5">
+              {PRICE_RANGES.map((price: PriceRange) => (
+                <button
+                  key={price}
+                  onClick={() => update({ priceRanges: toggle(filters.priceRanges, price) })}
+                  className={chipClass(filters.priceRanges.includes(price))}
+                >
+                  {price}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Dietary</div>
+            <div className="flex flex-wrap gap-1.5">
+              {DIETARY_TAGS.map(tag => (
+                <button
+                  key={tag.key}
+                  onClick={() => update({ dietary: toggle(filters.dietary, tag.key) })}
+                  className={chipClass(filters.dietary.includes(tag.key))}
+                >
+                  {tag.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Avoid allergens</div>
+            <div className="flex flex-wrap gap-1.5">
+              {ALLERGENS.map(allergen => (
+                <button
+                  key={allergen.key}
+                  onClick={() => update({ avoidAllergens: toggle(filters.avoidAllergens, allergen.key) })}
+                  className={chipClass(filters.avoidAllergens.includes(allergen.key))}
+                >
+                  {allergen.label}
+                </button>
+              ))}
+            </div>
+            {filters.avoidAllergens.length > 0 && (
+              <p className="text-[10px] text-slate-400 mt-1">Only spots with a signature dish known to be free of these.</p>
+            )}
+          </div>
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Open</div>
+            <div className="flex flex-wrap items-center gap-1.5">
+              <button onClick={() => update({ openAt: null })} className={chipClass(filters.openAt === null)}>Any time</button>
+              <button onClick={() => update({ openAt: 'now' })} className={chipClass(filters.openAt === 'now')}>Open now</button>
+              <button
+                onClick={() => update({ openAt: filters.openAt && filters.openAt !== 'now' ? filters.openAt : nextHourInputValue() })}
+                className={chipClass(filters.openAt !== null && filters.openAt !== 'now')}
+              >
+                At a time…
+              </button>
+              {filters.openAt !== null && filters.openAt !== 'now' && (
+                <input
+                  type="datetime-local"
+                  value={filters.openAt}
+                  onChange={(e) => e.target.value && update({ openAt: e.target.value.slice(0, 16) })}
+                  className="text-[10px] bg-white border border-slate-200 rounded px-1.5 py-0.5 text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+                />
+              )}
+            </div>
+            {filters.openAt !== null && filters.openAt !== 'now' && (
+              <p className="text-[10px] text-slate-400 mt-1">Checked against each spot's local time. Spots without hours stay visible.</p>
+            )}
+          </div>
+
+          {renderSlider('Sentiment', 'minSentiment')}
+          {renderSlider('Trending', 'minTrending')}
+          {renderSlider('AI Confidence', 'minConfidence')}
+
+          <div>
+            <div className="text-[10px] text-slate-500 uppercase font-semibold mb-1">Max Distance</div>
+            <div className="flex flex-wrap gap-1.5">
+              {DISTANCE_OPTIONS.map(km => (
+                <button
+                  key={km ?? 'any'}
+                  onClick={() => update({ maxDistanceKm: km })}
+                  className={chipClass(filters.maxDistanceKm === km)}
+                >
+                  {km === null ? 'Any' : `${km} km`}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { FoodSpot } from '../types';
+import { getCuisineLegend, HEAT_GRADIENTS, OverlayLayer, OVERLAY_LAYERS } from '../services/overlayService';
+
+interface MapLegendProps {
+  overlays: OverlayLayer[];
+  spots: FoodSpot[];
+}
+
+export const MapLegend: React.FC<MapLegendProps> = ({ overlays, spots }) => {
+  if (overlays.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-8 left-4 z-[400] bg-white/95 rounded-lg shadow-soft border border-slate-200 p-3 w-52 space-y-3">
+      {overlays.map(layer => {
+        const label = OVERLAY_LAYERS.find(o => o.key === layer)?.label;
+
+        if (layer === 'cuisine') {
+          const entries = getCuisineLegend(spots);
+          return (
+            <div key={layer}>
+              <div className="text-[10px] font-bold text-slate-500 uppercase mb-1.5">{label}</div>
+              {entries.length === 0 ? (
+                <p className="text-[11px] text-slate-400">No spots in view</p>
+              ) : (
+                <ul className="space-y-1">
+                  {entries.map(entry => (
+                    <li key={entry.cuisine} className="flex items-center gap-2 text-[11px] text-slate-600">
+                      <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: entry.color }} />
+                      <span className="truncate flex-1">{entry.cuisine}</span>
+                      <span className="text-slate-400">{entry.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        }
+
+        const stops = Object.entries(HEAT_GRADIENTS[layer])
+          .map(([offset, color]) => `${color} ${Number(offset) * 100}%`)
+          .join(', ');
+        return (
+          <div key={layer}>
+            <div className="text-[10px] font-bold text-slate-500 uppercase mb-1.5">{label}</div>
+            <div className="h-2 rounded-full" style={{ background: `linear-gradient(to right, transparent 0%, ${stops})` }} />
+            <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+              <span>Low</span>
+              <span>High</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,22 +1,99 @@
-import React, { useEffect, useRef } from 'react';
-import { FoodSpot, Coordinates } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { FoodSpot, Coordinates, MapBounds, UserPosition, CrawlPlan } from '../types';
+import { clusterSpots, SpotCluster } from '../services/clusterService';
+import { cuisineColor, HEAT_GRADIENTS, OverlayLayer, toHeatPoints } from '../services/overlayService';
+import { getOpenStatus, OpenCheck, OpenState } from '../services/hoursService';
+import { MapLegend } from './MapLegend';
 
 // Declare Leaflet global type
 declare const L: any;
 
+// Pin colour and size scale with how hot a spot is trending
+const trendingColor = (score: number): string =>
+  score >= 85 ? '#ef4444' : score >= 70 ? '#f97316' : score >= 50 ? '#10b981' : '#64748b';
+
+const trendingSize = (score: number): number => Math.round(24 + (Math.max(0, Math.min(100, score)) / 100) * 12);
+
+// The pin's inner dot shows open / closing soon; closed spots are dimmed
+const buildSpotIcon = (spot: FoodSpot, isSaved: boolean, isSelected: boolean, openState: OpenState) => {
+  const size = trendingSize(spot.trendingScore);
+  return L.divIcon({
+    className: 'custom-div-icon',
+    html: `<div class="marker-pin ${isSaved ? 'saved' : ''} ${isSelected ? 'selected' : ''} ${openState}" style="--pin-color: ${trendingColor(spot.trendingScore)}; --pin-size: ${size}px"></div>`,
+    iconSize: [size, Math.round(size * 1.4)],
+    iconAnchor: [size / 2, Math.round(size * 1.4)]
+  });
+};
+
+const hottestScore = (cluster: SpotCluster) => Math.max(...cluster.spots.map(s => s.trendingScore));
+
+// What the cluster icon shows; membership can change while the cluster id stays the same
+const clusterStyleKey = (cluster: SpotCluster) => `${cluster.spots.length}|${hottestScore(cluster)}`;
+
+const buildClusterIcon = (cluster: SpotCluster) => {
+  const hottest = hottestScore(cluster);
+  const size = Math.min(56, 32 + cluster.spots.length * 2);
+  return L.divIcon({
+    className: 'custom-div-icon',
+    html: `<div class="marker-cluster" style="--pin-color: ${trendingColor(hottest)}; --cluster-size: ${size}px">${cluster.spots.length}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+};
+
+const NO_OVERLAYS: OverlayLayer[] = [];
+
+interface MarkerEntry {
+  marker: any;
+  spot: FoodSpot;
+  styleKey: string;
+}
+
+interface ClusterEntry {
+  marker: any;
+  cluster: SpotCluster;
+  styleKey: string;
+}
+
 interface MapProps {
   spots: FoodSpot[];
   center: Coordinates;
   selectedSpotId: string | null;
   onSelectSpot: (spot: FoodSpot) => void;
   mapType: 'map' | 'satellite';
+  savedSpots?: FoodSpot[]; // Always rendered, even when not part of the current result
+  zoom?: number; // Used when flying to a new center
+  onViewChange?: (center: Coordinates, zoom: number) => void;
+  userPosition?: UserPosition | null;
+  onSearchArea?: (bounds: MapBounds) => void; // Offered after the user pans or zooms
+  overlays?: OverlayLayer[];
+  onToggleCompare?: (spot: FoodSpot) => void; // Shift-click on a marker
+  route?: CrawlPlan | null;
+  openCheck?: OpenCheck; // When marker open/closed status is evaluated; defaults to now
 }
 
-export const MapVisualization: React.FC<MapProps> = ({ spots, center, selectedSpotId, onSelectSpot, mapType }) => {
+export const MapVisualization: React.FC<MapProps> = ({ spots, center, selectedSpotId, onSelectSpot, mapType, savedSpots = [], zoom = 13, onViewChange, userPosition = null, onSearchArea, overlays = NO_OVERLAYS, onToggleCompare, route = null, openCheck }) => {
   const mapRef = useRef<any>(null);
+  // Latest callback without re-binding the Leaflet listener
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
   const containerRef = useRef<HTMLDivElement>(null);
-  const markersRef = useRef<{ [key: string]: any }>({});
+  const markersRef = useRef<{ [key: string]: MarkerEntry }>({});
+  const clusterMarkersRef = useRef<{ [key: string]: ClusterEntry }>({});
+  const selectedIdRef = useRef<string | null>(selectedSpotId);
+  const onSelectSpotRef = useRef(onSelectSpot);
+  onSelectSpotRef.current = onSelectSpot;
+  const onToggleCompareRef = useRef(onToggleCompare);
+  onToggleCompareRef.current = onToggleCompare;
+  // Set while the map moves on its own (flyTo) so only user pans offer "Search this area"
+  const programmaticMoveRef = useRef(false);
+  const [currentZoom, setCurrentZoom] = useState(zoom);
+  const [areaChanged, setAreaChanged] = useState(false);
   const tileLayerRef = useRef<any>(null);
+  const userLayerRef = useRef<any>(null);
+  const overlayLayerRef = useRef<any>(null);
+  const routeLayerRef = useRef<any>(null);
 
   // Initialize Map
   useEffect(() => {
@@ -28,7 +105,17 @@ export const MapVisualization: React.FC<MapProps> = ({ spots, center, selectedSp
         touchZoom: true,
         scrollWheelZoom: true,
         dragging: true
-      }).setView([center.lat, center.lng], 13);
+      }).setView([center.lat, center.lng], zoom);
+
+      mapRef.current.on('moveend', () => {
+        if (programmaticMoveRef.current) {
+          programmaticMoveRef.current = false;
+        } else {
+          setAreaChanged(true);
+        }
+        const c = mapRef.current.getCenter();
+        onViewChangeRef.current?.({ lat: c.lat, lng: c.lng }, mapRef.current.getZoom());
+      });
 
       // Add Zoom Control to bottom right
       L.control.zoom({
@@ -67,40 +154,186 @@ export const MapVisualization: React.FC<MapProps> = ({ spots, center, selectedSp
 
   }, [mapType]);
 
-  // Update View on Center Change
+  // Move to the requested view; a view the map reported itself is already in place
   useEffect(() => {
     if (mapRef.current) {
-      mapRef.current.flyTo([center.lat, center.lng], 13, {
+      const current = mapRef.current.getCenter();
+      if (mapRef.current.getZoom() === zoom && Math.abs(current.lat - center.lat) < 1e-6 && Math.abs(current.lng - center.lng) < 1e-6) return;
+      programmaticMoveRef.current = true;
+      setAreaChanged(false);
+      mapRef.current.flyTo([center.lat, center.lng], zoom, {
         duration: 1.5,
         easeLinearity: 0.25
       });
     }
-  }, [center]);
+  }, [center, zoom]);
 
-  // Update Markers
+  // User position marker with accuracy circle
   useEffect(() => {
     if (!mapRef.current) return;
 
-    // Remove old markers
-    Object.values(markersRef.current).forEach((marker: any) => marker.remove());
-    markersRef.current = {};
+    if (userLayerRef.current) {
+      userLayerRef.current.remove();
+      userLayerRef.current = null;
+    }
+    if (!userPosition) return;
 
-    spots.forEach(spot => {
-      const isSelected = selectedSpotId === spot.id;
-      
-      const customIcon = L.divIcon({
-        className: 'custom-div-icon',
-        html: `<div class="marker-pin ${isSelected ? 'selected' : ''}"></div>`,
-        iconSize: [30, 42],
-        iconAnchor: [15, 42]
-      });
+    const { lat, lng } = userPosition.coordinates;
+    userLayerRef.current = L.layerGroup([
+      L.circle([lat, lng], {
+        radius: userPosition.accuracyMeters,
+        color: '#3b82f6',
+        weight: 1,
+        fillColor: '#3b82f6',
+        fillOpacity: 0.1,
+        interactive: false
+      }),
+      L.circleMarker([lat, lng], {
+        radius: 7,
+        color: '#ffffff',
+        weight: 2,
+        fillColor: '#3b82f6',
+        fillOpacity: 1
+      }).bindTooltip(`You are here (±${Math.round(userPosition.accuracyMeters)} m)`, { direction: 'top' })
+    ]).addTo(mapRef.current);
+  }, [userPosition]);
+
+  // Food crawl route: walking order polyline with numbered stops
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    if (routeLayerRef.current) {
+      routeLayerRef.current.remove();
+      routeLayerRef.current = null;
+    }
+    if (!route || route.stops.length === 0) return;
+
+    const path = [route.start, ...route.stops.map(s => s.coordinates)].map(c => [c.lat, c.lng]);
+    routeLayerRef.current = L.layerGroup([
+      L.polyline(path, { color: '#6366f1', weight: 4, opacity: 0.8, dashArray: '8 6', interactive: false }),
+      L.circleMarker(path[0], { radius: 6, color: '#ffffff', weight: 2, fillColor: '#6366f1', fillOpacity: 1 })
+        .bindTooltip(`Start: ${route.startLabel}`, { direction: 'top' }),
+      ...route.stops.map((stop, i) => L.marker([stop.coordinates.lat, stop.coordinates.lng], {
+        icon: L.divIcon({ className: 'custom-div-icon', html: `<div class="crawl-stop">${i + 1}</div>`, iconSize: [20, 20], iconAnchor: [10, 10] }),
+        zIndexOffset: 2000,
+        interactive: false
+      }))
+    ]).addTo(mapRef.current);
+  }, [route]);
+
+  // Analytic overlays, drawn beneath the markers
+  useEffect(() => {
+    if (!mapRef.current) return;
+
+    if (overlayLayerRef.current) {
+      overlayLayerRef.current.remove();
+      overlayLayerRef.current = null;
+    }
+    if (overlays.length === 0 || spots.length === 0) return;
+
+    const layers = overlays.flatMap(layer => {
+      if (layer === 'cuisine') {
+        return spots.map(spot => L.circle([spot.coordinates.lat, spot.coordinates.lng], {
+          radius: 350,
+          stroke: false,
+          fillColor: cuisineColor(spot.cuisine),
+          fillOpacity: 0.25,
+          interactive: false
+        }));
+      }
+
+      const points = toHeatPoints(spots, layer);
+      if (typeof L.heatLayer === 'function') {
+        return [L.heatLayer(points, { radius: 35, blur: 25, maxZoom: 16, max: 1, gradient: HEAT_GRADIENTS[layer] })];
+      }
+      // leaflet.heat failed to load: approximate with weighted circles
+      const colors = Object.values(HEAT_GRADIENTS[layer]);
+      return points.map(([lat, lng, weight]) => L.circle([lat, lng], {
+        radius: 250 + weight * 350,
+        stroke: false,
+        fillColor: colors[Math.min(colors.length - 1, Math.floor(weight * colors.length))],
+        fillOpacity: 0.15 + weight * 0.25,
+        interactive: false
+      }));
+    });
+
+    overlayLayerRef.current = L.layerGroup(layers).addTo(mapRef.current);
+  }, [overlays, spots]);
+
+  // Keep the cluster layout in sync with the zoom level
+  useEffect(() => {
+    if (!mapRef.current) return;
+    const handleZoom = () => setCurrentZoom(mapRef.current.getZoom());
+    mapRef.current.on('zoomend', handleZoom);
+    return () => mapRef.current?.off('zoomend', handleZoom);
+  }, []);
+
+  const savedIds = useMemo(() => new Set(savedSpots.map(s => s.id)), [savedSpots]);
+  const clusters = useMemo(() => {
+    const spotIds = new Set(spots.map(s => s.id));
+    const allSpots = [...spots, ...savedSpots.filter(s => !spotIds.has(s.id))];
+    return clusterSpots(allSpots, currentZoom);
+  }, [spots, savedSpots, currentZoom]);
+
+  // Update Markers incrementally: only markers whose spot, style or cluster
+  // membership changed are touched, so panning and zooming stay smooth
+  useEffect(() => {
+    if (!mapRef.current) return;
+    const map = mapRef.current;
+
+    const nextSingles = new Map<string, FoodSpot>();
+    const nextClusters = new Map<string, SpotCluster>();
+    clusters.forEach(cluster => {
+      if (cluster.spots.length === 1) nextSingles.set(cluster.spots[0].id, cluster.spots[0]);
+      else nextClusters.set(cluster.id, cluster);
+    });
+
+    Object.keys(markersRef.current).forEach(id => {
+      if (!nextSingles.has(id)) {
+        markersRef.current[id].marker.remove();
+        delete markersRef.current[id];
+      }
+    });
+    Object.keys(clusterMarkersRef.current).forEach(id => {
+      if (!nextClusters.has(id)) {
+        clusterMarkersRef.current[id].marker.remove();
+        delete clusterMarkersRef.current[id];
+      }
+    });
+
+    nextSingles.forEach((spot, id) => {
+      const isSelected = selectedIdRef.current === id;
+      const isSaved = savedIds.has(id);
+      const openState = getOpenStatus(spot.openingHours, openCheck).state;
+      const styleKey = `${spot.trendingScore}|${isSaved}|${isSelected}|${openState}`;
+      const entry = markersRef.current[id];
+
+      if (entry) {
+        entry.spot = spot;
+        if (entry.styleKey !== styleKey) {
+          entry.marker.setIcon(buildSpotIcon(spot, isSaved, isSelected, openState));
+          entry.styleKey = styleKey;
+        }
+        const { lat, lng } = entry.marker.getLatLng();
+        if (lat !== spot.coordinates.lat || lng !== spot.coordinates.lng) {
+          entry.marker.setLatLng([spot.coordinates.lat, spot.coordinates.lng]);
+        }
+        return;
+      }
+
+      const marker = L.marker([spot.coordinates.lat, spot.coordinates.lng], { icon: buildSpotIcon(spot, isSaved, isSelected, openState) })
+        .addTo(map)
+        .on('click', (e: any) => {
+          const current = markersRef.current[id].spot;
+          if (e.originalEvent?.shiftKey && onToggleCompareRef.current) {
+            onToggleCompareRef.current(current);
+          } else {
+            onSelectSpotRef.current(current);
+          }
+        });
 
-      const marker = L.marker([spot.coordinates.lat, spot.coordinates.lng], { icon: customIcon })
-        .addTo(mapRef.current)
-        .on('click', () => onSelectSpot(spot));
-      
       // Add simple tooltip
-      marker.bindTooltip(spot.name, {
+      marker.bindTooltip(() => markersRef.current[id]?.spot.name ?? spot.name, {
         permanent: false,
         direction: 'top',
         offset: [0, -35],
@@ -111,14 +344,81 @@ export const MapVisualization: React.FC<MapProps> = ({ spots, center, selectedSp
         marker.setZIndexOffset(1000);
       }
 
-      markersRef.current[spot.id] = marker;
+      markersRef.current[id] = { marker, spot, styleKey };
     });
 
-  }, [spots, selectedSpotId, onSelectSpot]);
+    nextClusters.forEach((cluster, id) => {
+      const styleKey = clusterStyleKey(cluster);
+      const entry = clusterMarkersRef.current[id];
+
+      if (entry) {
+        entry.cluster = cluster;
+        if (entry.styleKey !== styleKey) {
+          entry.marker.setIcon(buildClusterIcon(cluster));
+          entry.styleKey = styleKey;
+        }
+        const { lat, lng } = entry.marker.getLatLng();
+        if (lat !== cluster.center.lat || lng !== cluster.center.lng) {
+          entry.marker.setLatLng([cluster.center.lat, cluster.center.lng]);
+        }
+        return;
+      }
+
+      const marker = L.marker([cluster.center.lat, cluster.center.lng], { icon: buildClusterIcon(cluster) })
+        .addTo(map)
+        .on('click', () => {
+          const current = clusterMarkersRef.current[id].cluster;
+          map.fitBounds(current.bounds, { padding: [60, 60], maxZoom: map.getZoom() + 3 });
+        });
+      marker.bindTooltip(() => `${clusterMarkersRef.current[id]?.cluster.spots.length ?? cluster.spots.length} spots`, { direction: 'top', offset: [0, -16] });
+      clusterMarkersRef.current[id] = { marker, cluster, styleKey };
+    });
+  }, [clusters, savedIds, openCheck]);
+
+  // Restyle only the previously and newly selected markers
+  useEffect(() => {
+    const previousId = selectedIdRef.current;
+    selectedIdRef.current = selectedSpotId;
+
+    [previousId, selectedSpotId].forEach(id => {
+      const entry = id ? markersRef.current[id] : undefined;
+      if (!entry) return;
+      const isSelected = id === selectedSpotId;
+      const isSaved = savedIds.has(id as string);
+      const openState = getOpenStatus(entry.spot.openingHours, openCheck).state;
+      entry.marker.setIcon(buildSpotIcon(entry.spot, isSaved, isSelected, openState));
+      entry.marker.setZIndexOffset(isSelected ? 1000 : 0);
+      entry.styleKey = `${entry.spot.trendingScore}|${isSaved}|${isSelected}|${openState}`;
+    });
+  }, [selectedSpotId]);
+
+  const handleSearchArea = () => {
+    if (!mapRef.current || !onSearchArea) return;
+    const bounds = mapRef.current.getBounds();
+    // Leaflet keeps counting longitude past ±180 when panning around the globe
+    const wrapLng = (lng: number) => ((lng + 540) % 360) - 180;
+    const wholeWorld = bounds.getEast() - bounds.getWest() >= 360;
+    onSearchArea({
+      north: bounds.getNorth(),
+      south: bounds.getSouth(),
+      east: wholeWorld ? 180 : wrapLng(bounds.getEast()),
+      west: wholeWorld ? -180 : wrapLng(bounds.getWest())
+    });
+    setAreaChanged(false);
+  };
 
   return (
     <div className="w-full h-full relative z-0">
       <div ref={containerRef} className="w-full h-full" style={{ background: '#f1f5f9' }} />
+      <MapLegend overlays={overlays} spots={spots} />
+      {onSearchArea && areaChanged && (
+        <button
+          onClick={handleSearchArea}
+          className="absolute top-20 md:top-4 left-1/2 -translate-x-1/2 z-[400] flex items-center gap-1.5 bg-white text-emerald-700 text-sm font-semibold px-4 py-2 rounded-full shadow-lg border border-slate-200 hover:bg-emerald-50 transition-colors"
+        >
+          <Search size={14} /> Search this area
+        </button>
+      )}
       <div className="absolute bottom-1 right-1 text-[10px] text-slate-400 bg-white/80 px-1 rounded z-[400] pointer-events-none">
          Leaflet | &copy; {mapType === 'map' ? 'CartoDB' : 'Esri'}
       </div>
@@ -0,0 +1,20 @@
+import React from 'react';
+import { OpenStatus } from '../services/hoursService';
+import { Clock } from 'lucide-react';
+
+const STATUS_CLASSES: Record<OpenStatus['state'], string> = {
+  open: 'bg-green-50 text-green-700 border-green-100',
+  'closing-soon': 'bg-amber-50 text-amber-700 border-amber-100',
+  closed: 'bg-slate-100 text-slate-500 border-slate-200',
+  unknown: ''
+};
+
+export const OpenStatusBadge: React.FC<{ status: OpenStatus }> = ({ status }) => {
+  if (status.state === 'unknown') return null;
+  return (
+    <span className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded font-bold border ${STATUS_CLASSES[status.state]}`}>
+      <Clock className="w-3 h-3 mr-0.5" />
+      {status.label}
+    </span>
+  );
+};
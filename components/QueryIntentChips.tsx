@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { DietaryTag, MealTime, PriceRange, QueryIntent } from '../types';
+import { DIETARY_TAGS, getDietaryLabel } from '../services/dietaryService';
+import { PRICE_RANGES } from '../services/filterService';
+import { isEmptyIntent, MEAL_TIMES } from '../services/queryIntentService';
+import { MapPin, Utensils, Wallet, Clock, Leaf, X } from 'lucide-react';
+
+interface QueryIntentChipsProps {
+  intent: QueryIntent | null;
+  onChange: (intent: QueryIntent) => void;
+  className?: string;
+}
+
+type TextField = 'location' | 'cuisine';
+
+const chipClass = 'flex items-center text-[10px] font-bold bg-white border border-slate-200 rounded-full pl-2 pr-1 py-0.5 text-slate-700 shadow-sm';
+const selectClass = 'bg-transparent font-bold focus:outline-none cursor-pointer';
+
+export const QueryIntentChips: React.FC<QueryIntentChipsProps> = ({ intent, onChange, className = '' }) => {
+  const [editing, setEditing] = useState<TextField | null>(null);
+  const [draft, setDraft] = useState('');
+
+  if (!intent || isEmptyIntent(intent)) return null;
+
+  const update = (patch: Partial<QueryIntent>) => onChange({ ...intent, ...patch });
+
+  const startEdit = (field: TextField) => {
+    setEditing(field);
+    setDraft(intent[field] ?? '');
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const value = draft.trim() || null;
+    setEditing(null);
+    if (value !== intent[editing]) update({ [editing]: value });
+  };
+
+  const removeButton = (onRemove: () => void, title: string) => (
+    <button type="button" onClick={onRemove} className="ml-0.5 text-slate-300 hover:text-slate-600" title={title}>
+      <X className="w-3 h-3" />
+    </button>
+  );
+
+  const renderText = (field: TextField, Icon: typeof MapPin, label: string) => {
+    if (editing === field) {
+      return (
+        <span className={chipClass}>
+          <Icon className="w-3 h-3 mr-1 text-brand-primary" />
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitEdit}
+            onKeyDown={(e) => {
+              // Inside the search form: Enter must not also submit the raw query
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commitEdit();
+              }
+              if (e.key === 'Escape') setEditing(null);
+            }}
+            className="w-24 bg-transparent focus:outline-none"
+            aria-label={label}
+          />
+        </span>
+      );
+    }
+    const value = intent[field];
+    if (!value) return null;
+    return (
+      <span className={chipClass}>
+        <Icon className="w-3 h-3 mr-1 text-brand-primary" />
+        <button type="button" onClick={() => startEdit(field)} className="truncate max-w-[120px]" title={`Edit ${label.toLowerCase()}`}>{value}</button>
+        {removeButton(() => update({ [field]: null }), `Remove ${label.toLowerCase()}`)}
+      </span>
+    );
+  };
+
+  const unusedDietary = DIETARY_TAGS.filter(tag => !intent.dietary.includes(tag.key));
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {renderText('location', MapPin, 'Location')}
+      {renderText('cuisine', Utensils, 'Cuisine')}
+
+      {intent.maxPrice && (
+        <span className={chipClass}>
+          <Wallet className="w-3 h-3 mr-1 text-brand-primary" />
+          <select
+            value={intent.maxPrice}
+            onChange={(e) => update({ maxPrice: e.target.value as PriceRange })}
+            className={selectClass}
+            aria-label="Price ceiling"
+          >
+            {PRICE_RANGES.map(price => <option key={price} value={price}>Up to {price}</option>)}
+          </select>
+          {removeButton(() => update({ maxPrice: null }), 'Remove price ceiling')}
+        </span>
+      )}
+
+      {intent.mealTime && (
+        <span className={chipClass}>
+          <Clock className="w-3 h-3 mr-1 text-brand-primary" />
+          <select
+            value={intent.mealTime}
+            onChange={(e) => update({ mealTime: e.target.value as MealTime })}
+            className={selectClass}
+            aria-label="Meal time"
+          >
+            {MEAL_TIMES.map(meal => <option key={meal.key} value={meal.key}>{meal.label}</option>)}
+          </select>
+          {removeButton(() => update({ mealTime: null }), 'Remove meal time')}
+        </span>
+      )}
+
+      {intent.dietary.map(tag => (
+        <span key={tag} className={chipClass}>
+          <Leaf className="w-3 h-3 mr-1 text-brand-primary" />
+          {getDietaryLabel(tag)}
+          {removeButton(() => update({ dietary: intent.dietary.filter(t => t !== tag) }), `Remove ${getDietaryLabel(tag).toLowerCase()}`)}
+        </span>
+      ))}
+
+      {unusedDietary.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && update({ dietary: [...intent.dietary, e.target.value as DietaryTag] })}
+          className="text-[10px] font-bold bg-white/80 border border-dashed border-slate-300 rounded-full px-2 py-0.5 text-slate-500 focus:outline-none cursor-pointer"
+          aria-label="Add dietary need"
+        >
+          <option value="">+ Dietary</option>
+          {unusedDietary.map(tag => <option key={tag.key} value={tag.key}>{tag.label}</option>)}
+        </select>
+      )}
+    </div>
+  );
+};
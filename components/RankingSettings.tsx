@@ -0,0 +1,57 @@
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { RankingWeights } from '../types';
+import { DEFAULT_WEIGHTS, WEIGHT_LABELS } from '../services/rankingService';
+
+interface RankingSettingsProps {
+  weights: RankingWeights;
+  onChange: (weights: RankingWeights) => void;
+  onClose: () => void;
+}
+
+export const RankingSettings: React.FC<RankingSettingsProps> = ({ weights, onChange, onClose }) => {
+  const keys = Object.keys(WEIGHT_LABELS) as (keyof RankingWeights)[];
+  const total = keys.reduce((sum, k) => sum + weights[k], 0);
+
+  return (
+    <div className="border-b border-slate-100 bg-white px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-slate-800">Ranking Weights</h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onChange(DEFAULT_WEIGHTS)}
+            className="p-1 text-slate-400 hover:text-brand-dark rounded"
+            title="Reset to defaults"
+          >
+            <RotateCcw className="w-3 h-3" />
+          </button>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-brand-dark rounded" title="Close">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {keys.map(key => (
+          <label key={key} className="block">
+            <div className="flex justify-between text-[10px] text-slate-500 uppercase font-semibold mb-0.5">
+              <span>{WEIGHT_LABELS[key]}</span>
+              <span className="text-brand-dark">
+                {weights[key]} · {total > 0 ? Math.round((weights[key] / total) * 100) : 0}%
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              step={1}
+              value={weights[key]}
+              onChange={(e) => onChange({ ...weights, [key]: Number(e.target.value) })}
+              className="w-full accent-emerald-700"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send, MessageSquare } from 'lucide-react';
+import { RefinementTurn } from '../services/refinementService';
+
+interface RefinementPanelProps {
+  turns: RefinementTurn[];
+  busy: boolean; // A follow-up discovery is running
+  selectedSpotName?: string;
+  onSend: (message: string) => void;
+  onClose: () => void;
+}
+
+const SUGGESTIONS = ['Only the cheaper ones', 'Closest first', 'Highly rated within 2 km', 'Reset'];
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ turns, busy, selectedSpotName, onSend, onClose }) => {
+  const [draft, setDraft] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [turns]);
+
+  const send = (message: string) => {
+    if (!message.trim() || busy) return;
+    onSend(message.trim());
+    setDraft('');
+  };
+
+  const suggestions = selectedSpotName ? [...SUGGESTIONS.slice(0, 2), `Something vegetarian near ${selectedSpotName}`] : SUGGESTIONS;
+
+  return (
+    <div className="border-b border-slate-100 bg-white px-4 py-3">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-bold text-slate-800 flex items-center">
+          <MessageSquare className="w-3 h-3 mr-1.5 text-brand-primary" />
+          Refine Results
+        </h3>
+        <button onClick={onClose} className="p-1 text-slate-400 hover:text-brand-dark rounded" title="Close">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {turns.length > 0 && (
+        <div ref={scrollRef} className="max-h-40 overflow-y-auto space-y-1.5 mb-2 pr-1">
+          {turns.map(turn => (
+            <div key={turn.id} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <span className={`text-xs px-2.5 py-1.5 rounded-lg max-w-[85%] ${turn.role === 'user' ? 'bg-brand-dark text-white' : 'bg-slate-100 text-slate-700'}`}>
+                {turn.text}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {turns.length === 0 && (
+        <div className="flex flex-wrap gap-1.5 mb-2">
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => send(suggestion)}
+              className="text-[10px] px-2 py-1 rounded-full border border-slate-200 text-slate-600 hover:border-brand-dark/30 hover:text-brand-dark transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={(e) => { e.preventDefault(); send(draft); }} className="flex items-center space-x-1.5">
+        <input
+          type="text"
+          placeholder={busy ? 'Searching...' : 'e.g. only seafood, closest first'}
+          value={draft}
+          disabled={busy}
+          onChange={(e) => setDraft(e.target.value)}
+          className="flex-1 text-xs bg-white border border-slate-200 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-dark disabled:bg-slate-50"
+        />
+        <button
+          type="submit"
+          disabled={busy || !draft.trim()}
+          className="p-1.5 bg-brand-dark text-white rounded hover:bg-brand-accent transition-colors disabled:bg-slate-200 disabled:text-slate-400"
+          title="Send"
+        >
+          <Send className="w-3 h-3" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Clock, X } from 'lucide-react';
+import { SpotDiff } from '../types';
+
+interface RefreshStatusProps {
+  diff: SpotDiff | null;
+  autoRefreshMinutes: number;
+  onAutoRefreshChange: (minutes: number) => void;
+  onDismissDiff: () => void;
+}
+
+export const AUTO_REFRESH_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'Off' },
+  { minutes: 15, label: 'Every 15 min' },
+  { minutes: 60, label: 'Hourly' },
+  { minutes: 360, label: 'Every 6 h' }
+];
+
+export const RefreshStatus: React.FC<RefreshStatusProps> = ({ diff, autoRefreshMinutes, onAutoRefreshChange, onDismissDiff }) => {
+  const chips = diff ? [
+    { label: 'NEW', count: diff.counts.new, className: 'bg-blue-100 text-blue-700' },
+    { label: 'RISING', count: diff.counts.rising, className: 'bg-green-100 text-green-700' },
+    { label: 'FALLING', count: diff.counts.falling, className: 'bg-orange-100 text-orange-700' },
+    { label: 'GONE', count: diff.counts.gone, className: 'bg-slate-200 text-slate-600' }
+  ].filter(chip => chip.count > 0) : [];
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-100 bg-white space-y-2">
+      <div className="flex items-center justify-between text-[10px] text-slate-500">
+        <span className="flex items-center font-semibold uppercase">
+          <Clock className="w-3 h-3 mr-1" />
+          Auto-refresh
+        </span>
+        <select
+          value={autoRefreshMinutes}
+          onChange={(e) => onAutoRefreshChange(Number(e.target.value))}
+          className="text-[10px] bg-slate-100 rounded px-1.5 py-0.5 text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+        >
+          {AUTO_REFRESH_OPTIONS.map(opt => (
+            <option key={opt.minutes} value={opt.minutes}>{opt.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {diff && (
+        <div className="flex items-center justify-between bg-slate-50 border border-slate-200 rounded px-2 py-1.5">
+          <div className="flex flex-wrap items-center gap-1.5 text-[10px]">
+            <span className="text-slate-500">
+              Refreshed {new Date(diff.comparedAt).toLocaleTimeString()}:
+            </span>
+            {chips.length === 0 && <span className="text-slate-400 italic">no significant changes</span>}
+            {chips.map(chip => (
+              <span key={chip.label} className={`px-1.5 py-0.5 rounded font-bold ${chip.className}`}>
+                {chip.count} {chip.label}
+              </span>
+            ))}
+          </div>
+          <button onClick={onDismissDiff} className="p-0.5 text-slate-400 hover:text-brand-dark" title="Dismiss">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
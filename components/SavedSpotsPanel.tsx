@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, CheckCircle2, Circle, StickyNote } from 'lucide-react';
+import { FoodSpot, SavedState } from '../types';
+import { getSavedList } from '../services/savedSpotsService';
+import { SpotCard } from './SpotCard';
+
+interface SavedSpotsPanelProps {
+  saved: SavedState;
+  selectedSpotId: string | null;
+  onSelect: (spot: FoodSpot) => void;
+  onToggleSave: (spot: FoodSpot) => void;
+  onToggleVisited: (spotId: string, visited: boolean) => void;
+  onCreateList: (name: string) => void;
+  onDeleteList: (listId: string) => void;
+}
+
+export const SavedSpotsPanel: React.FC<SavedSpotsPanelProps> = ({
+  saved, selectedSpotId, onSelect, onToggleSave, onToggleVisited, onCreateList, onDeleteList
+}) => {
+  const [activeListId, setActiveListId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+
+  const items = getSavedList(saved, activeListId);
+  const activeList = saved.lists.find(l => l.id === activeListId);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newListName.trim()) return;
+    onCreateList(newListName);
+    setNewListName('');
+  };
+
+  const chipClass = (active: boolean) =>
+    `text-[10px] px-2 py-1 rounded font-bold border transition-colors ${active ? 'bg-brand-dark text-white border-brand-dark' : 'bg-white text-slate-600 border-slate-200 hover:border-brand-dark/30'}`;
+
+  return (
+    <div className="space-y-3">
+      {/* Lists */}
+      <div className="flex flex-wrap gap-1.5 items-center">
+        <button onClick={() => setActiveListId(null)} className={chipClass(activeListId === null)}>
+          All ({Object.keys(saved.spots).length})
+        </button>
+        {saved.lists.map(list => (
+          <button key={list.id} onClick={() => setActiveListId(list.id)} className={chipClass(activeListId === list.id)}>
+            {list.name} ({getSavedList(saved, list.id).length})
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleCreate} className="flex items-center space-x-1.5">
+        <input
+          type="text"
+          placeholder="New list (e.g. Team lunch)"
+          value={newListName}
+          onChange={(e) => setNewListName(e.target.value)}
+          className="flex-1 text-xs bg-white border border-slate-200 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-brand-dark"
+        />
+        <button type="submit" className="p-1.5 bg-brand-dark text-white rounded hover:bg-brand-accent transition-colors" title="Create list">
+          <Plus className="w-3 h-3" />
+        </button>
+        {activeList && (
+          <button
+            type="button"
+            onClick={() => { onDeleteList(activeList.id); setActiveListId(null); }}
+            className="p-1.5 text-slate-400 hover:text-red-600 rounded"
+            title={`Delete "${activeList.name}"`}
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </form>
+
+      {items.length === 0 && (
+        <div className="text-center p-8 text-slate-400 text-sm">
+          {activeList ? `No spots in "${activeList.name}" yet.` : 'Star a spot to save it here.'}
+        </div>
+      )}
+
+      {items.map(item => (
+        <div key={item.spot.id} className="space-y-1">
+          <SpotCard
+            spot={item.spot}
+            selected={selectedSpotId === item.spot.id}
+            onSelect={onSelect}
+            isSaved
+            onToggleSave={onToggleSave}
+          />
+          <div className="flex items-center justify-between px-1 text-[10px] text-slate-500">
+            <button
+              onClick={() => onToggleVisited(item.spot.id, !item.visited)}
+              className={`flex items-center font-bold ${item.visited ? 'text-brand-dark' : 'hover:text-brand-dark'}`}
+            >
+              {item.visited ? <CheckCircle2 className="w-3 h-3 mr-1" /> : <Circle className="w-3 h-3 mr-1" />}
+              {item.visited ? 'Visited' : 'Not visited'}
+            </button>
+            {item.note && (
+              <span className="flex items-center truncate max-w-[60%] italic" title={item.note}>
+                <StickyNote className="w-3 h-3 mr-1 shrink-0" />
+                {item.note}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { DiscoverySource } from '../types';
+import { QuotaUsage } from '../services/resilienceService';
+
+interface SourceBadgeProps {
+  source: DiscoverySource;
+  providerLabel: string;
+  usage?: QuotaUsage;
+}
+
+const SOURCE_STYLES: Record<DiscoverySource, { label: string; className: string }> = {
+  live: { label: 'Live', className: 'bg-green-50 text-green-700 border-green-100' },
+  cache: { label: 'Cached', className: 'bg-slate-100 text-slate-600 border-slate-200' },
+  mock: { label: 'Demo data', className: 'bg-amber-50 text-amber-700 border-amber-100' }
+};
+
+const describeSource = (source: DiscoverySource, providerLabel: string): string => {
+  switch (source) {
+    case 'live': return `Fresh results from ${providerLabel}`;
+    case 'cache': return `Saved results from an earlier ${providerLabel} search`;
+    case 'mock': return 'Sample data, not real recommendations';
+  }
+};
+
+export const SourceBadge: React.FC<SourceBadgeProps> = ({ source, providerLabel, usage }) => {
+  const style = SOURCE_STYLES[source];
+  const quota = usage && usage.dailyQuota > 0 && source !== 'mock'
+    ? ` · ${usage.today} of ${usage.dailyQuota} provider calls used today`
+    : '';
+  return (
+    <span
+      title={`${describeSource(source, providerLabel)}${quota}`}
+      className={`inline-flex items-center text-[10px] px-1.5 py-0.5 rounded font-bold border ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+};
@@ -1,35 +1,108 @@
 import React from 'react';
-import { FoodSpot } from '../types';
-import { TrendingUp, Star, MapPin } from 'lucide-react';
+import { FoodSpot, SpotChange } from '../types';
+import { TrendingUp, TrendingDown, Star, MapPin, Bookmark, Scale } from 'lucide-react';
+import { getDietaryTags } from '../services/dietaryService';
+import { getOpenStatus, OpenCheck } from '../services/hoursService';
+import { DietaryBadges } from './DietaryBadges';
+import { OpenStatusBadge } from './OpenStatusBadge';
 
 interface SpotCardProps {
   spot: FoodSpot;
   onSelect: (spot: FoodSpot) => void;
   selected: boolean;
+  change?: SpotChange; // Set after a refresh to badge what moved
+  isSaved?: boolean;
+  onToggleSave?: (spot: FoodSpot) => void;
+  isCompared?: boolean;
+  compareDisabled?: boolean; // Comparison is full and this spot isn't part of it
+  onToggleCompare?: (spot: FoodSpot) => void;
+  openCheck?: OpenCheck; // When to evaluate opening hours; defaults to now
 }
 
-export const SpotCard: React.FC<SpotCardProps> = ({ spot, onSelect, selected }) => {
+const renderChangeBadge = (change: SpotChange) => {
+  switch (change.kind) {
+    case 'new':
+      return <span className="bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded text-[10px] font-bold">NEW</span>;
+    case 'rising':
+      return (
+        <span className="bg-green-100 text-green-700 px-1.5 py-0.5 rounded text-[10px] font-bold flex items-center">
+          <TrendingUp className="w-3 h-3 mr-0.5" />
+          RISING +{change.trendingDelta}
+        </span>
+      );
+    case 'falling':
+      return (
+        <span className="bg-orange-100 text-orange-700 px-1.5 py-0.5 rounded text-[10px] font-bold flex items-center">
+          <TrendingDown className="w-3 h-3 mr-0.5" />
+          FALLING {change.trendingDelta}
+        </span>
+      );
+    case 'gone':
+      return <span className="bg-slate-200 text-slate-600 px-1.5 py-0.5 rounded text-[10px] font-bold">GONE</span>;
+    default:
+      return null;
+  }
+};
+
+export const SpotCard: React.FC<SpotCardProps> = ({ spot, onSelect, selected, change, isSaved, onToggleSave, isCompared, compareDisabled, onToggleCompare, openCheck }) => {
+  const dietaryTags = getDietaryTags(spot);
+  const openStatus = getOpenStatus(spot.openingHours, openCheck);
   return (
     <div 
       onClick={() => onSelect(spot)}
-      className={`group relative bg-white border transition-all duration-200 cursor-pointer rounded-lg overflow-hidden hover:shadow-lg ${selected ? 'border-brand-dark shadow-md ring-1 ring-brand-dark' : 'border-slate-200 hover:border-brand-dark/30'}`}
+      className={`group relative bg-white border transition-all duration-200 cursor-pointer rounded-lg overflow-hidden hover:shadow-lg ${change?.kind === 'gone' ? 'opacity-60' : ''} ${selected ? 'border-brand-dark shadow-md ring-1 ring-brand-dark' : 'border-slate-200 hover:border-brand-dark/30'}`}
     >
       <div className="p-4">
         {/* Header */}
         <div className="flex justify-between items-start mb-2">
+          {spot.ranking && (
+            <div className="mr-3 flex flex-col items-center shrink-0" title={`Composite score ${spot.ranking.score}`}>
+              <span className="w-7 h-7 rounded-full bg-brand-dark text-white flex items-center justify-center text-xs font-bold">
+                #{spot.ranking.rank}
+              </span>
+              <span className="text-[10px] text-slate-500 font-bold mt-0.5">{Math.round(spot.ranking.score)}</span>
+            </div>
+          )}
           <div className="flex-1">
             <h3 className="text-base font-bold text-slate-800 group-hover:text-brand-dark transition-colors">{spot.name}</h3>
             <div className="flex items-center text-xs text-slate-500 mt-1">
               <MapPin className="w-3 h-3 mr-1" />
               {spot.address.split(',')[0]}
             </div>
+            {openStatus.state !== 'unknown' && (
+              <div className="mt-1.5">
+                <OpenStatusBadge status={openStatus} />
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col items-end space-y-1">
+            {onToggleSave && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggleSave(spot); }}
+                className={`p-1 rounded-full transition-colors ${isSaved ? 'text-amber-500' : 'text-slate-300 hover:text-amber-500'}`}
+                title={isSaved ? 'Remove from saved' : 'Save spot'}
+              >
+                <Bookmark className={`w-4 h-4 ${isSaved ? 'fill-current' : ''}`} />
+              </button>
+            )}
+            {onToggleCompare && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggleCompare(spot); }}
+                disabled={compareDisabled}
+                className={`p-1 rounded-full transition-colors disabled:opacity-30 ${isCompared ? 'text-indigo-500' : 'text-slate-300 hover:text-indigo-500'}`}
+                title={isCompared ? 'Remove from comparison' : compareDisabled ? 'Comparison is full' : 'Add to comparison'}
+              >
+                <Scale className="w-4 h-4" />
+              </button>
+            )}
+            {spot.trendingScore > 85 && change?.kind !== 'gone' && (
+               <div className="bg-brand-dark text-white px-2 py-0.5 rounded text-[10px] font-bold flex items-center shadow-sm">
+                 <TrendingUp className="w-3 h-3 mr-1" />
+                 HOT
+               </div>
+            )}
+            {change && renderChangeBadge(change)}
           </div>
-          {spot.trendingScore > 85 && (
-             <div className="bg-brand-dark text-white px-2 py-0.5 rounded text-[10px] font-bold flex items-center shadow-sm">
-               <TrendingUp className="w-3 h-3 mr-1" />
-               HOT
-             </div>
-          )}
         </div>
 
         {/* Description */}
@@ -37,6 +110,13 @@ export const SpotCard: React.FC<SpotCardProps> = ({ spot, onSelect, selected })
           {spot.description}
         </p>
 
+        {/* Dietary options */}
+        {dietaryTags.length > 0 && (
+          <div className="mb-3">
+            <DietaryBadges tags={dietaryTags} compact />
+          </div>
+        )}
+
         {/* Metrics Row */}
         <div className="flex items-center justify-between pt-3 border-t border-slate-100">
            <div className="flex space-x-2">
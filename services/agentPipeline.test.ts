@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiscoveryProvider } from '../types';
+import { runDiscoveryPipeline } from './agentPipeline';
+import { mockSpots } from './providers/mockProvider';
+
+describe('runDiscoveryPipeline', () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); }
+    });
+  });
+
+  it('ranks only the spots that pass validation', async () => {
+    const kochi = mockSpots('Kochi, Kerala', 0, 0);
+    // The best-scoring spot lies just outside the 5km search radius
+    const spots = kochi.spots.map((spot, i) => i === 0
+      ? { ...spot, trendingScore: 100, sentimentScore: 100, popularityVelocity: 25, aiConfidence: 100, coordinates: { lat: kochi.center.lat + 0.046, lng: kochi.center.lng } }
+      : { ...spot, trendingScore: 40, sentimentScore: 40, popularityVelocity: 0, aiConfidence: 40 });
+    const provider: DiscoveryProvider = {
+      id: 'test',
+      label: 'Test',
+      discover: async () => ({ ...kochi, spots })
+    };
+
+    const result = await runDiscoveryPipeline({ query: 'Kochi, Kerala', center: kochi.center }, { provider });
+
+    expect(result.spots).toHaveLength(spots.length - 1);
+    expect(result.spots.map(spot => spot.ranking?.rank)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps spots across the visible map area for an area search', async () => {
+    const kochi = mockSpots('Kochi, Kerala', 0, 0);
+    // Zoomed out: 12km north of center is still on screen
+    const far = { lat: kochi.center.lat + 0.11, lng: kochi.center.lng };
+    const spots = kochi.spots.map((spot, i) => i === 0 ? { ...spot, coordinates: far } : spot);
+    const bounds = { north: kochi.center.lat + 0.2, south: kochi.center.lat - 0.2, east: kochi.center.lng + 0.2, west: kochi.center.lng - 0.2 };
+    const provider: DiscoveryProvider = {
+      id: 'test',
+      label: 'Test',
+      discover: async () => ({ ...kochi, spots })
+    };
+
+    const result = await runDiscoveryPipeline({ query: 'Kochi, Kerala', center: kochi.center, bounds }, { provider });
+
+    expect(result.spots).toHaveLength(spots.length);
+    const distance = result.spots.find(spot => spot.name === spots[0].name)?.ranking?.components.find(c => c.key === 'distance');
+    expect(distance?.normalized).toBeGreaterThan(0);
+    expect(result).not.toHaveProperty('bounds');
+  });
+
+  it('registers identities only for spots that pass validation', async () => {
+    const kochi = mockSpots('Kochi, Kerala', 0, 0);
+    const far = { ...kochi.spots[0], name: 'Hallucinated Diner', coordinates: { lat: kochi.center.lat + 0.2, lng: kochi.center.lng } };
+    const provider: DiscoveryProvider = {
+      id: 'test',
+      label: 'Test',
+      discover: async () => ({ ...kochi, spots: [...kochi.spots, far] })
+    };
+
+    await runDiscoveryPipeline({ query: 'Kochi, Kerala', center: kochi.center }, { provider });
+
+    const registry = localStorage.getItem('foodifind-spot-identities') ?? '';
+    expect(registry).toContain(kochi.spots[0].name);
+    expect(registry).not.toContain(far.name);
+  });
+});
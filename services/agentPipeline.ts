@@ -0,0 +1,215 @@
+import { AgentLog, AgentType, Coordinates, DiscoveryProvider, DiscoveryResult, DiscoveryStreamEvent, FoodSpot, GeocodeResult, MapBounds, QueryIntent, RankingWeights } from "../types";
+import { distanceKm, isWithinBounds } from "./geo";
+import { getSearchRadiusKm, MAX_RADIUS_KM } from "./validationService";
+import { rankSpots } from "./rankingService";
+import { previewStableIds, resolveIdentities } from "./identityService";
+
+// Runs discovery as discrete agent steps. Each step has typed input/output and
+// reports real timing and outcome through `onLog`, so React is only a consumer.
+
+// Results so far while a streaming provider is still responding; unranked
+export interface PartialDiscovery {
+  spots: FoodSpot[];
+  center: Coordinates;
+  locationName: string;
+}
+
+export interface PipelineCallbacks {
+  onStage?: (agent: AgentType) => void;
+  onLog?: (log: AgentLog) => void;
+  onPartial?: (partial: PartialDiscovery) => void;
+}
+
+export interface PipelineOptions extends PipelineCallbacks {
+  provider: DiscoveryProvider;
+  runId?: string; // Tags every log so overlapping runs can be told apart
+  signal?: AbortSignal;
+  weights?: RankingWeights;
+}
+
+export interface PipelineInput {
+  query: string;
+  center: Coordinates;
+  intent?: QueryIntent; // Parsed from the query; geocoding prefers its location
+  bounds?: MapBounds; // Visible map area; spots outside it are dropped
+  bypassCache?: boolean;
+}
+
+interface StepContext {
+  provider: DiscoveryProvider;
+  signal?: AbortSignal;
+  weights?: RankingWeights;
+  onPartial?: (partial: PartialDiscovery) => void;
+  log: (message: string, status?: AgentLog['status']) => void;
+}
+
+interface PipelineStep<I, O> {
+  agent: AgentType;
+  describe: (input: I) => string;
+  summarize: (output: O) => string;
+  run: (input: I, ctx: StepContext) => Promise<O>;
+}
+
+export const createLog = (message: string, agent: AgentType, extra: Partial<AgentLog> = {}): AgentLog => ({
+  id: Math.random().toString(36).substring(7),
+  timestamp: Date.now(),
+  message,
+  agent,
+  ...extra
+});
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+let runCounter = 0;
+
+// Sequential per session, so the HUD can label runs "#1", "#2"...
+export const createRunId = (): string => `run-${++runCounter}`;
+
+export const getRunNumber = (runId: string): string => runId.replace(/^run-/, '');
+
+// Abort reason that still satisfies `isAbortError`, with a message for the logs
+export const createAbortReason = (message: string): DOMException => new DOMException(message, 'AbortError');
+
+// --- Steps ---
+
+interface GeocodeOutput extends PipelineInput {
+  region: GeocodeResult | null;
+}
+
+const geocodeStep: PipelineStep<PipelineInput, GeocodeOutput> = {
+  agent: AgentType.DISCOVERY,
+  describe: ({ query }) => `Resolving search region for "${query}"...`,
+  summarize: ({ region }) => region
+    ? `Region resolved to ${region.locationName} (${region.center.lat.toFixed(4)}, ${region.center.lng.toFixed(4)})`
+    : 'No offline match, deferring geocoding to the search agent',
+  run: async (input, { provider }) => {
+    // A parsed intent without a location ("biryani near me") searches around the current position
+    const target = input.intent ? input.intent.location : input.query;
+    const region = provider.geocode && target ? await provider.geocode(target) : null;
+    return { ...input, center: region?.center ?? input.center, region };
+  }
+};
+
+// Forwards each streamed spot (with its prospective stable id) that passes `keep`, and resolves with the final result
+const readDiscoveryStream = async (
+  events: AsyncIterable<DiscoveryStreamEvent>,
+  initial: PartialDiscovery,
+  keep: (spot: FoodSpot) => boolean,
+  { signal, log, onPartial }: StepContext
+): Promise<DiscoveryResult> => {
+  let partial = initial;
+  for await (const event of events) {
+    signal?.throwIfAborted();
+    if (event.type === 'done') {
+      if (partial.spots.length > 0) log(`Streamed ${partial.spots.length} spots as they arrived`);
+      return event.result;
+    }
+    if (event.type === 'spot' && !keep(event.spot)) continue;
+    partial = event.type === 'region'
+      ? { ...partial, center: event.center, locationName: event.locationName }
+      : { ...partial, spots: [...partial.spots, ...previewStableIds([event.spot])] };
+    onPartial?.(partial);
+  }
+  throw new Error('Discovery stream ended without a result');
+};
+
+// Search results keep the searched area so validation and ranking use the same limit
+interface SearchOutput extends DiscoveryResult {
+  bounds?: MapBounds;
+}
+
+const searchStep: PipelineStep<GeocodeOutput, SearchOutput> = {
+  agent: AgentType.SEARCH,
+  describe: ({ query, bounds }) => bounds
+    ? `Scanning social signals for "${query}" across the visible map area...`
+    : `Scanning social signals for "${query}" within ${MAX_RADIUS_KM}km...`,
+  summarize: (result) => `Extracted ${result.spots.length} candidates in ${result.locationName}`,
+  run: async ({ query, center, intent, bounds, bypassCache, region }, ctx) => {
+    const { provider, signal, log } = ctx;
+    const request = { query, center, intent, bounds, bypassCache, signal, onNotice: (message: string) => log(message) };
+    const inArea = (spot: FoodSpot) => !bounds || isWithinBounds(spot.coordinates, bounds);
+    const result = provider.discoverStream
+      ? await readDiscoveryStream(provider.discoverStream(request), { spots: [], center, locationName: region?.locationName ?? query }, inArea, ctx)
+      : await provider.discover(request);
+    return { ...result, bounds };
+  }
+};
+
+const rankingStep: PipelineStep<SearchOutput, DiscoveryResult> = {
+  agent: AgentType.RANKING,
+  describe: (result) => `Ranking ${result.spots.length} candidates with the composite scoring model...`,
+  summarize: (result) => result.spots.length > 0
+    ? `Top pick: ${result.spots[0].name} (score ${result.spots[0].ranking?.score})`
+    : 'Nothing to rank',
+  run: async ({ bounds, ...result }, { weights }) => ({
+    ...result,
+    spots: rankSpots(result.spots, result.center, weights, getSearchRadiusKm(bounds))
+  })
+};
+
+const validationStep: PipelineStep<SearchOutput, SearchOutput> = {
+  agent: AgentType.VALIDATION,
+  describe: () => 'Validating spot data...',
+  summarize: (result) => result.validation
+    ? `Validated ${result.validation.accepted} spots (${result.validation.rejected} rejected, ${result.validation.issues.filter(i => i.severity === 'warning').length} repairs)`
+    : `${result.spots.length} spots passed validation`,
+  run: async (result, { log }) => {
+    result.validation?.issues.forEach(issue => {
+      const prefix = issue.severity === 'rejected' ? 'Rejected' : 'Repaired';
+      log(`${prefix} ${issue.spotName}: ${issue.message}`, issue.severity === 'rejected' ? 'error' : 'info');
+    });
+
+    // Sources that skip model validation still have to honour the searched area
+    const { bounds } = result;
+    const inRange = result.spots.filter(spot => bounds
+      ? isWithinBounds(spot.coordinates, bounds)
+      : distanceKm(result.center, spot.coordinates) <= MAX_RADIUS_KM);
+    if (inRange.length !== result.spots.length) {
+      const area = bounds ? 'the visible map area' : `the ${MAX_RADIUS_KM}km radius`;
+      log(`Dropped ${result.spots.length - inRange.length} spots outside ${area}`, 'error');
+    }
+
+    // Only spots that passed are registered, so rejected ones can't claim a stable identity
+    const { spots, merged, reused } = resolveIdentities(inRange);
+    if (merged > 0) log(`Merged ${merged} duplicate listings`);
+    if (reused > 0) log(`Matched ${reused} spots seen in earlier searches`);
+    return { ...result, spots };
+  }
+};
+
+// --- Runner ---
+
+const runStep = async <I, O>(step: PipelineStep<I, O>, input: I, options: PipelineOptions): Promise<O> => {
+  const { signal, provider, runId, weights, onStage, onLog, onPartial } = options;
+  signal?.throwIfAborted();
+
+  const log = (message: string, status: AgentLog['status'] = 'info', durationMs?: number) =>
+    onLog?.(createLog(message, step.agent, { status, durationMs, runId }));
+
+  onStage?.(step.agent);
+  log(step.describe(input));
+  const started = performance.now();
+
+  try {
+    const output = await step.run(input, { provider, signal, weights, onPartial, log });
+    // A step may finish after cancellation; its output must not leak into the next step
+    signal?.throwIfAborted();
+    log(step.summarize(output), 'success', Math.round(performance.now() - started));
+    return output;
+  } catch (error) {
+    if (!isAbortError(error)) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`Failed: ${message}`, 'error', Math.round(performance.now() - started));
+    }
+    throw error;
+  }
+};
+
+export const runDiscoveryPipeline = async (input: PipelineInput, options: PipelineOptions): Promise<DiscoveryResult> => {
+  const located = await runStep(geocodeStep, input, options);
+  const candidates = await runStep(searchStep, located, options);
+  // Rank only what survives validation, so ranks run 1..n without gaps
+  const validated = await runStep(validationStep, candidates, options);
+  return runStep(rankingStep, validated, options);
+};
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheBackend, createCache, createMemoryBackend } from './cacheService';
+
+// Every backend call fails, as IndexedDB does when storage is blocked or the database is closed
+const failingBackend: CacheBackend = {
+  get: () => Promise.reject(new Error('get failed')),
+  set: () => Promise.reject(new Error('set failed')),
+  delete: () => Promise.reject(new Error('delete failed')),
+  entries: () => Promise.reject(new Error('entries failed')),
+  clear: () => Promise.reject(new Error('clear failed'))
+};
+
+describe('createCache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('invalidates entries by tag', async () => {
+    const cache = createCache<string>({ backend: createMemoryBackend(), ttlMs: 1000, maxEntries: 10 });
+    await cache.set('a', 'A', { tags: ['query:kochi'] });
+    await cache.set('b', 'B', { tags: ['query:paris'] });
+    expect(await cache.invalidateTag('query:kochi')).toBe(1);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toBe('B');
+  });
+
+  it('never rejects when the backend fails', async () => {
+    const cache = createCache<string>({ backend: failingBackend, ttlMs: 1000, maxEntries: 10 });
+    await expect(cache.get('a')).resolves.toBeUndefined();
+    await expect(cache.set('a', 'A')).resolves.toBeUndefined();
+    await expect(cache.delete('a')).resolves.toBeUndefined();
+    await expect(cache.invalidateTag('query:kochi')).resolves.toBe(0);
+    await expect(cache.invalidate(() => true)).resolves.toBe(0);
+    await expect(cache.clear()).resolves.toBeUndefined();
+  });
+});
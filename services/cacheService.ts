@@ -0,0 +1,220 @@
+// Pluggable key/value cache with per-entry TTL and LRU eviction.
+// Backends are async so IndexedDB can sit behind the same interface as memory/localStorage.
+
+export interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+  expiresAt: number;
+  lastAccessed: number;
+  tags: string[];
+}
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<[string, CacheEntry<unknown>][]>;
+  clear(): Promise<void>;
+}
+
+export interface CacheOptions {
+  backend: CacheBackend;
+  ttlMs: number;
+  maxEntries: number;
+}
+
+export interface Cache<T> {
+  get(key: string): Promise<T | undefined>;
+  set(key: string, value: T, options?: { ttlMs?: number; tags?: string[] }): Promise<void>;
+  delete(key: string): Promise<void>;
+  invalidate(predicate: (key: string, entry: CacheEntry<T>) => boolean): Promise<number>;
+  invalidateTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+}
+
+// --- Backends ---
+
+export const createMemoryBackend = (): CacheBackend => {
+  const store = new Map<string, CacheEntry<unknown>>();
+  return {
+    get: async <T,>(key: string) => store.get(key) as CacheEntry<T> | undefined,
+    set: async (key, entry) => { store.set(key, entry); },
+    delete: async (key) => { store.delete(key); },
+    entries: async () => Array.from(store.entries()),
+    clear: async () => { store.clear(); }
+  };
+};
+
+export const createLocalStorageBackend = (namespace: string, storage: Storage = window.localStorage): CacheBackend => {
+  const prefix = `${namespace}:`;
+
+  const ownKeys = () => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const k = storage.key(i);
+      if (k && k.startsWith(prefix)) keys.push(k);
+    }
+    return keys;
+  };
+
+  const read = <T,>(storageKey: string): CacheEntry<T> | undefined => {
+    const raw = storage.getItem(storageKey);
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as CacheEntry<T>;
+    } catch {
+      storage.removeItem(storageKey);
+      return undefined;
+    }
+  };
+
+  return {
+    get: async <T,>(key: string) => read<T>(prefix + key),
+    set: async (key, entry) => {
+      try {
+        storage.setItem(prefix + key, JSON.stringify(entry));
+      } catch (error) {
+        // Quota exceeded: the entry simply isn't persisted
+        console.warn("Cache write failed:", error);
+      }
+    },
+    delete: async (key) => { storage.removeItem(prefix + key); },
+    entries: async () => ownKeys()
+      .map(k => [k.slice(prefix.length), read(k)] as [string, CacheEntry<unknown> | undefined])
+      .filter((pair): pair is [string, CacheEntry<unknown>] => pair[1] !== undefined),
+    clear: async () => { ownKeys().forEach(k => storage.removeItem(k)); }
+  };
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDBBackend = (dbName: string, storeName = 'entries'): CacheBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return promisify(fn(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: async <T,>(key: string) => withStore('readonly', s => s.get(key)) as Promise<CacheEntry<T> | undefined>,
+    set: async (key, entry) => { await withStore('readwrite', s => s.put(entry, key)); },
+    delete: async (key) => { await withStore('readwrite', s => s.delete(key)); },
+    entries: async () => {
+      // Both reads in one transaction, so a write in between can't misalign keys and values
+      const store = (await open()).transaction(storeName, 'readonly').objectStore(storeName);
+      const [keys, values] = await Promise.all([promisify(store.getAllKeys()), promisify(store.getAll())]);
+      return keys.map((k, i) => [String(k), values[i]] as [string, CacheEntry<unknown>]);
+    },
+    clear: async () => { await withStore('readwrite', s => s.clear()); }
+  };
+};
+
+// Picks the most durable backend the current environment supports
+export const createDefaultBackend = (namespace: string): CacheBackend => {
+  if (typeof indexedDB !== 'undefined') return createIndexedDBBackend(namespace);
+  if (typeof window !== 'undefined' && window.localStorage) return createLocalStorageBackend(namespace);
+  return createMemoryBackend();
+};
+
+// --- Cache ---
+
+export const createCache = <T,>({ backend, ttlMs, maxEntries }: CacheOptions): Cache<T> => {
+  const evictIfNeeded = async () => {
+    const all = await backend.entries();
+    const now = Date.now();
+
+    // Expired entries go first, then least recently used ones until under the limit
+    const expired = all.filter(([, e]) => e.expiresAt <= now);
+    await Promise.all(expired.map(([k]) => backend.delete(k)));
+
+    const live = all
+      .filter(([, e]) => e.expiresAt > now)
+      .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
+    const overflow = live.length - maxEntries;
+    if (overflow > 0) {
+      await Promise.all(live.slice(0, overflow).map(([k]) => backend.delete(k)));
+    }
+  };
+
+  // Like reads and writes, a failing backend only costs the cache, never the caller
+  const invalidate = async (predicate: (key: string, entry: CacheEntry<T>) => boolean) => {
+    try {
+      const matches = (await backend.entries()).filter(([k, e]) => predicate(k, e as CacheEntry<T>));
+      await Promise.all(matches.map(([k]) => backend.delete(k)));
+      return matches.length;
+    } catch (error) {
+      console.warn("Cache invalidation failed:", error);
+      return 0;
+    }
+  };
+
+  return {
+    get: async (key) => {
+      try {
+        const entry = await backend.get<T>(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt <= Date.now()) {
+          await backend.delete(key);
+          return undefined;
+        }
+        await backend.set(key, { ...entry, lastAccessed: Date.now() });
+        return entry.value;
+      } catch (error) {
+        console.warn("Cache read failed:", error);
+        return undefined;
+      }
+    },
+    set: async (key, value, options = {}) => {
+      const now = Date.now();
+      try {
+        await backend.set<T>(key, {
+          value,
+          createdAt: now,
+          expiresAt: now + (options.ttlMs ?? ttlMs),
+          lastAccessed: now,
+          tags: options.tags ?? []
+        });
+        await evictIfNeeded();
+      } catch (error) {
+        console.warn("Cache write failed:", error);
+      }
+    },
+    delete: async (key) => {
+      try {
+        await backend.delete(key);
+      } catch (error) {
+        console.warn("Cache delete failed:", error);
+      }
+    },
+    invalidate,
+    invalidateTag: (tag) => invalidate((_, e) => e.tags.includes(tag)),
+    clear: async () => {
+      try {
+        await backend.clear();
+      } catch (error) {
+        console.warn("Cache clear failed:", error);
+      }
+    }
+  };
+};
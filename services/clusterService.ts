@@ -0,0 +1,63 @@
+import { Coordinates, FoodSpot } from "../types";
+
+// Greedy screen-space clustering: spots closer than `radiusPx` at the given
+// zoom are grouped, highest-trending spot first so it anchors its cluster.
+
+export interface SpotCluster {
+  id: string;
+  center: Coordinates;
+  spots: FoodSpot[];
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]] for Leaflet
+}
+
+export interface ClusterOptions {
+  radiusPx?: number;
+  maxClusterZoom?: number; // Above this zoom every spot is shown individually
+}
+
+const TILE_SIZE = 256;
+
+// Web Mercator projection to world pixel coordinates at `zoom`
+export const project = ({ lat, lng }: Coordinates, zoom: number): { x: number; y: number } => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  };
+};
+
+const toCluster = (members: FoodSpot[]): SpotCluster => {
+  const lats = members.map(s => s.coordinates.lat);
+  const lngs = members.map(s => s.coordinates.lng);
+  return {
+    id: members.map(s => s.id).sort().join('|'),
+    center: {
+      lat: lats.reduce((a, b) => a + b, 0) / members.length,
+      lng: lngs.reduce((a, b) => a + b, 0) / members.length
+    },
+    spots: members,
+    bounds: [[Math.min(...lats), Math.min(...lngs)], [Math.max(...lats), Math.max(...lngs)]]
+  };
+};
+
+export const clusterSpots = (spots: FoodSpot[], zoom: number, { radiusPx = 50, maxClusterZoom = 15 }: ClusterOptions = {}): SpotCluster[] => {
+  if (zoom > maxClusterZoom) return spots.map(spot => toCluster([spot]));
+
+  const points = [...spots]
+    .sort((a, b) => b.trendingScore - a.trendingScore)
+    .map(spot => ({ spot, px: project(spot.coordinates, zoom) }));
+  const assigned = new Set<string>();
+  const clusters: SpotCluster[] = [];
+
+  points.forEach(anchor => {
+    if (assigned.has(anchor.spot.id)) return;
+    const members = points.filter(p =>
+      !assigned.has(p.spot.id) && Math.hypot(p.px.x - anchor.px.x, p.px.y - anchor.px.y) <= radiusPx
+    );
+    members.forEach(m => assigned.add(m.spot.id));
+    clusters.push(toCluster(members.map(m => m.spot)));
+  });
+
+  return clusters;
+};
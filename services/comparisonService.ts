@@ -0,0 +1,61 @@
+import { Coordinates, FoodSpot, RankingWeights } from "../types";
+import { normalizeSignals, WEIGHT_LABELS } from "./rankingService";
+
+// Spots picked for side-by-side comparison. Full copies are kept so the
+// selection survives new searches; updates are pure like savedSpotsService.
+
+const COMPARE_STORAGE_KEY = 'foodifind-compare';
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 4;
+
+// One colour per comparison column, reused by the radar and history charts
+export const COMPARE_COLORS = ['#10b981', '#6366f1', '#f59e0b', '#ec4899'];
+
+export const loadComparison = (): FoodSpot[] => {
+  try {
+    const raw = localStorage.getItem(COMPARE_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.slice(0, MAX_COMPARE) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistComparison = (spots: FoodSpot[]) => {
+  try {
+    localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(spots));
+  } catch (error) {
+    console.warn("Could not persist comparison:", error);
+  }
+};
+
+export const isCompared = (compared: FoodSpot[], spotId: string) => compared.some(s => s.id === spotId);
+
+// Adding beyond MAX_COMPARE is a no-op; the UI disables the control instead
+export const toggleCompared = (compared: FoodSpot[], spot: FoodSpot): FoodSpot[] => {
+  if (isCompared(compared, spot.id)) return compared.filter(s => s.id !== spot.id);
+  if (compared.length >= MAX_COMPARE) return compared;
+  return [...compared, spot];
+};
+
+// Refresh stored copies with the latest discovery data
+export const syncCompared = (compared: FoodSpot[], spots: FoodSpot[]): FoodSpot[] => {
+  const byId = new Map(spots.map(s => [s.id, s]));
+  if (!compared.some(s => byId.has(s.id))) return compared;
+  return compared.map(s => byId.get(s.id) ?? s);
+};
+
+const RADAR_DIMENSIONS: (keyof RankingWeights)[] = ['sentiment', 'trending', 'velocity', 'confidence', 'sources', 'distance'];
+
+// One row per score dimension with a 0-100 value per spot id, as recharts' RadarChart expects
+export const buildRadarData = (spots: FoodSpot[], center: Coordinates): Record<string, string | number>[] => {
+  const signals = spots.map(spot => ({ id: spot.id, values: normalizeSignals(spot, center) }));
+  return RADAR_DIMENSIONS.map(key => {
+    const row: Record<string, string | number> = { dimension: WEIGHT_LABELS[key] };
+    signals.forEach(({ id, values }) => {
+      row[id] = Math.round((values[key]?.normalized ?? 0) * 100);
+    });
+    return row;
+  });
+};
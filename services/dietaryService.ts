@@ -0,0 +1,83 @@
+import { Allergen, DietaryTag, FoodSpot } from "../types";
+
+// Dietary and allergen vocabulary shared by query parsing, validation and
+// filtering. Explicit attributes from the provider win; spots without any
+// fall back to tags inferred from their own text.
+
+// `short` is the badge text where space is tight (cards, dish rows)
+export const DIETARY_TAGS: { key: DietaryTag; label: string; short: string; pattern: RegExp }[] = [
+  { key: 'vegetarian', label: 'Vegetarian', short: 'V', pattern: /(?<!non[- ])\b(vegetarian|veggie|veg)\b/ },
+  { key: 'vegan', label: 'Vegan', short: 'VG', pattern: /\b(vegan|plant[- ]based)\b/ },
+  { key: 'gluten-free', label: 'Gluten-free', short: 'GF', pattern: /\b(gluten[- ]free|celiac|coeliac)\b/ },
+  { key: 'halal', label: 'Halal', short: 'H', pattern: /\bhalal\b/ },
+  { key: 'kosher', label: 'Kosher', short: 'K', pattern: /\bkosher\b/ },
+  { key: 'dairy-free', label: 'Dairy-free', short: 'DF', pattern: /\b(dairy[- ]free|lactose[- ]free|no dairy)\b/ },
+  { key: 'nut-free', label: 'Nut-free', short: 'NF', pattern: /\b(nut[- ]free|peanut[- ]free|no nuts)\b/ }
+];
+
+export const ALLERGENS: { key: Allergen; label: string }[] = [
+  { key: 'gluten', label: 'Gluten' },
+  { key: 'dairy', label: 'Dairy' },
+  { key: 'eggs', label: 'Eggs' },
+  { key: 'nuts', label: 'Tree nuts' },
+  { key: 'peanuts', label: 'Peanuts' },
+  { key: 'shellfish', label: 'Shellfish' },
+  { key: 'fish', label: 'Fish' },
+  { key: 'soy', label: 'Soy' },
+  { key: 'sesame', label: 'Sesame' }
+];
+
+// Tags that follow from another ("vegan" places suit vegetarians too)
+const IMPLIED: Partial<Record<DietaryTag, DietaryTag[]>> = {
+  vegan: ['vegetarian', 'dairy-free']
+};
+
+export const isDietaryTag = (value: unknown): value is DietaryTag => DIETARY_TAGS.some(t => t.key === value);
+
+export const isAllergen = (value: unknown): value is Allergen => ALLERGENS.some(a => a.key === value);
+
+export const getDietaryLabel = (tag: DietaryTag) => DIETARY_TAGS.find(t => t.key === tag)?.label ?? tag;
+
+export const getAllergenLabel = (allergen: Allergen) => ALLERGENS.find(a => a.key === allergen)?.label ?? allergen;
+
+export const parseDietaryTags = (text: string): DietaryTag[] => {
+  const lower = text.toLowerCase();
+  return DIETARY_TAGS.filter(tag => tag.pattern.test(lower)).map(tag => tag.key);
+};
+
+const withImplied = (tags: Iterable<DietaryTag>): DietaryTag[] => {
+  const set = new Set(tags);
+  set.forEach(tag => IMPLIED[tag]?.forEach(implied => set.add(implied)));
+  return DIETARY_TAGS.map(t => t.key).filter(key => set.has(key));
+};
+
+// False when tags are only inferred from the spot's text
+export const hasDietaryData = (spot: FoodSpot) =>
+  Boolean(spot.dietaryTags?.length || Object.keys(spot.dishAttributes ?? {}).length);
+
+// Spot-level tags plus anything a signature dish qualifies for
+export const getDietaryTags = (spot: FoodSpot): DietaryTag[] => {
+  if (!hasDietaryData(spot)) {
+    return withImplied(parseDietaryTags([spot.cuisine, spot.description, ...spot.bestDishes].join(' ')));
+  }
+  const dishTags = Object.values(spot.dishAttributes ?? {}).flatMap(attributes => attributes.dietary);
+  return withImplied([...(spot.dietaryTags ?? []), ...dishTags]);
+};
+
+export const getDishAttributes = (spot: FoodSpot, dish: string) => spot.dishAttributes?.[dish] ?? null;
+
+export const matchesDietary = (spot: FoodSpot, required: DietaryTag[]): boolean => {
+  if (required.length === 0) return true;
+  const tags = getDietaryTags(spot);
+  return required.every(tag => tags.includes(tag));
+};
+
+// Someone avoiding an allergen needs at least one known-safe signature dish;
+// spots without allergen data can't promise that, so they don't match
+export const hasAllergenSafeDish = (spot: FoodSpot, avoid: Allergen[]): boolean => {
+  if (avoid.length === 0) return true;
+  return spot.bestDishes.some(dish => {
+    const attributes = spot.dishAttributes?.[dish];
+    return attributes !== undefined && !attributes.allergens.some(allergen => avoid.includes(allergen));
+  });
+};
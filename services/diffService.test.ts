@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CHANGE_THRESHOLD, describeDiff, diffSpots } from './diffService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('diffSpots', () => {
+  const { spots } = mockSpots('Kochi, Kerala', 0, 0);
+  const [paragon, kashi, pavilion, district, saravana] = spots;
+
+  it('classifies new, rising, falling and gone spots', () => {
+    const previous = [paragon, kashi, pavilion, district];
+    const next = [
+      { ...paragon, trendingScore: paragon.trendingScore + 8, sentimentScore: paragon.sentimentScore - 2 },
+      { ...kashi, trendingScore: kashi.trendingScore - 10 },
+      { ...pavilion, trendingScore: pavilion.trendingScore + 2 },
+      saravana
+    ];
+
+    const diff = diffSpots(previous, next);
+
+    expect(diff.changes[paragon.id]).toEqual({ kind: 'rising', trendingDelta: 8, sentimentDelta: -2 });
+    expect(diff.changes[kashi.id]).toMatchObject({ kind: 'falling', trendingDelta: -10 });
+    expect(diff.changes[pavilion.id]).toMatchObject({ kind: 'unchanged', trendingDelta: 2 });
+    expect(diff.changes[saravana.id].kind).toBe('new');
+    expect(diff.changes[district.id].kind).toBe('gone');
+    expect(diff.removed).toEqual([district]);
+    expect(diff.counts).toEqual({ new: 1, rising: 1, falling: 1, gone: 1 });
+  });
+
+  it('treats a move of exactly the threshold as significant', () => {
+    const next = [{ ...paragon, trendingScore: paragon.trendingScore - DEFAULT_CHANGE_THRESHOLD }];
+    expect(diffSpots([paragon], next).changes[paragon.id].kind).toBe('falling');
+    expect(diffSpots([paragon], next, DEFAULT_CHANGE_THRESHOLD + 1).changes[paragon.id].kind).toBe('unchanged');
+  });
+
+  it('matches a spot whose id changed by name and location', () => {
+    const renamed = { ...kashi, id: 'kashi-refetched', name: 'Kashi Art Café', trendingScore: kashi.trendingScore + 6 };
+
+    const diff = diffSpots([kashi], [renamed]);
+
+    expect(diff.changes[renamed.id]).toMatchObject({ kind: 'rising', trendingDelta: 6 });
+    expect(diff.removed).toEqual([]);
+    expect(diff.counts.new).toBe(0);
+  });
+
+  it('summarizes the counts', () => {
+    expect(describeDiff(diffSpots([paragon, kashi], [kashi, saravana]))).toBe('1 new, 1 gone');
+    expect(describeDiff(diffSpots(spots, spots))).toBe('no significant changes');
+  });
+});
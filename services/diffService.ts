@@ -0,0 +1,52 @@
+import { FoodSpot, SpotChange, SpotDiff } from "../types";
+import { isSameSpot } from "./identityService";
+
+// Trending moves smaller than this are treated as noise
+export const DEFAULT_CHANGE_THRESHOLD = 5;
+
+const findPrevious = (spot: FoodSpot, previous: FoodSpot[]): FoodSpot | undefined =>
+  previous.find(p => p.id === spot.id) ?? previous.find(p => isSameSpot(p, spot));
+
+// Compares a fresh result against what is on screen. Spots match by stable ID, then fuzzily.
+export const diffSpots = (previous: FoodSpot[], next: FoodSpot[], threshold = DEFAULT_CHANGE_THRESHOLD): SpotDiff => {
+  const changes: Record<string, SpotChange> = {};
+  const matchedPrevious = new Set<string>();
+
+  next.forEach(spot => {
+    const before = findPrevious(spot, previous);
+    if (!before) {
+      changes[spot.id] = { kind: 'new', trendingDelta: 0, sentimentDelta: 0 };
+      return;
+    }
+    matchedPrevious.add(before.id);
+    const trendingDelta = spot.trendingScore - before.trendingScore;
+    const sentimentDelta = spot.sentimentScore - before.sentimentScore;
+    const kind = trendingDelta >= threshold ? 'rising' : trendingDelta <= -threshold ? 'falling' : 'unchanged';
+    changes[spot.id] = { kind, trendingDelta, sentimentDelta };
+  });
+
+  const removed = previous.filter(p => !matchedPrevious.has(p.id));
+  removed.forEach(spot => {
+    changes[spot.id] = { kind: 'gone', trendingDelta: 0, sentimentDelta: 0 };
+  });
+
+  const count = (kind: SpotChange['kind']) => Object.values(changes).filter(c => c.kind === kind).length;
+
+  return {
+    changes,
+    removed,
+    counts: { new: count('new'), rising: count('rising'), falling: count('falling'), gone: count('gone') },
+    comparedAt: new Date().toISOString()
+  };
+};
+
+export const describeDiff = (diff: SpotDiff): string => {
+  const { counts } = diff;
+  const parts = [
+    counts.new > 0 && `${counts.new} new`,
+    counts.rising > 0 && `${counts.rising} rising`,
+    counts.falling > 0 && `${counts.falling} falling`,
+    counts.gone > 0 && `${counts.gone} gone`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no significant changes';
+};
@@ -0,0 +1,144 @@
+import { DiscoveryProvider, DiscoveryRequest, DiscoveryResult, DiscoveryStreamEvent } from "../types";
+import { createCache, createDefaultBackend } from "./cacheService";
+import { getBoundsRadiusKm } from "./geo";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createFixtureProvider } from "./providers/fixtureProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createRateLimiter, createResilientProvider, DEFAULT_RESILIENCE_CONFIG, ResilienceConfig } from "./resilienceService";
+
+export type ProviderId = 'gemini' | 'mock' | 'fixture' | 'openai-compatible';
+
+// Selects the backend from env (see vite.config.ts). Falls back to mock data when nothing usable is configured.
+export const createProviderFromEnv = (): DiscoveryProvider => {
+  const requested = (process.env.DISCOVERY_PROVIDER || '') as ProviderId | '';
+
+  switch (requested) {
+    case 'mock':
+      return createMockProvider();
+    case 'fixture':
+      if (process.env.DISCOVERY_FIXTURE_URL) return createFixtureProvider(process.env.DISCOVERY_FIXTURE_URL);
+      console.warn("DISCOVERY_FIXTURE_URL not set. Using mock data.");
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+        model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+        apiKey: process.env.LOCAL_LLM_API_KEY
+      });
+    case 'gemini':
+    default:
+      if (process.env.API_KEY) return createGeminiProvider(process.env.API_KEY);
+      console.warn("No API Key provided. Returning mock data.");
+      return createMockProvider();
+  }
+};
+
+// Persistent cache for successful discoveries, so reloads don't re-hit the provider
+const discoveryCache = createCache<DiscoveryResult>({
+  backend: createDefaultBackend('foodifind-discovery-cache'),
+  ttlMs: 6 * 60 * 60 * 1000,
+  maxEntries: 50
+});
+
+const normalizeQuery = (query: string) => query.toLowerCase().trim().replace(/\s+/g, ' ');
+
+const queryTag = (query: string) => `query:${normalizeQuery(query)}`;
+
+// Coordinates are rounded to ~1km so tiny GPS drift still hits the cache
+export const buildCacheKey = (query: string, lat: number, lng: number) =>
+  `${normalizeQuery(query)}@${lat.toFixed(2)},${lng.toFixed(2)}`;
+
+// Invalidation hook: drop cached results for one query (any position), or everything
+export const invalidateDiscoveryCache = async (query?: string): Promise<void> => {
+  if (query) {
+    await discoveryCache.invalidateTag(queryTag(query));
+  } else {
+    await discoveryCache.clear();
+  }
+};
+
+// A cached live result is reported as 'cache'; demo data stays 'mock' wherever it was stored
+const fromCache = (result: DiscoveryResult): DiscoveryResult => ({
+  ...result,
+  source: result.source === 'mock' ? 'mock' : 'cache'
+});
+
+// Wraps a provider with the discovery cache. Provider errors propagate so the
+// UI can report them; nothing is substituted for a failed live search.
+export const createDiscoveryService = (provider: DiscoveryProvider): DiscoveryProvider => {
+  // An area search at another zoom level covers different ground, so its extent is part of the key
+  const keysFor = ({ query, center, bounds }: DiscoveryRequest) => ({
+    cacheKey: buildCacheKey(query, center.lat, center.lng) + (bounds ? `~${getBoundsRadiusKm(bounds).toFixed(1)}km` : ''),
+    tags: [queryTag(query)]
+  });
+
+  const discover = async (request: DiscoveryRequest): Promise<DiscoveryResult> => {
+    const { cacheKey, tags } = keysFor(request);
+
+    // 1. Check Cache
+    const cached = request.bypassCache ? undefined : await discoveryCache.get(cacheKey);
+    if (cached) {
+      return fromCache(cached);
+    }
+
+    // 2. Save to Cache
+    const result = await provider.discover(request);
+    await discoveryCache.set(cacheKey, result, { tags });
+    return result;
+  };
+
+  // Cache hits and providers that can't stream degrade to a single 'done' event
+  const discoverStream = async function* (request: DiscoveryRequest): AsyncGenerator<DiscoveryStreamEvent> {
+    const { cacheKey, tags } = keysFor(request);
+    const cached = request.bypassCache ? undefined : await discoveryCache.get(cacheKey);
+    if (cached || !provider.discoverStream) {
+      yield { type: 'done', result: cached ? fromCache(cached) : await discover(request) };
+      return;
+    }
+
+    for await (const event of provider.discoverStream(request)) {
+      if (event.type === 'done') {
+        await discoveryCache.set(cacheKey, event.result, { tags });
+      }
+      yield event;
+    }
+  };
+
+  return {
+    id: provider.id,
+    label: provider.label,
+    geocode: provider.geocode,
+    parseQuery: provider.parseQuery,
+    discover,
+    discoverStream
+  };
+};
+
+const envNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Optional overrides from env (see vite.config.ts)
+export const resilienceConfigFromEnv = (): ResilienceConfig => ({
+  ...DEFAULT_RESILIENCE_CONFIG,
+  timeoutMs: envNumber(process.env.DISCOVERY_TIMEOUT_MS, DEFAULT_RESILIENCE_CONFIG.timeoutMs),
+  maxRetries: envNumber(process.env.DISCOVERY_MAX_RETRIES, DEFAULT_RESILIENCE_CONFIG.maxRetries),
+  requestsPerMinute: envNumber(process.env.DISCOVERY_REQUESTS_PER_MINUTE, DEFAULT_RESILIENCE_CONFIG.requestsPerMinute),
+  dailyQuota: envNumber(process.env.DISCOVERY_DAILY_QUOTA, DEFAULT_RESILIENCE_CONFIG.dailyQuota)
+});
+
+const resilienceConfig = resilienceConfigFromEnv();
+
+// Shared so the UI can show how much of the quota is used
+export const discoveryRateLimiter = createRateLimiter(resilienceConfig);
+
+const baseProvider = createProviderFromEnv();
+
+// Demo and fixture data are canned, never live, so they skip timeouts and the quota
+const LOCAL_PROVIDERS: string[] = ['mock', 'fixture'];
+
+export const discoveryProvider: DiscoveryProvider = createDiscoveryService(
+  LOCAL_PROVIDERS.includes(baseProvider.id) ? baseProvider : createResilientProvider(baseProvider, resilienceConfig, discoveryRateLimiter)
+);
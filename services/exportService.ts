@@ -0,0 +1,191 @@
+import { CrawlPlan, FoodSpot } from "../types";
+
+// Serializers for sharing spots outside the app. JSON round-trips through importService;
+// the other formats target spreadsheets, GIS and navigation tools.
+
+export type ExportFormat = 'json' | 'csv' | 'geojson' | 'gpx' | 'kml';
+
+export const EXPORT_FORMATS: { key: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { key: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { key: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { key: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  { key: 'gpx', label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  { key: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' }
+];
+
+const CSV_COLUMNS: { header: string; value: (spot: FoodSpot) => string | number }[] = [
+  { header: 'id', value: s => s.id },
+  { header: 'name', value: s => s.name },
+  { header: 'cuisine', value: s => s.cuisine },
+  { header: 'address', value: s => s.address },
+  { header: 'priceRange', value: s => s.priceRange },
+  { header: 'latitude', value: s => s.coordinates.lat },
+  { header: 'longitude', value: s => s.coordinates.lng },
+  { header: 'sentimentScore', value: s => s.sentimentScore },
+  { header: 'trendingScore', value: s => s.trendingScore },
+  { header: 'popularityVelocity', value: s => s.popularityVelocity },
+  { header: 'aiConfidence', value: s => s.aiConfidence },
+  { header: 'bestDishes', value: s => s.bestDishes.join('; ') },
+  { header: 'dietaryTags', value: s => (s.dietaryTags ?? []).join('; ') },
+  { header: 'allergens', value: s => (s.allergens ?? []).join('; ') },
+  { header: 'description', value: s => s.description },
+  { header: 'lastUpdated', value: s => s.lastUpdated }
+];
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Ranking and validation metadata are relative to one session, so they are not exported
+const stripSessionFields = ({ ranking, validationWarnings, ...spot }: FoodSpot): FoodSpot => spot;
+
+// Bumped when the JSON layout changes in a way older readers can't follow
+export const EXPORT_VERSION = 1;
+
+export const toJSON = (spots: FoodSpot[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, spots: spots.map(stripSessionFields) }, null, 2);
+
+export const toCSV = (spots: FoodSpot[]): string =>
+  [
+    CSV_COLUMNS.map(c => c.header).join(','),
+    ...spots.map(spot => CSV_COLUMNS.map(c => escapeCsv(c.value(spot))).join(','))
+  ].join('\r\n');
+
+export const toGeoJSON = (spots: FoodSpot[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: spots.map(spot => {
+      const { coordinates, ...properties } = stripSessionFields(spot);
+      return {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [coordinates.lng, coordinates.lat] },
+        properties
+      };
+    })
+  }, null, 2);
+
+const describe = (spot: FoodSpot) => `${spot.cuisine} · ${spot.priceRange} · ${spot.address}. ${spot.description}`;
+
+export const toGPX = (spots: FoodSpot[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<gpx version="1.1" creator="FoodiFind" xmlns="http://www.topografix.com/GPX/1/1">',
+  ...spots.map(spot => [
+    `  <wpt lat="${spot.coordinates.lat}" lon="${spot.coordinates.lng}">`,
+    `    <name>${escapeXml(spot.name)}</name>`,
+    `    <desc>${escapeXml(describe(spot))}</desc>`,
+    `    <type>${escapeXml(spot.cuisine)}</type>`,
+    '  </wpt>'
+  ].join('\n')),
+  '</gpx>'
+].join('\n');
+
+export const toKML = (spots: FoodSpot[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<kml xmlns="http://www.opengis.net/kml/2.2">',
+  '  <Document>',
+  '    <name>FoodiFind Spots</name>',
+  ...spots.map(spot => [
+    '    <Placemark>',
+    `      <name>${escapeXml(spot.name)}</name>`,
+    `      <description>${escapeXml(describe(spot))}</description>`,
+    `      <Point><coordinates>${spot.coordinates.lng},${spot.coordinates.lat},0</coordinates></Point>`,
+    '    </Placemark>'
+  ].join('\n')),
+  '  </Document>',
+  '</kml>'
+].join('\n');
+
+const SERIALIZERS: Record<ExportFormat, (spots: FoodSpot[]) => string> = {
+  json: toJSON,
+  csv: toCSV,
+  geojson: toGeoJSON,
+  gpx: toGPX,
+  kml: toKML
+};
+
+export const exportSpots = (spots: FoodSpot[], format: ExportFormat): string => SERIALIZERS[format](spots);
+
+const downloadText = (content: string, format: ExportFormat, baseName: string) => {
+  const meta = EXPORT_FORMATS.find(f => f.key === format)!;
+  const blob = new Blob([content], { type: meta.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName.replace(/[^a-z0-9-_]+/gi, '-').toLowerCase()}.${meta.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Triggers a browser download of the serialized spots
+export const downloadSpots = (spots: FoodSpot[], format: ExportFormat, baseName = 'foodifind-spots') =>
+  downloadText(exportSpots(spots, format), format, baseName);
+
+// Crawl plans: JSON keeps the full plan, GPX/KML carry the ordered route for navigation apps
+export type CrawlExportFormat = Extract<ExportFormat, 'json' | 'gpx' | 'kml'>;
+
+export const CRAWL_EXPORT_FORMATS = EXPORT_FORMATS.filter(
+  (f): f is typeof f & { key: CrawlExportFormat } => f.key === 'json' || f.key === 'gpx' || f.key === 'kml'
+);
+
+const describeLeg = (plan: CrawlPlan, index: number) => {
+  const leg = plan.legs[index];
+  return `Stop ${index + 1}: ${leg.distanceKm} km, ~${leg.walkMinutes} min walk`;
+};
+
+export const crawlToJSON = (plan: CrawlPlan): string =>
+  JSON.stringify({ ...plan, stops: plan.stops.map(stripSessionFields) }, null, 2);
+
+export const crawlToGPX = (plan: CrawlPlan): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<gpx version="1.1" creator="FoodiFind" xmlns="http://www.topografix.com/GPX/1/1">',
+  '  <rte>',
+  `    <name>${escapeXml(plan.name)}</name>`,
+  `    <rtept lat="${plan.start.lat}" lon="${plan.start.lng}"><name>${escapeXml(plan.startLabel)}</name></rtept>`,
+  ...plan.stops.map((spot, i) =>
+    `    <rtept lat="${spot.coordinates.lat}" lon="${spot.coordinates.lng}"><name>${escapeXml(spot.name)}</name><desc>${escapeXml(describeLeg(plan, i))}</desc></rtept>`
+  ),
+  '  </rte>',
+  '</gpx>'
+].join('\n');
+
+export const crawlToKML = (plan: CrawlPlan): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<kml xmlns="http://www.opengis.net/kml/2.2">',
+  '  <Document>',
+  `    <name>${escapeXml(plan.name)}</name>`,
+  '    <Placemark>',
+  '      <name>Route</name>',
+  `      <description>${plan.totalKm} km, ~${plan.totalMinutes} min walk</description>`,
+  `      <LineString><coordinates>${[plan.start, ...plan.stops.map(s => s.coordinates)].map(c => `${c.lng},${c.lat},0`).join(' ')}</coordinates></LineString>`,
+  '    </Placemark>',
+  ...plan.stops.map((spot, i) => [
+    '    <Placemark>',
+    `      <name>${i + 1}. ${escapeXml(spot.name)}</name>`,
+    `      <description>${escapeXml(describeLeg(plan, i))}</description>`,
+    `      <Point><coordinates>${spot.coordinates.lng},${spot.coordinates.lat},0</coordinates></Point>`,
+    '    </Placemark>'
+  ].join('\n')),
+  '  </Document>',
+  '</kml>'
+].join('\n');
+
+const CRAWL_SERIALIZERS: Record<CrawlExportFormat, (plan: CrawlPlan) => string> = {
+  json: crawlToJSON,
+  gpx: crawlToGPX,
+  kml: crawlToKML
+};
+
+export const downloadCrawlPlan = (plan: CrawlPlan, format: CrawlExportFormat) =>
+  downloadText(CRAWL_SERIALIZERS[format](plan), format, plan.name);
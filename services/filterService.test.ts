@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { applyFilters, countActiveFilters, DEFAULT_FILTERS, getCuisineOptions } from './filterService';
+import { rankSpots } from './rankingService';
+import { getDietaryTags } from './dietaryService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('applyFilters', () => {
+  const { spots, center } = mockSpots('Kochi, Kerala', 0, 0);
+  const names = (list: typeof spots) => list.map(s => s.name);
+
+  it('keeps every spot with the default filters', () => {
+    expect(applyFilters(spots, DEFAULT_FILTERS, center)).toHaveLength(spots.length);
+    expect(countActiveFilters(DEFAULT_FILTERS)).toBe(0);
+  });
+
+  it('matches cuisine and price exactly', () => {
+    const filters = { ...DEFAULT_FILTERS, cuisines: ['Cafe', 'Seafood'], priceRanges: ['Medium' as const] };
+    expect(names(applyFilters(spots, filters, center))).toEqual(['Kashi Art Cafe']);
+    expect(countActiveFilters(filters)).toBe(2);
+  });
+
+  it('applies score floors and the distance limit', () => {
+    expect(names(applyFilters(spots, { ...DEFAULT_FILTERS, minSentiment: 91, minTrending: 80 }, center)))
+      .toEqual(['Paragon Restaurant', 'Kashi Art Cafe']);
+    expect(names(applyFilters(spots, { ...DEFAULT_FILTERS, maxDistanceKm: 0.6 }, center)))
+      .toEqual(['Paragon Restaurant', 'Grand Pavilion']);
+  });
+
+  it('filters on dietary needs and allergens', () => {
+    const vegetarian = applyFilters(spots, { ...DEFAULT_FILTERS, dietary: ['vegetarian'] }, center);
+    expect(vegetarian.every(s => getDietaryTags(s).includes('vegetarian'))).toBe(true);
+    expect(names(vegetarian)).toContain('Saravana Bhavan');
+    expect(names(vegetarian)).not.toContain('Grand Pavilion');
+    const noFish = applyFilters(spots, { ...DEFAULT_FILTERS, avoidAllergens: ['fish', 'shellfish'] }, center);
+    expect(names(noFish)).not.toContain('Grand Pavilion');
+  });
+
+  it('sorts by the chosen key, falling back to rank', () => {
+    expect(names(applyFilters(spots, { ...DEFAULT_FILTERS, sortBy: 'trending' }, center))[0]).toBe('District 7 Restro Cafe');
+    expect(names(applyFilters(spots, { ...DEFAULT_FILTERS, sortBy: 'velocity' }, center)).at(-1)).toBe('Grand Pavilion');
+    expect(names(applyFilters(spots, { ...DEFAULT_FILTERS, sortBy: 'distance' }, center))[0]).toBe('Paragon Restaurant');
+    const ranked = rankSpots(spots, center);
+    expect(applyFilters([...ranked].reverse(), DEFAULT_FILTERS, center).map(s => s.ranking?.rank)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('lists cuisines alphabetically without duplicates', () => {
+    expect(getCuisineOptions([...spots, spots[0]])).toEqual([...new Set(spots.map(s => s.cuisine))].sort((a, b) => a.localeCompare(b)));
+  });
+});
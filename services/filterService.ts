@@ -0,0 +1,77 @@
+import { FoodSpot, FilterState, Coordinates, PriceRange, SortKey } from "../types";
+import { distanceKm } from "./geo";
+import { hasAllergenSafeDish, matchesDietary } from "./dietaryService";
+import { isOpenAt, resolveOpenCheck } from "./hoursService";
+
+export const PRICE_RANGES: PriceRange[] = ['Low', 'Medium', 'High', 'Luxury'];
+
+export const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'score', label: 'Rank' },
+  { key: 'trending', label: 'Trending' },
+  { key: 'sentiment', label: 'Sentiment' },
+  { key: 'velocity', label: 'Velocity' },
+  { key: 'distance', label: 'Distance' }
+];
+
+export const DEFAULT_FILTERS: FilterState = {
+  cuisines: [],
+  priceRanges: [],
+  minSentiment: 0,
+  minTrending: 0,
+  minConfidence: 0,
+  maxDistanceKm: null,
+  dietary: [],
+  avoidAllergens: [],
+  openAt: null,
+  sortBy: 'score'
+};
+
+// Unique cuisines across a result set, in alphabetical order
+export const getCuisineOptions = (spots: FoodSpot[]): string[] =>
+  Array.from(new Set(spots.map(s => s.cuisine).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const countActiveFilters = (filters: FilterState): number => {
+  let count = 0;
+  if (filters.cuisines.length > 0) count++;
+  if (filters.priceRanges.length > 0) count++;
+  if (filters.minSentiment > 0) count++;
+  if (filters.minTrending > 0) count++;
+  if (filters.minConfidence > 0) count++;
+  if (filters.maxDistanceKm !== null) count++;
+  if (filters.dietary.length > 0) count++;
+  if (filters.avoidAllergens.length > 0) count++;
+  if (filters.openAt !== null) count++;
+  return count;
+};
+
+export const matchesFilters = (spot: FoodSpot, filters: FilterState, center: Coordinates, now: Date = new Date()): boolean => {
+  if (filters.cuisines.length > 0 && !filters.cuisines.includes(spot.cuisine)) return false;
+  if (filters.priceRanges.length > 0 && !filters.priceRanges.includes(spot.priceRange)) return false;
+  if ((spot.sentimentScore ?? 0) < filters.minSentiment) return false;
+  if ((spot.trendingScore ?? 0) < filters.minTrending) return false;
+  if ((spot.aiConfidence ?? 0) < filters.minConfidence) return false;
+  if (filters.maxDistanceKm !== null && distanceKm(center, spot.coordinates) > filters.maxDistanceKm) return false;
+  if (!matchesDietary(spot, filters.dietary)) return false;
+  if (!hasAllergenSafeDish(spot, filters.avoidAllergens)) return false;
+  if (filters.openAt !== null && !isOpenAt(spot.openingHours, resolveOpenCheck(filters.openAt, now))) return false;
+  return true;
+};
+
+const compareSpots = (sortBy: SortKey, center: Coordinates) => (a: FoodSpot, b: FoodSpot): number => {
+  switch (sortBy) {
+    case 'score': return (a.ranking?.rank ?? Infinity) - (b.ranking?.rank ?? Infinity);
+    case 'sentiment': return (b.sentimentScore ?? 0) - (a.sentimentScore ?? 0);
+    case 'velocity': return (b.popularityVelocity ?? 0) - (a.popularityVelocity ?? 0);
+    case 'distance': return distanceKm(center, a.coordinates) - distanceKm(center, b.coordinates);
+    case 'trending':
+    default: return (b.trendingScore ?? 0) - (a.trendingScore ?? 0);
+  }
+};
+
+// Pure filter + sort pass shared by the sidebar list and the map markers.
+// Ties keep the original (model) order since Array.prototype.sort is stable.
+// `now` is passed in so "open now" re-evaluates when the caller's clock ticks.
+export const applyFilters = (spots: FoodSpot[], filters: FilterState, center: Coordinates, now: Date = new Date()): FoodSpot[] =>
+  spots
+    .filter(spot => matchesFilters(spot, filters, center, now))
+    .sort(compareSpots(filters.sortBy, center));
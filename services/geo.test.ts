@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getBoundsCenter, getBoundsRadiusKm, isWithinBounds } from './geo';
+
+describe('map bounds', () => {
+  const kochi = { north: 10.0, south: 9.9, east: 76.35, west: 76.2 };
+  const dateLine = { north: -16.0, south: -18.0, east: -179.0, west: 178.0 };
+
+  it('keeps points inside the visible area only', () => {
+    expect(isWithinBounds({ lat: 9.95, lng: 76.3 }, kochi)).toBe(true);
+    expect(isWithinBounds({ lat: 10.05, lng: 76.3 }, kochi)).toBe(false);
+    expect(isWithinBounds({ lat: 9.95, lng: 76.4 }, kochi)).toBe(false);
+  });
+
+  it('handles an area across the antimeridian', () => {
+    expect(isWithinBounds({ lat: -17, lng: 179.5 }, dateLine)).toBe(true);
+    expect(isWithinBounds({ lat: -17, lng: -179.5 }, dateLine)).toBe(true);
+    expect(isWithinBounds({ lat: -17, lng: 0 }, dateLine)).toBe(false);
+    expect(getBoundsCenter(dateLine)).toEqual({ lat: -17, lng: 179.5 });
+  });
+
+  it('measures the radius from center to corner', () => {
+    expect(getBoundsCenter(kochi)).toEqual({ lat: 9.95, lng: 76.275 });
+    expect(getBoundsRadiusKm(kochi)).toBeCloseTo(9.92, 1);
+  });
+});
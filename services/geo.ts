@@ -0,0 +1,40 @@
+import { Coordinates, MapBounds } from "../types";
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle distance between two points using the haversine formula
+export const distanceKm = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+// West > east means the area crosses the antimeridian
+export const isWithinBounds = (point: Coordinates, bounds: MapBounds): boolean =>
+  point.lat >= bounds.south && point.lat <= bounds.north &&
+  (bounds.west <= bounds.east
+    ? point.lng >= bounds.west && point.lng <= bounds.east
+    : point.lng >= bounds.west || point.lng <= bounds.east);
+
+export const getBoundsCenter = (bounds: MapBounds): Coordinates => ({
+  lat: (bounds.north + bounds.south) / 2,
+  lng: bounds.west <= bounds.east
+    ? (bounds.west + bounds.east) / 2
+    : (((bounds.west + bounds.east + 360) / 2 + 180) % 360) - 180
+});
+
+// Bounds restored from a URL are rounded, so equality allows for that
+export const sameBounds = (a: MapBounds | undefined, b: MapBounds | undefined): boolean =>
+  a === b || (!!a && !!b && (['north', 'south', 'east', 'west'] as const).every(key => Math.abs(a[key] - b[key]) < 1e-5));
+
+// Center-to-corner distance: the radius of a circle covering the whole area
+export const getBoundsRadiusKm = (bounds: MapBounds): number =>
+  distanceKm(getBoundsCenter(bounds), { lat: bounds.north, lng: bounds.east });
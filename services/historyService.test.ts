@@ -0,0 +1,25 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getHistory, recordSnapshots } from './historyService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('recordSnapshots', () => {
+  const spot = mockSpots('Kochi, Kerala', 0, 0).spots[0];
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); }
+    });
+  });
+
+  it('records reported mentions', () => {
+    recordSnapshots([spot], 1000);
+    expect(getHistory(spot)[0].mentions).toBe(spot.influencerData.sourceCount);
+  });
+
+  it('leaves mentions out when the count is unknown', () => {
+    recordSnapshots([{ ...spot, influencerData: { ...spot.influencerData, sourceCount: undefined } }], 1000);
+    expect(getHistory(spot)[0]).not.toHaveProperty('mentions');
+  });
+});
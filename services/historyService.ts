@@ -0,0 +1,93 @@
+import { FoodSpot, MetricSnapshot } from "../types";
+
+// Local time-series store of spot metrics, one series per spot identity.
+// Persisted to localStorage as a single JSON document.
+
+const HISTORY_STORAGE_KEY = 'foodifind-spot-history';
+const MAX_POINTS_PER_SPOT = 200;
+// Re-serving a cached result shouldn't add a point unless something changed
+const MIN_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HistoryRange = '7d' | '30d' | 'all';
+
+export const HISTORY_RANGES: { key: HistoryRange; label: string }[] = [
+  { key: '7d', label: '7D' },
+  { key: '30d', label: '30D' },
+  { key: 'all', label: 'All' }
+];
+
+type HistoryStore = Record<string, MetricSnapshot[]>;
+
+// Spot IDs are stable across searches (see identityService), so they key the series directly
+export const getHistoryKey = (spot: FoodSpot): string => spot.id;
+
+const loadStore = (): HistoryStore => {
+  try {
+    const raw = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveStore = (store: HistoryStore) => {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn("Could not persist spot history:", error);
+  }
+};
+
+const toSnapshot = (spot: FoodSpot, timestamp: number): MetricSnapshot => {
+  const snapshot: MetricSnapshot = {
+    timestamp,
+    trendingScore: spot.trendingScore,
+    sentimentScore: spot.sentimentScore,
+    popularityVelocity: spot.popularityVelocity
+  };
+  // An unreported count is a gap in the series, not zero mentions
+  const mentions = spot.influencerData?.sourceCount;
+  if (mentions !== undefined) snapshot.mentions = mentions;
+  return snapshot;
+};
+
+const sameMetrics = (a: MetricSnapshot, b: MetricSnapshot) =>
+  a.trendingScore === b.trendingScore &&
+  a.sentimentScore === b.sentimentScore &&
+  a.popularityVelocity === b.popularityVelocity &&
+  a.mentions === b.mentions;
+
+// Appends one snapshot per spot; returns how many series received a new point
+export const recordSnapshots = (spots: FoodSpot[], timestamp = Date.now()): number => {
+  const store = loadStore();
+  let recorded = 0;
+
+  spots.forEach(spot => {
+    const key = getHistoryKey(spot);
+    const series = store[key] ?? [];
+    const snapshot = toSnapshot(spot, timestamp);
+    const last = series[series.length - 1];
+
+    if (last && timestamp - last.timestamp < MIN_SNAPSHOT_INTERVAL_MS && sameMetrics(last, snapshot)) {
+      return;
+    }
+
+    store[key] = [...series, snapshot].slice(-MAX_POINTS_PER_SPOT);
+    recorded++;
+  });
+
+  if (recorded > 0) saveStore(store);
+  return recorded;
+};
+
+export const getHistory = (spot: FoodSpot, range: HistoryRange = 'all', now = Date.now()): MetricSnapshot[] => {
+  const series = loadStore()[getHistoryKey(spot)] ?? [];
+  if (range === 'all') return series;
+  const cutoff = now - (range === '7d' ? 7 : 30) * DAY_MS;
+  return series.filter(s => s.timestamp >= cutoff);
+};
+
+export const clearHistory = () => {
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { OpeningHours } from '../types';
+import { getOpenStatus, isOpenAt, OpenCheck, resolveOpenCheck } from './hoursService';
+import { mockSpots } from './providers/mockProvider';
+
+const hoursOf = (place: string, name: string): OpeningHours => {
+  const spot = mockSpots(place, 0, 0).spots.find(s => s.name === name);
+  if (!spot?.openingHours) throw new Error(`No mock hours for ${name}`);
+  return spot.openingHours;
+};
+
+const at = (iso: string): OpenCheck => ({ kind: 'instant', date: new Date(iso) });
+
+describe('getOpenStatus', () => {
+  describe('Kochi (Asia/Kolkata, no DST)', () => {
+    const paragon = hoursOf('Kochi, Kerala', 'Paragon Restaurant');
+    const district7 = hoursOf('Kochi, Kerala', 'District 7 Restro Cafe');
+
+    it('reads the clock in the spot timezone', () => {
+      // 05:00 UTC is 10:30 in Kochi
+      expect(getOpenStatus(paragon, at('2025-06-15T05:00:00Z'))).toEqual({ state: 'closed', label: 'Closed · Opens 11:00' });
+      expect(getOpenStatus(paragon, at('2025-06-15T06:00:00Z'))).toEqual({ state: 'open', label: 'Open until 23:00' });
+      expect(getOpenStatus(paragon, at('2025-06-15T17:00:00Z'))).toEqual({ state: 'closing-soon', label: 'Closes in 30 min' });
+    });
+
+    it('keeps a Saturday-night period open into Sunday', () => {
+      // Saturday 12:00–02:00; 20:00 UTC Saturday is 01:30 Sunday in Kochi
+      expect(getOpenStatus(district7, at('2025-06-14T19:00:00Z'))).toEqual({ state: 'open', label: 'Open until 02:00' });
+      expect(getOpenStatus(district7, at('2025-06-14T20:00:00Z'))).toEqual({ state: 'closing-soon', label: 'Closes in 30 min' });
+      expect(getOpenStatus(district7, at('2025-06-14T21:00:00Z'))).toEqual({ state: 'closed', label: 'Closed · Opens 12:00' });
+    });
+  });
+
+  describe('Paris (Europe/Paris, DST starts 2025-03-30 01:00 UTC)', () => {
+    const bistrot = hoursOf('Paris', 'Le Bistrot');
+    const flore = hoursOf('Paris', 'Cafe de Flore');
+
+    it('follows the clock change at the same UTC time', () => {
+      // 10:30 UTC is 11:30 CET on Saturday but 12:30 CEST on Sunday
+      expect(getOpenStatus(bistrot, at('2025-03-29T10:30:00Z'))).toEqual({ state: 'closed', label: 'Closed · Opens 12:00' });
+      expect(getOpenStatus(bistrot, at('2025-03-30T10:30:00Z'))).toEqual({ state: 'open', label: 'Open until 14:30' });
+    });
+
+    it('handles a Saturday-night period on the night the clocks change', () => {
+      // Saturday 07:30–01:30; 00:15 UTC is 01:15 CET, before the switch
+      expect(getOpenStatus(flore, at('2025-03-30T00:15:00Z'))).toEqual({ state: 'closing-soon', label: 'Closes in 15 min' });
+      // 01:00 UTC is 03:00 CEST, past closing
+      expect(getOpenStatus(flore, at('2025-03-30T01:00:00Z'))).toEqual({ state: 'closed', label: 'Closed · Opens 07:30' });
+    });
+  });
+
+  describe('New York (America/New_York)', () => {
+    const katz = hoursOf('New York', "Katz's Delicatessen");
+    const joes = hoursOf('New York', "Joe's Pizza");
+    const xian = hoursOf('New York', "Xi'an Famous Foods");
+
+    it('follows the spring-forward change (2025-03-09 07:00 UTC)', () => {
+      // 15:30 UTC is 10:30 EST on Saturday but 11:30 EDT on Sunday
+      expect(getOpenStatus(xian, at('2025-03-08T15:30:00Z')).state).toBe('closed');
+      expect(getOpenStatus(xian, at('2025-03-09T15:30:00Z'))).toEqual({ state: 'open', label: 'Open until 21:00' });
+    });
+
+    it('keeps Saturday-night periods open across the fall-back change (2025-11-02 06:00 UTC)', () => {
+      // 07:00 UTC is 02:00 EST Sunday; Katz's Saturday hours run until 02:45
+      expect(getOpenStatus(katz, at('2025-11-02T07:00:00Z'))).toEqual({ state: 'closing-soon', label: 'Closes in 45 min' });
+      // 08:30 UTC is 03:30 EST; Joe's Saturday hours run until 04:00
+      expect(getOpenStatus(joes, at('2025-11-02T08:30:00Z'))).toEqual({ state: 'closing-soon', label: 'Closes in 30 min' });
+      expect(getOpenStatus(joes, at('2025-11-02T09:30:00Z'))).toEqual({ state: 'closed', label: 'Closed · Opens 10:00' });
+    });
+
+    it('evaluates a wall-clock check at the spot', () => {
+      expect(getOpenStatus(joes, resolveOpenCheck('2025-11-01T23:50'))).toEqual({ state: 'open', label: 'Open until 04:00' });
+    });
+  });
+
+  describe('contiguous periods', () => {
+    const saturdayEvening = { kind: 'local', day: 6, minutes: 23 * 60 + 40 } as const;
+
+    it('treats round-the-clock hours as open, not closing at midnight', () => {
+      const hours: OpeningHours = {
+        timezone: 'Europe/Paris',
+        periods: [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, open: '00:00', close: '24:00' }))
+      };
+      expect(getOpenStatus(hours, saturdayEvening)).toEqual({ state: 'open', label: 'Open 24 hours' });
+    });
+
+    it('merges a period ending at midnight with the next day opening at midnight', () => {
+      const hours: OpeningHours = {
+        timezone: 'Asia/Kolkata',
+        periods: [{ day: 6, open: '18:00', close: '24:00' }, { day: 0, open: '00:00', close: '02:00' }]
+      };
+      expect(getOpenStatus(hours, saturdayEvening)).toEqual({ state: 'open', label: 'Open until 02:00' });
+      expect(getOpenStatus(hours, { kind: 'local', day: 0, minutes: 90 })).toEqual({ state: 'closing-soon', label: 'Closes in 30 min' });
+    });
+
+    it('merges overlapping periods', () => {
+      const hours: OpeningHours = {
+        timezone: 'America/New_York',
+        periods: [{ day: 5, open: '12:00', close: '23:00' }, { day: 5, open: '22:00', close: '01:00' }]
+      };
+      expect(getOpenStatus(hours, { kind: 'local', day: 5, minutes: 22 * 60 + 40 })).toEqual({ state: 'open', label: 'Open until 01:00' });
+    });
+  });
+});
+
+describe('isOpenAt', () => {
+  const paragon = hoursOf('Kochi, Kerala', 'Paragon Restaurant');
+
+  it('counts closing-soon as open', () => {
+    expect(isOpenAt(paragon, at('2025-06-15T17:00:00Z'))).toBe(true);
+  });
+
+  it('is false outside opening hours', () => {
+    expect(isOpenAt(paragon, at('2025-06-15T20:00:00Z'))).toBe(false);
+  });
+
+  it('keeps spots with unknown hours', () => {
+    expect(isOpenAt(undefined, at('2025-06-15T20:00:00Z'))).toBe(true);
+  });
+});
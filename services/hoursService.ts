@@ -0,0 +1,153 @@
+import { OpeningHours, OpeningPeriod } from "../types";
+
+// Opening-hours status computed client-side. Every comparison happens in the
+// spot's own timezone, so a Paris bistro shows the right status from Kochi.
+
+export type OpenState = 'open' | 'closing-soon' | 'closed' | 'unknown';
+
+export interface OpenStatus {
+  state: OpenState;
+  label: string;
+}
+
+// When to evaluate hours: a real instant (converted into each spot's zone),
+// or a wall-clock time at the spot ("Friday 19:30 wherever the spot is")
+export type OpenCheck =
+  | { kind: 'instant'; date: Date }
+  | { kind: 'local'; day: number; minutes: number };
+
+export const CLOSES_SOON_MINUTES = 45;
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "7:30" or "07:30" to minutes after midnight; "24:00" is allowed as a closing time
+export const parseTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+};
+
+export const formatTime = (minutes: number): string => {
+  const wrapped = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// Day of week and minutes after midnight of an instant, as seen in `timezone`
+export const getZonedTime = (date: Date, timezone: string): { day: number; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute'))
+  };
+};
+
+// 'now' or "YYYY-MM-DDTHH:MM" from the filter; anything else falls back to now
+export const resolveOpenCheck = (openAt: string | null, now: Date = new Date()): OpenCheck => {
+  const match = openAt ? /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(openAt) : null;
+  if (!match) return { kind: 'instant', date: now };
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  // Calendar weekday of the chosen date, independent of any timezone
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return { kind: 'local', day: weekday, minutes: hours * 60 + minutes };
+};
+
+// Period as [start, end) in minutes since Sunday 00:00
+const toWeekRange = (period: OpeningPeriod): [number, number] | null => {
+  const open = parseTime(period.open);
+  const close = parseTime(period.close);
+  if (open === null || close === null) return null;
+  const start = period.day * MINUTES_PER_DAY + open;
+  const length = close > open ? close - open : close + MINUTES_PER_DAY - open;
+  return [start, start + length];
+};
+
+// Back-to-back or overlapping periods as continuous stretches, so 18:00–24:00
+// followed by 00:00–02:00 closes at 02:00 rather than at midnight
+const mergeRanges = (ranges: [number, number][]): [number, number][] => {
+  const merged: [number, number][] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  // A stretch running past Saturday midnight continues into Sunday's first one
+  const first = merged[0];
+  const last = merged[merged.length - 1];
+  if (merged.length > 1 && last[1] >= first[0] + MINUTES_PER_WEEK) {
+    last[1] = Math.max(last[1], first[1] + MINUTES_PER_WEEK);
+    merged.shift();
+  }
+  return merged;
+};
+
+const describeOpening = (fromDay: number, startMinute: number): string => {
+  const day = Math.floor(startMinute / MINUTES_PER_DAY) % 7;
+  const time = formatTime(startMinute);
+  return day === fromDay ? `Opens ${time}` : `Opens ${WEEKDAYS[day]} ${time}`;
+};
+
+export const getOpenStatus = (hours: OpeningHours | undefined, check: OpenCheck = { kind: 'instant', date: new Date() }): OpenStatus => {
+  if (!hours || hours.periods.length === 0) return { state: 'unknown', label: 'Hours unknown' };
+
+  const { day, minutes } = check.kind === 'instant' ? getZonedTime(check.date, hours.timezone) : check;
+  const now = day * MINUTES_PER_DAY + minutes;
+  const ranges = mergeRanges(hours.periods.map(toWeekRange).filter((r): r is [number, number] => r !== null));
+  if (ranges.some(([start, end]) => end - start >= MINUTES_PER_WEEK)) {
+    return { state: 'open', label: 'Open 24 hours' };
+  }
+
+  // Saturday-night periods run into Sunday, so also test one week on
+  for (const [start, end] of ranges) {
+    const position = [now, now + MINUTES_PER_WEEK].find(t => t >= start && t < end);
+    if (position === undefined) continue;
+    const remaining = end - position;
+    if (remaining <= CLOSES_SOON_MINUTES) {
+      return { state: 'closing-soon', label: `Closes in ${remaining} min` };
+    }
+    return { state: 'open', label: `Open until ${formatTime(end)}` };
+  }
+
+  const next = ranges
+    .map(([start]) => ({ start, wait: (start - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK }))
+    .sort((a, b) => a.wait - b.wait)[0];
+  return { state: 'closed', label: next ? `Closed · ${describeOpening(day, next.start)}` : 'Closed' };
+};
+
+// Spots without hours are kept: unknown is not the same as closed
+export const isOpenAt = (hours: OpeningHours | undefined, check: OpenCheck): boolean =>
+  getOpenStatus(hours, check).state !== 'closed';
+
+// One row per weekday (Monday first) for display
+export const formatWeeklyHours = (hours: OpeningHours): { day: number; label: string; ranges: string }[] =>
+  [1, 2, 3, 4, 5, 6, 0].map(day => {
+    const periods = hours.periods
+      .filter(p => p.day === day)
+      .sort((a, b) => (parseTime(a.open) ?? 0) - (parseTime(b.open) ?? 0));
+    return {
+      day,
+      label: WEEKDAYS[day],
+      ranges: periods.length > 0 ? periods.map(p => `${p.open}–${p.close}`).join(', ') : 'Closed'
+    };
+  });
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { previewStableIds, resolveIdentities } from './identityService';
+import { mockSpots } from './providers/mockProvider';
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+    clear: () => items.clear()
+  };
+};
+
+describe('stable spot identities', () => {
+  const spots = mockSpots('Kochi, Kerala', 0, 0).spots;
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+  });
+
+  it('does not count streamed previews as spots seen before', () => {
+    const streamed = spots.flatMap(spot => previewStableIds([spot]));
+    const first = resolveIdentities(spots);
+    expect(first.reused).toBe(0);
+    expect(first.spots.map(s => s.id)).toEqual(streamed.map(s => s.id));
+  });
+
+  it('reuses identities persisted by an earlier search', () => {
+    const first = resolveIdentities(spots);
+    const moved = spots.map(spot => ({ ...spot, coordinates: { lat: spot.coordinates.lat + 0.0004, lng: spot.coordinates.lng } }));
+    expect(previewStableIds(moved).map(s => s.id)).toEqual(first.spots.map(s => s.id));
+    const second = resolveIdentities(moved);
+    expect(second.reused).toBe(spots.length);
+    expect(second.spots.map(s => s.id)).toEqual(first.spots.map(s => s.id));
+  });
+});
@@ -0,0 +1,186 @@
+import { FoodSpot, SpotIdentity } from "../types";
+import { distanceKm } from "./geo";
+
+// Stable spot identity: the same restaurant keeps one ID across searches,
+// and near-duplicates within a result are merged into one spot.
+
+const IDENTITY_STORAGE_KEY = 'foodifind-spot-identities';
+const MAX_IDENTITIES = 1000;
+
+// Generic words that models add or drop freely ("Paragon" vs "Paragon Restaurant")
+const NAME_NOISE = new Set(['the', 'restaurant', 'restro', 'cafe', 'café', 'bar', 'and', '&', 'kitchen', 'eatery']);
+
+export const normalizeName = (name: string): string =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !NAME_NOISE.has(word))
+    .join(' ');
+
+const normalizeAddress = (address: string): string =>
+  address.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// 0-1 similarity, 1 = identical
+export const similarity = (a: string, b: string): number => {
+  if (!a && !b) return 1;
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+// FNV-1a, base36 encoded: short and stable across sessions
+const hash = (input: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+export const computeSpotId = (spot: Pick<FoodSpot, 'name' | 'coordinates'>): string =>
+  `spot-${hash(`${normalizeName(spot.name)}@${spot.coordinates.lat.toFixed(3)},${spot.coordinates.lng.toFixed(3)}`)}`;
+
+type Comparable = Pick<FoodSpot, 'name' | 'address' | 'coordinates'>;
+
+export const isSameSpot = (a: Comparable, b: Comparable): boolean => {
+  const meters = distanceKm(a.coordinates, b.coordinates) * 1000;
+  if (meters > 250) return false;
+
+  const nameA = normalizeName(a.name);
+  const nameB = normalizeName(b.name);
+  const nameSim = similarity(nameA, nameB);
+  if (nameSim >= 0.85) return true;
+  if (meters <= 150 && nameA && nameB && (nameA.includes(nameB) || nameB.includes(nameA))) return true;
+
+  const addrSim = a.address && b.address ? similarity(normalizeAddress(a.address), normalizeAddress(b.address)) : 0;
+  return meters <= 100 && nameSim >= 0.6 && addrSim >= 0.8;
+};
+
+// Larger of two optional counts; unknown only when both are
+const maxDefined = (a?: number, b?: number): number | undefined =>
+  a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+const unique = <T,>(items: T[], key: (item: T) => string = String): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+// Only sets the optional dietary fields either side actually has
+const mergeDietary = (base: FoodSpot, other: FoodSpot): Partial<FoodSpot> => {
+  const merged: Partial<FoodSpot> = {};
+  const dietaryTags = unique([...(base.dietaryTags ?? []), ...(other.dietaryTags ?? [])]);
+  const allergens = unique([...(base.allergens ?? []), ...(other.allergens ?? [])]);
+  if (dietaryTags.length > 0) merged.dietaryTags = dietaryTags;
+  if (allergens.length > 0) merged.allergens = allergens;
+  if (base.dishAttributes || other.dishAttributes) merged.dishAttributes = { ...other.dishAttributes, ...base.dishAttributes };
+  return merged;
+};
+
+// The more confident entry wins scalar fields; list fields are unioned
+export const mergeSpots = (a: FoodSpot, b: FoodSpot): FoodSpot => {
+  const [base, other] = (b.aiConfidence ?? 0) > (a.aiConfidence ?? 0) ? [b, a] : [a, b];
+  const warnings = [...(base.validationWarnings ?? []), ...(other.validationWarnings ?? [])];
+  return {
+    ...base,
+    address: base.address || other.address,
+    bestDishes: unique([...base.bestDishes, ...other.bestDishes], d => d.toLowerCase()),
+    influencerData: {
+      ...base.influencerData,
+      sourceCount: maxDefined(base.influencerData.sourceCount, other.influencerData.sourceCount),
+      topMentionedBy: unique([...base.influencerData.topMentionedBy, ...other.influencerData.topMentionedBy])
+    },
+    viralPosts: unique([...base.viralPosts, ...other.viralPosts], p => `${p.handle}|${p.caption}`),
+    ...mergeDietary(base, other),
+    ...(base.openingHours || other.openingHours ? { openingHours: base.openingHours ?? other.openingHours } : {}),
+    ...(warnings.length > 0 ? { validationWarnings: unique(warnings) } : {})
+  };
+};
+
+export const dedupeSpots = (spots: FoodSpot[]): { spots: FoodSpot[]; merged: number } => {
+  const result: FoodSpot[] = [];
+  spots.forEach(spot => {
+    const index = result.findIndex(existing => isSameSpot(existing, spot));
+    if (index === -1) {
+      result.push(spot);
+    } else {
+      result[index] = mergeSpots(result[index], spot);
+    }
+  });
+  return { spots: result, merged: spots.length - result.length };
+};
+
+// --- Identity registry ---
+
+const loadIdentities = (): SpotIdentity[] => {
+  try {
+    const raw = localStorage.getItem(IDENTITY_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveIdentities = (identities: SpotIdentity[]) => {
+  try {
+    localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identities.slice(-MAX_IDENTITIES)));
+  } catch (error) {
+    console.warn("Could not persist spot identities:", error);
+  }
+};
+
+// Reuses the ID of a previously seen matching spot, otherwise mints and registers a new one
+export const assignStableIds = (spots: FoodSpot[]): { spots: FoodSpot[]; reused: number } => {
+  const identities = loadIdentities();
+  let reused = 0;
+
+  const assigned = spots.map(spot => {
+    const known = identities.find(identity => isSameSpot(identity, spot));
+    if (known) {
+      reused++;
+      // Track the latest position/name so future fuzzy matches compare against fresh data
+      Object.assign(known, { name: spot.name, address: spot.address, coordinates: spot.coordinates });
+      return { ...spot, id: known.id };
+    }
+    const id = computeSpotId(spot);
+    identities.push({ id, name: spot.name, address: spot.address, coordinates: spot.coordinates });
+    return { ...spot, id };
+  });
+
+  saveIdentities(identities);
+  return { spots: assigned, reused };
+};
+
+// The ID a spot would get, without registering it: streamed spots show with the
+// same ID the final pass assigns, and only that pass counts matches as reused
+export const previewStableIds = (spots: FoodSpot[]): FoodSpot[] => {
+  const identities = loadIdentities();
+  return spots.map(spot => ({ ...spot, id: identities.find(identity => isSameSpot(identity, spot))?.id ?? computeSpotId(spot) }));
+};
+
+// Full identity pass for a fresh result: merge duplicates, then attach stable IDs
+export const resolveIdentities = (spots: FoodSpot[]): { spots: FoodSpot[]; merged: number; reused: number } => {
+  const deduped = dedupeSpots(spots);
+  const stable = assignStableIds(deduped.spots);
+  return { spots: stable.spots, merged: deduped.merged, reused: stable.reused };
+};
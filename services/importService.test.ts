@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { parseImport } from './importService';
+import { toGeoJSON, toJSON } from './exportService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('parseImport', () => {
+  const { spots } = mockSpots('Kochi, Kerala', 0, 0);
+
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); }
+    });
+  });
+
+  it('round-trips an exported JSON file', () => {
+    const result = parseImport(toJSON(spots), 'spots.json');
+    expect(result.spots.map(s => s.name)).toEqual(spots.map(s => s.name));
+    expect(result.spots[0].influencerData.sourceCount).toBe(spots[0].influencerData.sourceCount);
+    expect(result.locationName).toBe('Imported: spots.json');
+  });
+
+  it('reads GeoJSON points', () => {
+    const result = parseImport(toGeoJSON(spots), 'spots.geojson');
+    expect(result.spots[0].coordinates).toEqual(spots[0].coordinates);
+  });
+
+  it('rejects malformed files', () => {
+    expect(() => parseImport('{"spots": [', 'broken.json')).toThrow('broken.json is not valid JSON');
+    expect(() => parseImport('"Paragon"', 'text.json')).toThrow('Unrecognized file');
+    expect(() => parseImport('{"type": "FeatureCollection"}', 'map.geojson')).toThrow('has no features');
+    expect(() => parseImport('{"spots": [1, "two", null]}', 'junk.json')).toThrow('junk.json contains no valid spots (3 rejected)');
+  });
+
+  it('keeps the valid spots of a partial file', () => {
+    const [first] = JSON.parse(toJSON(spots.slice(0, 1))).spots;
+    const text = JSON.stringify({ spots: [first, { name: 'No coordinates' }, 'nonsense'] });
+    const result = parseImport(text, 'partial.json');
+    expect(result.spots).toHaveLength(1);
+    expect(result.validation).toMatchObject({ accepted: 1, rejected: 2 });
+  });
+
+  it('refuses a file from a different export format version', () => {
+    const text = JSON.stringify({ ...JSON.parse(toJSON(spots)), version: 2 });
+    expect(() => parseImport(text, 'future.json')).toThrow('future.json uses export format 2');
+  });
+
+  it('falls back to the centroid when the stored center is incomplete', () => {
+    const text = JSON.stringify({ ...JSON.parse(toJSON(spots)), center: { lat: 9.93 } });
+    const { center } = parseImport(text, 'spots.json');
+    expect(center.lng).toBeCloseTo(spots.reduce((sum, s) => sum + s.coordinates.lng, 0) / spots.length);
+  });
+});
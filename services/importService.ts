@@ -0,0 +1,93 @@
+import { Coordinates, DiscoveryResult, FoodSpot } from "../types";
+import { isRecord, isValidCoordinates, RawSpot, validateRawSpots } from "./validationService";
+import { resolveIdentities } from "./identityService";
+import { EXPORT_VERSION } from "./exportService";
+
+// Imports JSON (FoodSpot[] / { spots } / DiscoveryResult) and GeoJSON FeatureCollections.
+// Every entry goes through the same validation as model output.
+
+// Flattens the FoodSpot shape into the raw shape validateRawSpot expects; non-objects pass through to be rejected
+const toRawItem = (item: unknown, position?: { lat: unknown; lng: unknown }): unknown => {
+  if (!isRecord(item)) return item;
+  const coordinates = isRecord(item.coordinates) ? item.coordinates : {};
+  const influencer = isRecord(item.influencerData) ? item.influencerData : {};
+  const raw: RawSpot = {
+    ...item,
+    latitude: position?.lat ?? coordinates.lat ?? item.latitude,
+    longitude: position?.lng ?? coordinates.lng ?? item.longitude,
+    influencerSummary: influencer.summary ?? item.influencerSummary,
+    topInfluencers: influencer.topMentionedBy ?? item.topInfluencers,
+    sourceCount: influencer.sourceCount ?? item.sourceCount,
+    dishDetails: isRecord(item.dishAttributes)
+      ? Object.entries(item.dishAttributes).map(([name, attributes]) => ({ ...(isRecord(attributes) ? attributes : {}), name }))
+      : item.dishDetails
+  };
+  return raw;
+};
+
+// GeoJSON positions are [lng, lat]
+const fromFeature = (feature: unknown): unknown[] => {
+  if (!isRecord(feature) || !isRecord(feature.geometry) || feature.geometry.type !== 'Point') return [];
+  const position = feature.geometry.coordinates;
+  if (!Array.isArray(position)) return [];
+  return [toRawItem(feature.properties ?? {}, { lng: position[0], lat: position[1] })];
+};
+
+const extractRawItems = (data: unknown): unknown[] => {
+  if (Array.isArray(data)) return data.map(item => toRawItem(item));
+  if (!isRecord(data)) throw new Error('Unrecognized file: expected a list of spots or a GeoJSON FeatureCollection');
+  if (data.type === 'FeatureCollection') {
+    if (!Array.isArray(data.features)) throw new Error('GeoJSON FeatureCollection has no features');
+    return data.features.flatMap(fromFeature);
+  }
+  if (Array.isArray(data.spots)) return data.spots.map(item => toRawItem(item));
+  throw new Error('Unrecognized file: expected a list of spots or a GeoJSON FeatureCollection');
+};
+
+// Files from before versioning carry no version and are read as the current layout
+const checkVersion = (data: unknown, fileName: string) => {
+  if (!isRecord(data) || data.version === undefined) return;
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(`${fileName} uses export format ${JSON.stringify(data.version)}; this version of FoodiFind reads format ${EXPORT_VERSION}`);
+  }
+};
+
+const readCenter = (data: unknown): Coordinates | null => {
+  if (!isRecord(data) || !isRecord(data.center)) return null;
+  const { lat, lng } = data.center;
+  return isValidCoordinates(lat, lng) ? { lat: Number(lat), lng: Number(lng) } : null;
+};
+
+const centroid = (spots: FoodSpot[]): Coordinates => ({
+  lat: spots.reduce((sum, s) => sum + s.coordinates.lat, 0) / spots.length,
+  lng: spots.reduce((sum, s) => sum + s.coordinates.lng, 0) / spots.length
+});
+
+export const parseImport = (text: string, fileName: string): DiscoveryResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+  checkVersion(data, fileName);
+
+  const stamp = Date.now();
+  const { spots, report } = validateRawSpots(extractRawItems(data), null, index => `import-${stamp}-${index}`);
+  if (spots.length === 0) {
+    throw new Error(`${fileName} contains no valid spots (${report.rejected} rejected)`);
+  }
+
+  const locationName = isRecord(data) && typeof data.locationName === 'string' && data.locationName.trim()
+    ? data.locationName.trim()
+    : `Imported: ${fileName}`;
+
+  return {
+    spots: resolveIdentities(spots).spots,
+    center: readCenter(data) ?? centroid(spots),
+    locationName,
+    validation: report
+  };
+};
+
+export const readImportFile = async (file: File): Promise<DiscoveryResult> => parseImport(await file.text(), file.name);
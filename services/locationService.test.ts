@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeGeolocationSource, createLocationService } from './locationService';
+import { UserPosition } from '../types';
+
+const kochi = { lat: 9.9312, lng: 76.2673 };
+const fortKochi = { lat: 9.9658, lng: 76.2421 };
+
+describe('createLocationService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('resolves the current position', async () => {
+    const service = createLocationService(createFakeGeolocationSource([{ ...kochi, accuracy: 12 }]));
+    const pending = service.locate();
+    await vi.runAllTimersAsync();
+    const result = await pending;
+    expect(result).toMatchObject({ ok: true, position: { coordinates: kochi, accuracyMeters: 12 } });
+  });
+
+  it.each([
+    [1, 'denied'],
+    [2, 'unavailable'],
+    [3, 'timeout']
+  ])('reports error code %i as %s', async (code, status) => {
+    const service = createLocationService(createFakeGeolocationSource([], code));
+    const pending = service.locate();
+    await vi.runAllTimersAsync();
+    expect(await pending).toMatchObject({ ok: false, status });
+  });
+
+  it('reports a missing Geolocation API as unsupported', async () => {
+    const service = createLocationService(undefined);
+    expect(await service.locate()).toMatchObject({ ok: false, status: 'unsupported' });
+  });
+
+  it('streams watched positions until stopped', async () => {
+    const service = createLocationService(createFakeGeolocationSource([kochi, fortKochi, kochi]));
+    const seen: UserPosition[] = [];
+    const onError = vi.fn();
+    const stop = service.watch(position => seen.push(position), onError);
+
+    await vi.advanceTimersByTimeAsync(15);
+    stop();
+    await vi.runAllTimersAsync();
+
+    expect(seen.map(p => p.coordinates)).toEqual([kochi, fortKochi]);
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('reports a watch that loses permission', async () => {
+    const service = createLocationService(createFakeGeolocationSource([kochi], 1));
+    const onPosition = vi.fn();
+    const onError = vi.fn();
+    service.watch(onPosition, onError);
+    await vi.runAllTimersAsync();
+    expect(onPosition).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ ok: false, status: 'denied' }));
+  });
+});
@@ -0,0 +1,111 @@
+import { Coordinates, LocationStatus, UserPosition } from "../types";
+
+// Wraps the Geolocation API behind an injectable source so the flow can be
+// driven by a fake in tests or demos. Failures are returned, never thrown.
+
+export type GeolocationSource = Pick<Geolocation, 'getCurrentPosition' | 'watchPosition' | 'clearWatch'>;
+
+export type LocateResult =
+  | { ok: true; position: UserPosition }
+  | { ok: false; status: Exclude<LocationStatus, 'idle' | 'locating' | 'watching' | 'located'>; message: string };
+
+export interface LocationService {
+  locate: () => Promise<LocateResult>;
+  watch: (onPosition: (position: UserPosition) => void, onError: (result: Extract<LocateResult, { ok: false }>) => void) => () => void;
+}
+
+const DEFAULT_OPTIONS: PositionOptions = { enableHighAccuracy: true, timeout: 10000, maximumAge: 60000 };
+
+// GeolocationPositionError codes
+const PERMISSION_DENIED = 1;
+const POSITION_UNAVAILABLE = 2;
+
+const toUserPosition = (position: GeolocationPosition): UserPosition => ({
+  coordinates: { lat: position.coords.latitude, lng: position.coords.longitude },
+  accuracyMeters: position.coords.accuracy,
+  timestamp: position.timestamp
+});
+
+const toFailure = (error: GeolocationPositionError): Extract<LocateResult, { ok: false }> => {
+  switch (error.code) {
+    case PERMISSION_DENIED:
+      return { ok: false, status: 'denied', message: 'Location permission denied. Enable it in your browser settings.' };
+    case POSITION_UNAVAILABLE:
+      return { ok: false, status: 'unavailable', message: 'Your position could not be determined.' };
+    default:
+      return { ok: false, status: 'timeout', message: 'Locating took too long. Try again.' };
+  }
+};
+
+const UNSUPPORTED: Extract<LocateResult, { ok: false }> = {
+  ok: false,
+  status: 'unsupported',
+  message: 'Geolocation is not supported by this browser.'
+};
+
+export const createLocationService = (
+  source: GeolocationSource | undefined = typeof navigator !== 'undefined' ? navigator.geolocation : undefined,
+  options: PositionOptions = DEFAULT_OPTIONS
+): LocationService => ({
+  locate: () => new Promise(resolve => {
+    if (!source) {
+      resolve(UNSUPPORTED);
+      return;
+    }
+    source.getCurrentPosition(
+      position => resolve({ ok: true, position: toUserPosition(position) }),
+      error => resolve(toFailure(error)),
+      options
+    );
+  }),
+  watch: (onPosition, onError) => {
+    if (!source) {
+      onError(UNSUPPORTED);
+      return () => {};
+    }
+    const id = source.watchPosition(
+      position => onPosition(toUserPosition(position)),
+      error => onError(toFailure(error)),
+      options
+    );
+    return () => source.clearWatch(id);
+  }
+});
+
+// Scripted source for tests and demos: replays positions (or an error code) asynchronously
+export const createFakeGeolocationSource = (
+  positions: (Coordinates & { accuracy?: number })[],
+  errorCode?: number
+): GeolocationSource => {
+  const timers = new Map<number, ReturnType<typeof setTimeout>[]>();
+  let nextId = 1;
+
+  const toPosition = (p: Coordinates & { accuracy?: number }) => ({
+    coords: { latitude: p.lat, longitude: p.lng, accuracy: p.accuracy ?? 25 },
+    timestamp: Date.now()
+  }) as GeolocationPosition;
+
+  const toError = (code: number) => ({ code, message: 'Fake geolocation error' }) as GeolocationPositionError;
+
+  return {
+    getCurrentPosition: (success, error) => {
+      setTimeout(() => {
+        if (errorCode !== undefined || positions.length === 0) error?.(toError(errorCode ?? POSITION_UNAVAILABLE));
+        else success(toPosition(positions[0]));
+      }, 0);
+    },
+    watchPosition: (success, error) => {
+      const id = nextId++;
+      if (errorCode !== undefined) {
+        timers.set(id, [setTimeout(() => error?.(toError(errorCode)), 0)]);
+      } else {
+        timers.set(id, positions.map((p, i) => setTimeout(() => success(toPosition(p)), i * 10)));
+      }
+      return id;
+    },
+    clearWatch: (id) => {
+      timers.get(id)?.forEach(clearTimeout);
+      timers.delete(id);
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import { FoodSpot } from "../types";
+
+// Analytic map overlays: heatmaps weighted by a score and a cuisine-coloured
+// density layer. Pure helpers; MapVisualization owns the Leaflet layers.
+
+export type OverlayLayer = 'trending' | 'sentiment' | 'cuisine';
+export type HeatMetric = Extract<OverlayLayer, 'trending' | 'sentiment'>;
+
+export const OVERLAY_LAYERS: { key: OverlayLayer; label: string }[] = [
+  { key: 'trending', label: 'Trending heat' },
+  { key: 'sentiment', label: 'Sentiment heat' },
+  { key: 'cuisine', label: 'Cuisine density' }
+];
+
+// Gradient stops shared by the heat layer and its legend
+export const HEAT_GRADIENTS: Record<HeatMetric, Record<number, string>> = {
+  trending: { 0.2: '#fde68a', 0.5: '#f97316', 0.8: '#ef4444', 1: '#7f1d1d' },
+  sentiment: { 0.2: '#fecaca', 0.5: '#fde047', 0.8: '#10b981', 1: '#064e3b' }
+};
+
+const CUISINE_PALETTE = ['#6366f1', '#ec4899', '#14b8a6', '#f59e0b', '#8b5cf6', '#ef4444', '#0ea5e9', '#84cc16', '#f97316', '#64748b'];
+
+export const toHeatPoints = (spots: FoodSpot[], metric: HeatMetric): [number, number, number][] =>
+  spots.map(spot => {
+    const score = metric === 'trending' ? spot.trendingScore : spot.sentimentScore;
+    return [spot.coordinates.lat, spot.coordinates.lng, Math.max(0, Math.min(100, score)) / 100];
+  });
+
+// Stable colour per cuisine so the legend doesn't reshuffle between searches
+export const cuisineColor = (cuisine: string): string => {
+  const key = cuisine.trim().toLowerCase();
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return CUISINE_PALETTE[hash % CUISINE_PALETTE.length];
+};
+
+export const getCuisineLegend = (spots: FoodSpot[], limit = 8): { cuisine: string; color: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  spots.forEach(spot => counts.set(spot.cuisine, (counts.get(spot.cuisine) || 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([cuisine, count]) => ({ cuisine, color: cuisineColor(cuisine), count }));
+};
@@ -0,0 +1,806 @@
+import { Allergen, DietaryTag, FoodSpot, OpeningPeriod } from "../../types";
+
+// Bundled demo dataset: distinct, hand-written spots for a dozen cities, keyed
+// by gazetteer place id. Used by the mock provider so offline runs (CI, demos
+// without an API key) show plausible local results instead of one recycled list.
+
+export interface DemoDish {
+  name: string;
+  dietary?: DietaryTag[];
+  allergens?: Allergen[];
+}
+
+export interface DemoSpotSeed {
+  name: string;
+  cuisine: string;
+  address: string;
+  priceRange: FoodSpot['priceRange'];
+  offset: [number, number]; // Degrees from the city center, well inside the search radius
+  scores: [number, number, number, number]; // sentiment, trending, velocity, confidence
+  dishes: DemoDish[];
+  dietary?: DietaryTag[]; // Spot-level options; allergens are derived from the dishes
+  hours: OpeningPeriod[];
+  description: string;
+  buzz: { summary: string; sources: number; by: string[] };
+  post: { handle: string; caption: string; likes: string; image: string; isReel: boolean };
+}
+
+const ALL_WEEK = [0, 1, 2, 3, 4, 5, 6];
+const NOT_MONDAY = [0, 2, 3, 4, 5, 6];
+
+// Same hours on each of `days`; a close at or before open runs past midnight
+export const weekly = (open: string, close: string, days: number[] = ALL_WEEK): OpeningPeriod[] =>
+  days.map(day => ({ day, open, close }));
+
+const photo = (id: string) => `https://images.unsplash.com/photo-${id}?w=500&q=80`;
+
+export const DEMO_IMAGES = {
+  curry: photo('1633945274405-b6c8069047b0'),
+  crowd: photo('1589302168068-964664d93dc0'),
+  cafe: photo('1554118811-1e0d58224f24'),
+  dessert: photo('1578985545062-69928b1d9587'),
+  fineDining: photo('1599084993091-1cb5c0721cc6'),
+  burger: photo('1568901346375-23c9450c58cd'),
+  streetFood: photo('1550547660-d9450f859349'),
+  plantBased: photo('1668236543090-82eba5ee5976')
+};
+
+export const DEMO_FIXTURES: Record<string, DemoSpotSeed[]> = {
+  kochi: [
+    {
+      name: "Paragon Restaurant", cuisine: "Kerala / Malabar", address: "Edappally", priceRange: "Medium",
+      offset: [0.002, -0.003], scores: [98, 95, 12, 99],
+      dishes: [
+        { name: "Fish Mango Curry", dietary: ["halal", "gluten-free", "dairy-free"], allergens: ["fish"] },
+        { name: "Chicken Biryani", dietary: ["halal"], allergens: ["dairy", "nuts"] },
+        { name: "Elaneer Payasam", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy", "nuts"] }
+      ],
+      dietary: ["halal", "gluten-free"], hours: weekly("11:00", "23:00"),
+      description: "Legendary culinary landmark famous for authentic Malabar biryani.",
+      buzz: { summary: "Must-visit for authentic flavors", sources: 540, by: ["@eat_local", "@foodie_daily"] },
+      post: { handle: "@top_eats", caption: "The BEST in town! 🍛🔥 The biryani is to die for.", likes: "45.2k", image: DEMO_IMAGES.curry, isReel: true }
+    },
+    {
+      name: "Kashi Art Cafe", cuisine: "Cafe", address: "Fort Kochi", priceRange: "Medium",
+      offset: [-0.004, -0.012], scores: [94, 88, 5, 96],
+      dishes: [
+        { name: "Chocolate Cake", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Coffee", dietary: ["vegan", "gluten-free", "nut-free"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("08:00", "19:00"),
+      description: "Artsy ambiance perfect for casual meetups.",
+      buzz: { summary: "Instagrammable art spots", sources: 320, by: ["@travel_diaries"] },
+      post: { handle: "@artandfood", caption: "Coffee + Art = Perfect Sunday 🎨☕️", likes: "12k", image: DEMO_IMAGES.cafe, isReel: false }
+    },
+    {
+      name: "Grand Pavilion", cuisine: "Seafood", address: "MG Road", priceRange: "High",
+      offset: [0.005, 0.002], scores: [90, 82, -1, 92],
+      dishes: [
+        { name: "Seafood Platter", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish", "fish"] },
+        { name: "Karimeen Pollichathu", dietary: ["gluten-free"], allergens: ["fish"] }
+      ],
+      dietary: ["gluten-free"], hours: [...weekly("12:00", "15:00", NOT_MONDAY), ...weekly("19:00", "23:00", NOT_MONDAY)],
+      description: "Classic fine dining spot known for traditional preparation.",
+      buzz: { summary: "Consistent quality over decades", sources: 150, by: ["@chef_fan"] },
+      post: { handle: "@fine_dining", caption: "Dinner date perfection. 🍷", likes: "8.5k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "District 7 Restro Cafe", cuisine: "Italian/Fusion", address: "Vyttila", priceRange: "Medium",
+      offset: [-0.001, 0.008], scores: [88, 96, 25, 85],
+      dishes: [
+        { name: "Truffle Pasta", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Loaded Burger", allergens: ["gluten", "dairy", "eggs", "sesame"] }
+      ],
+      dietary: ["vegetarian"], hours: [...weekly("12:00", "00:30", [0, 1, 2, 3, 4]), ...weekly("12:00", "02:00", [5, 6])],
+      description: "Trending spot for heavy meals and youth crowd vibes.",
+      buzz: { summary: "Viral food challenges", sources: 410, by: ["@food_hunter"] },
+      post: { handle: "@burger_king_local", caption: "Can you finish this? 🍔🍔", likes: "22k", image: DEMO_IMAGES.burger, isReel: true }
+    },
+    {
+      name: "Saravana Bhavan", cuisine: "South Indian Vegetarian", address: "MG Road", priceRange: "Low",
+      offset: [0.007, -0.006], scores: [91, 79, 9, 90],
+      dishes: [
+        { name: "Masala Dosa", dietary: ["vegan", "gluten-free", "nut-free"] },
+        { name: "Idli Sambar", dietary: ["vegan", "gluten-free", "nut-free"] },
+        { name: "Filter Coffee", dietary: ["vegetarian", "gluten-free", "nut-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["vegetarian", "nut-free"], hours: weekly("06:30", "22:30"),
+      description: "Pure vegetarian South Indian classics served fast.",
+      buzz: { summary: "Go-to for plant-based eaters", sources: 210, by: ["@veg_trails", "@plantbased_eats"] },
+      post: { handle: "@veg_trails", caption: "Crispiest dosa in the city, and it's all veg 🌱", likes: "9.3k", image: DEMO_IMAGES.plantBased, isReel: true }
+    }
+  ],
+
+  paris: [
+    {
+      name: "Le Bistrot", cuisine: "French", address: "Rue de Rivoli", priceRange: "Medium",
+      offset: [0.002, -0.003], scores: [95, 90, 8, 97],
+      dishes: [
+        { name: "Escargots", dietary: ["gluten-free"], allergens: ["shellfish", "dairy"] },
+        { name: "Steak Frites", dietary: ["gluten-free", "dairy-free"] }
+      ],
+      dietary: ["gluten-free"], hours: [...weekly("12:00", "14:30"), ...weekly("19:00", "23:00")],
+      description: "Classic Parisian dining experience.",
+      buzz: { summary: "Textbook bistro classics", sources: 380, by: ["@paris_eats", "@le_foodie"] },
+      post: { handle: "@paris_eats", caption: "Steak frites, red wine, rain outside. Perfect. 🇫🇷", likes: "18k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Cafe de Flore", cuisine: "Cafe", address: "Saint-Germain", priceRange: "Medium",
+      offset: [-0.004, -0.012], scores: [92, 85, 3, 96],
+      dishes: [
+        { name: "Chocolat Chaud", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy"] },
+        { name: "Croque Monsieur", allergens: ["gluten", "dairy"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("07:30", "01:30"),
+      description: "Literary institution with the most famous terrace in Paris.",
+      buzz: { summary: "Iconic people-watching", sources: 620, by: ["@travel_diaries", "@cafe_vibes"] },
+      post: { handle: "@cafe_vibes", caption: "Hot chocolate thick enough to stand a spoon in ☕️", likes: "31k", image: DEMO_IMAGES.cafe, isReel: false }
+    },
+    {
+      name: "L'Ambroisie", cuisine: "Haute Cuisine", address: "Place des Vosges", priceRange: "Luxury",
+      offset: [0.005, 0.002], scores: [93, 74, -2, 94],
+      dishes: [
+        { name: "Langoustine Feuillantine", allergens: ["shellfish", "gluten", "dairy"] },
+        { name: "Chocolate Tart", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      hours: [...weekly("12:00", "14:00", [2, 3, 4, 5, 6]), ...weekly("19:30", "22:00", [2, 3, 4, 5, 6])],
+      description: "Three-star grandeur under the arcades of the Marais.",
+      buzz: { summary: "Once-in-a-lifetime splurge", sources: 140, by: ["@chef_fan"] },
+      post: { handle: "@fine_dining", caption: "Worth every euro. Every single one. ✨", likes: "6.2k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Big Mamma", cuisine: "Italian", address: "Oberkampf", priceRange: "Medium",
+      offset: [-0.001, 0.008], scores: [88, 97, 22, 88],
+      dishes: [
+        { name: "Truffle Pasta", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Giant Lemon Tart", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("12:00", "23:45"),
+      description: "Loud, joyful trattoria with a queue out the door.",
+      buzz: { summary: "The lemon tart reel everyone shares", sources: 700, by: ["@food_hunter", "@pasta_paris"] },
+      post: { handle: "@pasta_paris", caption: "That truffle pasta pull 🧀🍝", likes: "54k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Wild & The Moon", cuisine: "Vegan Cafe", address: "Le Marais", priceRange: "Low",
+      offset: [0.007, -0.006], scores: [91, 79, 9, 90],
+      dishes: [
+        { name: "Acai Bowl", dietary: ["vegan", "gluten-free", "nut-free"] },
+        { name: "Cashew Cheesecake", dietary: ["vegan", "gluten-free"], allergens: ["nuts"] }
+      ],
+      dietary: ["vegan", "gluten-free"], hours: weekly("08:00", "19:00"),
+      description: "Plant-based bowls and cold-pressed juices.",
+      buzz: { summary: "Go-to for plant-based eaters", sources: 210, by: ["@veg_trails", "@plantbased_eats"] },
+      post: { handle: "@veg_trails", caption: "Brunch that happens to be fully vegan 🌱", likes: "9.3k", image: DEMO_IMAGES.plantBased, isReel: true }
+    }
+  ],
+
+  'new-york': [
+    {
+      name: "Katz's Delicatessen", cuisine: "Jewish Deli", address: "205 E Houston St", priceRange: "Medium",
+      offset: [0.0095, 0.0186], scores: [94, 89, 4, 97],
+      dishes: [
+        { name: "Pastrami on Rye", dietary: ["dairy-free"], allergens: ["gluten"] },
+        { name: "Matzo Ball Soup", dietary: ["dairy-free"], allergens: ["gluten", "eggs"] }
+      ],
+      hours: [...weekly("08:00", "22:45", [0, 1, 2, 3]), ...weekly("08:00", "02:45", [4, 5, 6])],
+      description: "Hand-carved pastrami piled absurdly high since 1888.",
+      buzz: { summary: "Bucket-list sandwich", sources: 880, by: ["@nyc_eats", "@sandwich_club"] },
+      post: { handle: "@sandwich_club", caption: "Hand-carved. Half a pound. No regrets. 🥪", likes: "61k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Joe's Pizza", cuisine: "Pizza", address: "7 Carmine St", priceRange: "Low",
+      offset: [0.0177, 0.0039], scores: [92, 93, 10, 95],
+      dishes: [
+        { name: "Plain Cheese Slice", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] },
+        { name: "Fresh Mozzarella Slice", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("10:00", "04:00"),
+      description: "The benchmark New York slice, folded and eaten standing.",
+      buzz: { summary: "Late-night slice ritual", sources: 760, by: ["@slice_life"] },
+      post: { handle: "@slice_life", caption: "The fold. The drip. The 2am slice. 🍕", likes: "38k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Xi'an Famous Foods", cuisine: "Chinese (Xi'an)", address: "Chinatown", priceRange: "Low",
+      offset: [0.0022, 0.0080], scores: [90, 91, 14, 91],
+      dishes: [
+        { name: "Spicy Cumin Lamb Noodles", dietary: ["dairy-free"], allergens: ["gluten", "soy"] },
+        { name: "Liang Pi Cold Noodles", dietary: ["vegan", "nut-free"], allergens: ["gluten", "soy", "sesame"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("11:00", "21:00"),
+      description: "Hand-ripped noodles with fiery cumin and chili oil.",
+      buzz: { summary: "Spice-lover favorite", sources: 430, by: ["@noodle_quest", "@nyc_eats"] },
+      post: { handle: "@noodle_quest", caption: "Hand-pulled and dangerously spicy 🌶️🍜", likes: "19k", image: DEMO_IMAGES.curry, isReel: true }
+    },
+    {
+      name: "Grand Banks", cuisine: "Seafood (Oysters)", address: "Pier 25, Hudson River Park", priceRange: "High",
+      offset: [0.0081, -0.0087], scores: [91, 86, 7, 92],
+      dishes: [
+        { name: "Oysters on the Half Shell", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish"] },
+        { name: "Lobster Roll", allergens: ["shellfish", "gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["gluten-free"], hours: weekly("12:00", "23:00"),
+      description: "Oyster bar aboard a restored wooden schooner on the Hudson.",
+      buzz: { summary: "Sunset oysters on deck", sources: 260, by: ["@nyc_eats", "@fine_dining"] },
+      post: { handle: "@nyc_eats", caption: "Oysters, rosé and a Hudson sunset ⛵", likes: "11k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Superiority Burger", cuisine: "Vegetarian Diner", address: "East Village", priceRange: "Low",
+      offset: [0.0137, 0.0195], scores: [89, 92, 18, 88],
+      dishes: [
+        { name: "Superiority Burger", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "soy"] },
+        { name: "Burnt Broccoli Salad", dietary: ["vegan", "gluten-free"], allergens: ["nuts"] }
+      ],
+      dietary: ["vegetarian", "vegan"], hours: weekly("11:30", "22:00", NOT_MONDAY),
+      description: "Vegetarian diner that converts committed carnivores.",
+      buzz: { summary: "Best veggie burger debates", sources: 310, by: ["@plantbased_eats"] },
+      post: { handle: "@plantbased_eats", caption: "No meat, zero compromise 🌱🍔", likes: "14k", image: DEMO_IMAGES.burger, isReel: false }
+    }
+  ],
+
+  tokyo: [
+    {
+      name: "Fuunji", cuisine: "Ramen (Tsukemen)", address: "Yoyogi, Shibuya", priceRange: "Low",
+      offset: [0.0070, -0.0040], scores: [95, 94, 11, 96],
+      dishes: [
+        { name: "Tsukemen", dietary: ["dairy-free"], allergens: ["gluten", "fish", "eggs", "soy"] },
+        { name: "Ajitama Egg", dietary: ["vegetarian", "gluten-free"], allergens: ["eggs", "soy"] }
+      ],
+      dietary: ["dairy-free"], hours: [...weekly("11:00", "15:00", [1, 2, 3, 4, 5, 6]), ...weekly("17:00", "21:00", [1, 2, 3, 4, 5, 6])],
+      description: "Rich fish-and-chicken dipping ramen worth the line.",
+      buzz: { summary: "Queue-worthy tsukemen", sources: 690, by: ["@ramen_rater", "@tokyo_bites"] },
+      post: { handle: "@ramen_rater", caption: "Dip, slurp, repeat 🍜", likes: "47k", image: DEMO_IMAGES.curry, isReel: true }
+    },
+    {
+      name: "Uobei Shibuya Dogenzaka", cuisine: "Sushi (Conveyor)", address: "Dogenzaka, Shibuya", priceRange: "Low",
+      offset: [-0.0215, -0.0015], scores: [88, 92, 10, 90],
+      dishes: [
+        { name: "Salmon Nigiri", dietary: ["dairy-free"], allergens: ["fish", "soy"] },
+        { name: "Tamago Nigiri", dietary: ["vegetarian", "dairy-free"], allergens: ["eggs", "soy"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("11:00", "23:00"),
+      description: "Touchscreen orders delivered by bullet-train express lanes.",
+      buzz: { summary: "Sushi by shinkansen", sources: 520, by: ["@tokyo_bites"] },
+      post: { handle: "@tokyo_bites", caption: "Order on the screen, sushi zooms over 🍣🚄", likes: "29k", image: DEMO_IMAGES.fineDining, isReel: true }
+    },
+    {
+      name: "Omoide Yokocho Yakitori", cuisine: "Yakitori", address: "Nishi-Shinjuku", priceRange: "Low",
+      offset: [0.0130, -0.0005], scores: [88, 93, 16, 86],
+      dishes: [
+        { name: "Negima Skewers", dietary: ["dairy-free", "gluten-free"], allergens: ["soy"] },
+        { name: "Tsukune", dietary: ["dairy-free"], allergens: ["eggs", "soy", "gluten"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("17:00", "00:00"),
+      description: "Smoky alley counters serving skewers and cold beer.",
+      buzz: { summary: "Memory Lane night crawl", sources: 470, by: ["@night_market_nomad"] },
+      post: { handle: "@night_market_nomad", caption: "Smoke, skewers and six seats 🏮", likes: "33k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Ain Soph. Journey", cuisine: "Vegan", address: "Shinjuku 3-chome", priceRange: "Medium",
+      offset: [0.0105, 0.0060], scores: [90, 84, 12, 89],
+      dishes: [
+        { name: "Heavenly Pancakes", dietary: ["vegan"], allergens: ["gluten", "soy"] },
+        { name: "Vegan Burger", dietary: ["vegan"], allergens: ["gluten", "soy", "sesame"] }
+      ],
+      dietary: ["vegan", "vegetarian"], hours: weekly("11:30", "20:00"),
+      description: "Fluffy vegan pancakes and comforting plant-based plates.",
+      buzz: { summary: "Fluffiest vegan pancakes", sources: 240, by: ["@plantbased_eats"] },
+      post: { handle: "@plantbased_eats", caption: "Pancakes this tall shouldn't be vegan 🥞🌱", likes: "16k", image: DEMO_IMAGES.dessert, isReel: true }
+    },
+    {
+      name: "Tonkatsu Maisen", cuisine: "Tonkatsu", address: "Jingumae, Shibuya", priceRange: "Medium",
+      offset: [-0.0095, 0.0100], scores: [91, 80, 2, 93],
+      dishes: [
+        { name: "Kurobuta Pork Katsu", dietary: ["dairy-free"], allergens: ["gluten", "eggs", "soy"] },
+        { name: "Katsu Sando", dietary: ["dairy-free"], allergens: ["gluten", "eggs", "soy"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("11:00", "22:00"),
+      description: "Crisp, tender cutlets in a converted bathhouse.",
+      buzz: { summary: "Katsu sando to go", sources: 350, by: ["@tokyo_bites", "@sandwich_club"] },
+      post: { handle: "@sandwich_club", caption: "The katsu sando crunch 🔊", likes: "24k", image: DEMO_IMAGES.burger, isReel: true }
+    }
+  ],
+
+  london: [
+    {
+      name: "Dishoom", cuisine: "Bombay Cafe", address: "Covent Garden", priceRange: "Medium",
+      offset: [0.0052, 0.0010], scores: [95, 92, 7, 96],
+      dishes: [
+        { name: "Bacon Naan Roll", allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Black Daal", dietary: ["vegetarian", "gluten-free", "nut-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["vegetarian"], hours: [...weekly("08:00", "23:00", [1, 2, 3, 4]), ...weekly("08:00", "00:00", [5, 6]), ...weekly("09:00", "23:00", [0])],
+      description: "Irani-cafe nostalgia with a cult breakfast naan.",
+      buzz: { summary: "House black daal obsession", sources: 910, by: ["@london_food", "@curry_club"] },
+      post: { handle: "@london_food", caption: "Black daal cooked for 24 hours 🖤", likes: "52k", image: DEMO_IMAGES.curry, isReel: true }
+    },
+    {
+      name: "Padella", cuisine: "Italian (Pasta)", address: "Borough Market", priceRange: "Low",
+      offset: [-0.0017, 0.0366], scores: [93, 94, 9, 94],
+      dishes: [
+        { name: "Pici Cacio e Pepe", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] },
+        { name: "Pappardelle Beef Ragu", allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: [...weekly("12:00", "22:00", [1, 2, 3, 4, 5, 6]), ...weekly("12:00", "21:00", [0])],
+      description: "Fresh pasta at a counter, queue included.",
+      buzz: { summary: "Cacio e pepe pilgrimage", sources: 640, by: ["@pasta_paris", "@london_food"] },
+      post: { handle: "@pasta_paris", caption: "Worth the 45-minute queue? Yes. 🍝", likes: "27k", image: DEMO_IMAGES.streetFood, isReel: false }
+    },
+    {
+      name: "St. JOHN", cuisine: "Modern British", address: "Smithfield", priceRange: "High",
+      offset: [0.0132, 0.0261], scores: [92, 76, 1, 93],
+      dishes: [
+        { name: "Roast Bone Marrow", dietary: ["dairy-free"], allergens: ["gluten"] },
+        { name: "Eccles Cake", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] }
+      ],
+      hours: [...weekly("12:00", "15:00", [1, 2, 3, 4, 5, 6]), ...weekly("18:00", "22:30", [1, 2, 3, 4, 5, 6]), ...weekly("12:00", "16:00", [0])],
+      description: "Nose-to-tail cooking in a whitewashed former smokehouse.",
+      buzz: { summary: "Bone marrow on toast", sources: 220, by: ["@chef_fan"] },
+      post: { handle: "@chef_fan", caption: "Bone marrow and parsley salad, the classic 🦴", likes: "7.9k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Bao Soho", cuisine: "Taiwanese", address: "Lexington St, Soho", priceRange: "Medium",
+      offset: [0.0054, -0.0084], scores: [90, 90, 8, 91],
+      dishes: [
+        { name: "Classic Pork Bao", dietary: ["dairy-free"], allergens: ["gluten", "soy", "peanuts"] },
+        { name: "Fried Chicken Bao", allergens: ["gluten", "eggs", "soy"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("12:00", "22:00"),
+      description: "Pillowy steamed buns in a tiny, always-busy dining room.",
+      buzz: { summary: "Bao queue on Lexington", sources: 400, by: ["@london_food"] },
+      post: { handle: "@london_food", caption: "Soft, fluffy, gone in two bites ☁️", likes: "21k", image: DEMO_IMAGES.burger, isReel: true }
+    },
+    {
+      name: "Mildreds", cuisine: "Vegetarian", address: "Soho", priceRange: "Medium",
+      offset: [0.0055, -0.0110], scores: [88, 81, 6, 88],
+      dishes: [
+        { name: "Sri Lankan Curry", dietary: ["vegan", "gluten-free"], allergens: ["nuts"] },
+        { name: "Mushroom Ale Pie", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] }
+      ],
+      dietary: ["vegetarian", "vegan", "gluten-free"], hours: weekly("12:00", "22:30"),
+      description: "Long-running plant-forward favorite with global comfort food.",
+      buzz: { summary: "Vegan crowd-pleaser", sources: 190, by: ["@plantbased_eats", "@veg_trails"] },
+      post: { handle: "@veg_trails", caption: "Proper pie, no meat required 🥧🌱", likes: "8.8k", image: DEMO_IMAGES.plantBased, isReel: false }
+    }
+  ],
+
+  'mexico-city': [
+    {
+      name: "El Huequito", cuisine: "Tacos al Pastor", address: "Centro Histórico", priceRange: "Low",
+      offset: [0.0004, -0.0068], scores: [93, 92, 9, 92],
+      dishes: [
+        { name: "Taco al Pastor", dietary: ["dairy-free", "gluten-free"] },
+        { name: "Gringa", dietary: ["gluten-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["gluten-free", "dairy-free"], hours: weekly("10:00", "23:00"),
+      description: "Pastor carved straight off the trompo since 1959.",
+      buzz: { summary: "Original pastor stand", sources: 560, by: ["@taco_trail", "@cdmx_eats"] },
+      post: { handle: "@taco_trail", caption: "Pineapple flip onto the taco 🍍🌮", likes: "41k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Contramar", cuisine: "Seafood", address: "Roma Norte", priceRange: "High",
+      offset: [-0.0136, -0.0328], scores: [95, 86, 4, 95],
+      dishes: [
+        { name: "Pescado a la Talla", dietary: ["gluten-free", "dairy-free"], allergens: ["fish"] },
+        { name: "Tuna Tostadas", dietary: ["dairy-free"], allergens: ["fish", "soy", "eggs"] }
+      ],
+      dietary: ["gluten-free"], hours: weekly("12:30", "18:30"),
+      description: "Long seafood lunches with the red-and-green grilled fish.",
+      buzz: { summary: "Tuna tostada fame", sources: 480, by: ["@cdmx_eats"] },
+      post: { handle: "@cdmx_eats", caption: "Half red, half green, all perfect 🐟", likes: "23k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Panadería Rosetta", cuisine: "Bakery", address: "Colima, Roma Norte", priceRange: "Low",
+      offset: [-0.0146, -0.0278], scores: [94, 93, 13, 94],
+      dishes: [
+        { name: "Guava Roll", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Concha", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("07:00", "20:00"),
+      description: "Tiny bakery behind the most photographed guava roll in the city.",
+      buzz: { summary: "Guava roll lines", sources: 610, by: ["@pastry_hunt"] },
+      post: { handle: "@pastry_hunt", caption: "The guava roll, in its natural habitat 🥐", likes: "36k", image: DEMO_IMAGES.dessert, isReel: true }
+    },
+    {
+      name: "Los Cocuyos", cuisine: "Tacos de Suadero", address: "Bolívar, Centro", priceRange: "Low",
+      offset: [-0.0004, -0.0038], scores: [91, 89, 7, 90],
+      dishes: [
+        { name: "Taco de Suadero", dietary: ["dairy-free", "gluten-free"] },
+        { name: "Taco de Campechano", dietary: ["dairy-free", "gluten-free"] }
+      ],
+      dietary: ["dairy-free", "gluten-free"], hours: weekly("10:00", "04:00"),
+      description: "All-night counter famous for confit beef tacos.",
+      buzz: { summary: "3am taco legend", sources: 390, by: ["@taco_trail"] },
+      post: { handle: "@taco_trail", caption: "Suadero at 3am hits different 🌙", likes: "18k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Por Siempre Vegana Taquería", cuisine: "Vegan Tacos", address: "Roma Sur", priceRange: "Low",
+      offset: [-0.0220, -0.0260], scores: [89, 87, 15, 87],
+      dishes: [
+        { name: "Soy Pastor Taco", dietary: ["vegan", "gluten-free"], allergens: ["soy"] },
+        { name: "Chorizo Quesadilla", dietary: ["vegan"], allergens: ["soy", "gluten"] }
+      ],
+      dietary: ["vegan", "vegetarian"], hours: weekly("13:00", "23:00"),
+      description: "Street stall proving pastor works without pork.",
+      buzz: { summary: "Vegan pastor converts", sources: 230, by: ["@plantbased_eats"] },
+      post: { handle: "@plantbased_eats", caption: "Vegan pastor you'd never clock 🌮🌱", likes: "12k", image: DEMO_IMAGES.plantBased, isReel: true }
+    }
+  ],
+
+  bangkok: [
+    {
+      name: "Jay Fai", cuisine: "Thai Street Food", address: "Maha Chai Rd", priceRange: "High",
+      offset: [-0.0036, 0.0027], scores: [94, 95, 6, 94],
+      dishes: [
+        { name: "Crab Omelette", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish", "eggs", "fish"] },
+        { name: "Drunken Noodles", dietary: ["dairy-free"], allergens: ["shellfish", "soy", "fish"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("09:00", "19:00", [3, 4, 5, 6]),
+      description: "Goggled wok master behind the city's most famous crab omelette.",
+      buzz: { summary: "Michelin-starred street wok", sources: 830, by: ["@bkk_streets", "@night_market_nomad"] },
+      post: { handle: "@bkk_streets", caption: "The goggles. The flames. The omelette. 🔥🦀", likes: "72k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Thipsamai", cuisine: "Pad Thai", address: "Maha Chai Rd", priceRange: "Low",
+      offset: [-0.0035, 0.0030], scores: [90, 88, 3, 91],
+      dishes: [
+        { name: "Pad Thai Wrapped in Egg", dietary: ["dairy-free", "gluten-free"], allergens: ["eggs", "peanuts", "shellfish", "fish"] },
+        { name: "Fresh Orange Juice", dietary: ["vegan", "gluten-free", "nut-free"] }
+      ],
+      dietary: ["dairy-free", "gluten-free"], hours: weekly("09:00", "00:00"),
+      description: "Pad thai wrapped in a paper-thin omelette.",
+      buzz: { summary: "Pad thai institution", sources: 540, by: ["@bkk_streets"] },
+      post: { handle: "@bkk_streets", caption: "Pad thai in an egg blanket 🍳", likes: "25k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Krua Apsorn", cuisine: "Royal Thai", address: "Dinso Rd", priceRange: "Medium",
+      offset: [0.0012, 0.0002], scores: [92, 83, 4, 93],
+      dishes: [
+        { name: "Stir-fried Crab with Yellow Chili", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish", "eggs"] },
+        { name: "Green Curry with Fish Balls", dietary: ["gluten-free", "dairy-free"], allergens: ["fish"] }
+      ],
+      dietary: ["gluten-free"], hours: weekly("10:30", "19:30", [1, 2, 3, 4, 5, 6]),
+      description: "Royal-recipe home cooking loved by locals.",
+      buzz: { summary: "Local lunch favorite", sources: 260, by: ["@curry_club"] },
+      post: { handle: "@curry_club", caption: "That yellow chili crab 🦀💛", likes: "9.9k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Yaowarat Night Market", cuisine: "Chinese-Thai Street Food", address: "Chinatown", priceRange: "Low",
+      offset: [-0.0163, 0.0082], scores: [89, 94, 17, 85],
+      dishes: [
+        { name: "Kuay Jab Rolled Noodles", dietary: ["dairy-free"], allergens: ["soy", "gluten"] },
+        { name: "Mango Sticky Rice", dietary: ["vegan", "gluten-free"], allergens: ["sesame"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("17:00", "00:00", NOT_MONDAY),
+      description: "Neon-lit street-food crawl after dark.",
+      buzz: { summary: "Best night food crawl", sources: 720, by: ["@night_market_nomad"] },
+      post: { handle: "@night_market_nomad", caption: "Chinatown after dark 🏮🥭", likes: "44k", image: DEMO_IMAGES.crowd, isReel: true }
+    },
+    {
+      name: "May Kaidee's", cuisine: "Vegan Thai", address: "Tanao Rd, Banglamphu", priceRange: "Low",
+      offset: [0.0027, -0.0028], scores: [87, 80, 8, 87],
+      dishes: [
+        { name: "Massaman Curry", dietary: ["vegan", "gluten-free"], allergens: ["peanuts"] },
+        { name: "Pumpkin Hummus", dietary: ["vegan", "gluten-free"], allergens: ["sesame"] }
+      ],
+      dietary: ["vegan", "vegetarian"], hours: weekly("09:00", "22:00"),
+      description: "Long-running vegan Thai kitchen and cooking school near Khao San.",
+      buzz: { summary: "Vegan Thai classics", sources: 170, by: ["@plantbased_eats"] },
+      post: { handle: "@plantbased_eats", caption: "Vegan massaman for the win 🌱🍛", likes: "6.1k", image: DEMO_IMAGES.plantBased, isReel: false }
+    }
+  ],
+
+  istanbul: [
+    {
+      name: "Karaköy Güllüoğlu", cuisine: "Baklava", address: "Karaköy", priceRange: "Low",
+      offset: [0.0143, -0.0014], scores: [95, 90, 5, 96],
+      dishes: [
+        { name: "Pistachio Baklava", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "nuts"] },
+        { name: "Su Böreği", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("07:00", "23:00"),
+      description: "Five generations of flaky, syrupy pistachio baklava.",
+      buzz: { summary: "Baklava benchmark", sources: 590, by: ["@pastry_hunt", "@ist_eats"] },
+      post: { handle: "@pastry_hunt", caption: "Listen to that crunch 🥮", likes: "33k", image: DEMO_IMAGES.dessert, isReel: true }
+    },
+    {
+      name: "Çiya Sofrası", cuisine: "Anatolian", address: "Kadıköy", priceRange: "Medium",
+      offset: [-0.0182, 0.0466], scores: [94, 85, 6, 94],
+      dishes: [
+        { name: "Stuffed Dried Eggplant", dietary: ["vegan", "gluten-free"] },
+        { name: "Lamb Kebab with Loquat", dietary: ["halal", "gluten-free", "dairy-free"] }
+      ],
+      dietary: ["halal", "vegetarian"], hours: weekly("11:00", "22:00"),
+      description: "Regional Anatolian dishes rarely found outside home kitchens.",
+      buzz: { summary: "Regional recipes archive", sources: 310, by: ["@ist_eats", "@chef_fan"] },
+      post: { handle: "@ist_eats", caption: "A menu that changes with the seasons 🍆", likes: "12k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Dürümzade", cuisine: "Kebab", address: "Beyoğlu", priceRange: "Low",
+      offset: [0.0253, 0.0036], scores: [90, 91, 12, 89],
+      dishes: [
+        { name: "Adana Dürüm", dietary: ["halal", "dairy-free"], allergens: ["gluten"] },
+        { name: "Chicken Dürüm", dietary: ["halal", "dairy-free"], allergens: ["gluten"] }
+      ],
+      dietary: ["halal"], hours: weekly("11:00", "04:00"),
+      description: "Charcoal-grilled wraps fuelling Beyoğlu nights.",
+      buzz: { summary: "Late-night wrap hero", sources: 470, by: ["@night_market_nomad"] },
+      post: { handle: "@night_market_nomad", caption: "Charcoal + lavash = happiness 🔥", likes: "20k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Balıkçı Sabahattin", cuisine: "Seafood Meyhane", address: "Sultanahmet", priceRange: "High",
+      offset: [-0.0042, -0.0004], scores: [88, 74, -2, 90],
+      dishes: [
+        { name: "Grilled Sea Bass", dietary: ["gluten-free", "dairy-free"], allergens: ["fish"] },
+        { name: "Meze Platter", dietary: ["vegetarian"], allergens: ["dairy", "sesame"] }
+      ],
+      dietary: ["gluten-free"], hours: weekly("12:00", "00:00"),
+      description: "Old wooden house serving fish and meze under the trees.",
+      buzz: { summary: "Garden meyhane evenings", sources: 200, by: ["@fine_dining"] },
+      post: { handle: "@fine_dining", caption: "Meze for the table, fish for everyone 🐟", likes: "7.4k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Van Kahvaltı Evi", cuisine: "Turkish Breakfast", address: "Cihangir", priceRange: "Medium",
+      offset: [0.0233, 0.0046], scores: [92, 89, 10, 91],
+      dishes: [
+        { name: "Van Breakfast Spread", dietary: ["vegetarian"], allergens: ["dairy", "eggs", "gluten", "sesame"] },
+        { name: "Menemen", dietary: ["vegetarian", "gluten-free"], allergens: ["eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("08:00", "16:00"),
+      description: "Table-covering eastern Turkish breakfast spreads.",
+      buzz: { summary: "Weekend breakfast queue", sources: 380, by: ["@ist_eats"] },
+      post: { handle: "@ist_eats", caption: "Count the plates. We stopped at 20 🍳", likes: "26k", image: DEMO_IMAGES.cafe, isReel: true }
+    }
+  ],
+
+  rome: [
+    {
+      name: "Roscioli Salumeria", cuisine: "Roman", address: "Via dei Giubbonari", priceRange: "High",
+      offset: [-0.0088, -0.0224], scores: [95, 88, 4, 95],
+      dishes: [
+        { name: "Carbonara", allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Burrata with Anchovies", dietary: ["gluten-free"], allergens: ["dairy", "fish"] }
+      ],
+      hours: [...weekly("12:30", "16:00"), ...weekly("19:00", "23:30")],
+      description: "Deli-restaurant behind one of the city's most debated carbonaras.",
+      buzz: { summary: "Carbonara benchmark", sources: 640, by: ["@pasta_paris", "@roma_bites"] },
+      post: { handle: "@roma_bites", caption: "Guanciale, pecorino, yolk. Nothing else 🍝", likes: "39k", image: DEMO_IMAGES.fineDining, isReel: true }
+    },
+    {
+      name: "Pizzarium Bonci", cuisine: "Pizza al Taglio", address: "Via della Meloria", priceRange: "Low",
+      offset: [0.0042, -0.0494], scores: [93, 90, 6, 93],
+      dishes: [
+        { name: "Potato & Mozzarella Slice", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] },
+        { name: "Supplì", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("11:00", "22:00"),
+      description: "Scissor-cut pizza by weight with inventive toppings.",
+      buzz: { summary: "Pizza by the slice king", sources: 520, by: ["@slice_life"] },
+      post: { handle: "@slice_life", caption: "Snip snip, weigh, eat standing 🍕", likes: "22k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Da Enzo al 29", cuisine: "Trattoria", address: "Trastevere", priceRange: "Medium",
+      offset: [-0.0143, -0.0184], scores: [92, 91, 8, 92],
+      dishes: [
+        { name: "Cacio e Pepe", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] },
+        { name: "Carciofi alla Giudia", dietary: ["vegan", "gluten-free"] }
+      ],
+      dietary: ["vegetarian"], hours: [...weekly("12:30", "15:00", [1, 2, 3, 4, 5, 6]), ...weekly("19:30", "23:00", [1, 2, 3, 4, 5, 6])],
+      description: "Tiny Trastevere trattoria doing the Roman classics right.",
+      buzz: { summary: "Trastevere queue", sources: 450, by: ["@roma_bites"] },
+      post: { handle: "@roma_bites", caption: "Fried artichokes, Roman-Jewish style 🌼", likes: "15k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Giolitti", cuisine: "Gelato", address: "Via degli Uffici del Vicario", priceRange: "Low",
+      offset: [-0.0018, -0.0184], scores: [90, 84, 2, 93],
+      dishes: [
+        { name: "Pistachio Gelato", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy", "nuts"] },
+        { name: "Lemon Sorbetto", dietary: ["vegan", "gluten-free", "nut-free"] }
+      ],
+      dietary: ["vegetarian", "gluten-free"], hours: weekly("07:30", "00:00"),
+      description: "Belle-époque gelateria near the Pantheon.",
+      buzz: { summary: "Gelato stop since 1900", sources: 580, by: ["@pastry_hunt"] },
+      post: { handle: "@pastry_hunt", caption: "Panna on top, always 🍨", likes: "17k", image: DEMO_IMAGES.dessert, isReel: false }
+    },
+    {
+      name: "Trapizzino", cuisine: "Roman Street Food", address: "Testaccio", priceRange: "Low",
+      offset: [-0.0248, -0.0204], scores: [89, 92, 14, 89],
+      dishes: [
+        { name: "Pollo alla Cacciatora Trapizzino", dietary: ["dairy-free"], allergens: ["gluten"] },
+        { name: "Eggplant Parmigiana Trapizzino", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] }
+      ],
+      hours: weekly("12:00", "01:00"),
+      description: "Pizza-pocket triangles stuffed with Roman stews.",
+      buzz: { summary: "Testaccio street snack", sources: 300, by: ["@roma_bites", "@food_hunter"] },
+      post: { handle: "@food_hunter", caption: "Stew in a pizza pocket. Genius 🔺", likes: "11k", image: DEMO_IMAGES.burger, isReel: true }
+    }
+  ],
+
+  singapore: [
+    {
+      name: "Tian Tian Hainanese Chicken Rice", cuisine: "Hawker (Chicken Rice)", address: "Maxwell Food Centre", priceRange: "Low",
+      offset: [-0.0100, -0.0072], scores: [93, 90, 4, 94],
+      dishes: [
+        { name: "Hainanese Chicken Rice", dietary: ["dairy-free", "gluten-free"], allergens: ["soy", "sesame"] },
+        { name: "Chili Sauce", dietary: ["vegan", "gluten-free"] }
+      ],
+      dietary: ["dairy-free"], hours: weekly("10:00", "19:30", NOT_MONDAY),
+      description: "Silky poached chicken and fragrant rice at a hawker legend.",
+      buzz: { summary: "Hawker must-eat", sources: 690, by: ["@sg_hawker", "@food_hunter"] },
+      post: { handle: "@sg_hawker", caption: "Silky chicken, garlicky rice 🍚", likes: "28k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Lau Pa Sat Satay Street", cuisine: "Satay", address: "Boon Tat Street", priceRange: "Low",
+      offset: [-0.0097, -0.0015], scores: [88, 91, 10, 87],
+      dishes: [
+        { name: "Chicken Satay", dietary: ["halal", "dairy-free", "gluten-free"], allergens: ["peanuts"] },
+        { name: "Prawn Satay", dietary: ["dairy-free", "gluten-free"], allergens: ["shellfish", "peanuts"] }
+      ],
+      dietary: ["halal"], hours: weekly("19:00", "02:00"),
+      description: "Street closes to traffic nightly for smoky satay grills.",
+      buzz: { summary: "Evening satay smoke", sources: 510, by: ["@night_market_nomad"] },
+      post: { handle: "@night_market_nomad", caption: "When the road becomes a grill 🍢", likes: "31k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Jumbo Seafood", cuisine: "Seafood (Chili Crab)", address: "Riverside Point", priceRange: "High",
+      offset: [-0.0013, -0.0060], scores: [90, 85, 3, 91],
+      dishes: [
+        { name: "Chili Crab", dietary: ["dairy-free"], allergens: ["shellfish", "eggs", "gluten"] },
+        { name: "Mantou Buns", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] }
+      ],
+      hours: [...weekly("11:30", "14:30"), ...weekly("17:30", "23:00")],
+      description: "Messy, sweet-spicy chili crab by the river.",
+      buzz: { summary: "Chili crab classic", sources: 600, by: ["@sg_hawker"] },
+      post: { handle: "@sg_hawker", caption: "Bib on. Mantou ready. 🦀🌶️", likes: "19k", image: DEMO_IMAGES.fineDining, isReel: true }
+    },
+    {
+      name: "Komala Vilas", cuisine: "South Indian Vegetarian", address: "Little India", priceRange: "Low",
+      offset: [0.0162, -0.0010], scores: [89, 80, 5, 89],
+      dishes: [
+        { name: "Paper Dosa", dietary: ["vegan", "gluten-free", "nut-free"] },
+        { name: "Banana Leaf Thali", dietary: ["vegetarian", "nut-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["vegetarian", "nut-free"], hours: weekly("07:00", "22:30"),
+      description: "Banana-leaf meals served since 1947.",
+      buzz: { summary: "Little India veg classic", sources: 230, by: ["@veg_trails"] },
+      post: { handle: "@veg_trails", caption: "Dosa longer than the table 🌱", likes: "7.7k", image: DEMO_IMAGES.plantBased, isReel: false }
+    },
+    {
+      name: "Sungei Road Laksa", cuisine: "Laksa", address: "Jalan Berseh", priceRange: "Low",
+      offset: [0.0157, 0.0050], scores: [90, 86, 6, 90],
+      dishes: [
+        { name: "Charcoal Laksa", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish", "fish"] },
+        { name: "Cockles Add-on", dietary: ["gluten-free", "dairy-free"], allergens: ["shellfish"] }
+      ],
+      dietary: ["gluten-free", "dairy-free"], hours: weekly("09:00", "17:00", [0, 1, 2, 4, 5, 6]),
+      description: "Charcoal-heated laksa pots keeping a 1950s recipe alive.",
+      buzz: { summary: "Spoon-only laksa", sources: 340, by: ["@sg_hawker", "@curry_club"] },
+      post: { handle: "@curry_club", caption: "No chopsticks needed 🥣", likes: "10k", image: DEMO_IMAGES.curry, isReel: false }
+    }
+  ],
+
+  mumbai: [
+    {
+      name: "Britannia & Co.", cuisine: "Parsi", address: "Ballard Estate", priceRange: "Medium",
+      offset: [-0.0055, 0.0045], scores: [93, 84, 2, 93],
+      dishes: [
+        { name: "Berry Pulao", dietary: ["halal", "gluten-free"], allergens: ["dairy", "nuts"] },
+        { name: "Caramel Custard", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy", "eggs"] }
+      ],
+      dietary: ["halal"], hours: weekly("12:00", "16:00", [1, 2, 3, 4, 5, 6]),
+      description: "Century-old Irani cafe famous for berry pulao.",
+      buzz: { summary: "Heritage Parsi lunch", sources: 370, by: ["@bombay_bites"] },
+      post: { handle: "@bombay_bites", caption: "Berry pulao, a century in the making 🍒", likes: "14k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Bademiya", cuisine: "Mughlai Street Food", address: "Colaba", priceRange: "Low",
+      offset: [-0.0175, -0.0020], scores: [88, 90, 7, 87],
+      dishes: [
+        { name: "Seekh Kebab Roll", dietary: ["halal", "dairy-free"], allergens: ["gluten"] },
+        { name: "Chicken Tikka", dietary: ["halal", "gluten-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["halal"], hours: weekly("19:00", "03:00"),
+      description: "Late-night kebab grills behind the Taj.",
+      buzz: { summary: "Colaba night kebabs", sources: 500, by: ["@night_market_nomad", "@bombay_bites"] },
+      post: { handle: "@night_market_nomad", caption: "Midnight kebabs, Colaba style 🔥", likes: "21k", image: DEMO_IMAGES.streetFood, isReel: true }
+    },
+    {
+      name: "Swati Snacks", cuisine: "Gujarati Snacks", address: "Tardeo", priceRange: "Medium",
+      offset: [0.0290, -0.0220], scores: [92, 87, 8, 92],
+      dishes: [
+        { name: "Panki", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy"] },
+        { name: "Sev Puri", dietary: ["vegan"], allergens: ["gluten"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("11:00", "23:00"),
+      description: "Refined takes on Gujarati street snacks.",
+      buzz: { summary: "Panki steamed in banana leaf", sources: 330, by: ["@veg_trails", "@bombay_bites"] },
+      post: { handle: "@veg_trails", caption: "Steamed in banana leaf, peeled at the table 🍃", likes: "9.1k", image: DEMO_IMAGES.plantBased, isReel: true }
+    },
+    {
+      name: "Trishna", cuisine: "Seafood", address: "Kala Ghoda", priceRange: "High",
+      offset: [-0.0110, -0.0030], scores: [94, 86, 5, 94],
+      dishes: [
+        { name: "Butter Garlic Crab", dietary: ["gluten-free"], allergens: ["shellfish", "dairy"] },
+        { name: "Koliwada Prawns", dietary: ["dairy-free"], allergens: ["shellfish", "gluten"] }
+      ],
+      dietary: ["gluten-free"], hours: [...weekly("12:00", "15:30"), ...weekly("18:30", "00:00")],
+      description: "Coastal seafood institution and its famous garlic crab.",
+      buzz: { summary: "Butter garlic crab fame", sources: 410, by: ["@fine_dining"] },
+      post: { handle: "@fine_dining", caption: "Crab drowning in garlic butter 🦀🧈", likes: "16k", image: DEMO_IMAGES.fineDining, isReel: false }
+    },
+    {
+      name: "Aaram Vada Pav", cuisine: "Street Food", address: "Opposite CSMT, Fort", priceRange: "Low",
+      offset: [0.0010, 0.0015], scores: [90, 93, 11, 88],
+      dishes: [
+        { name: "Vada Pav", dietary: ["vegan"], allergens: ["gluten"] },
+        { name: "Cheese Vada Pav", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] }
+      ],
+      dietary: ["vegan", "vegetarian"], hours: weekly("07:00", "21:30", [1, 2, 3, 4, 5, 6]),
+      description: "Commuter stall outside the station frying vada pav nonstop.",
+      buzz: { summary: "Vada pav pilgrimage", sources: 590, by: ["@bombay_bites"] },
+      post: { handle: "@bombay_bites", caption: "Mumbai's burger, and it's vegan 🌶️", likes: "35k", image: DEMO_IMAGES.burger, isReel: true }
+    }
+  ],
+
+  lisbon: [
+    {
+      name: "Manteigaria", cuisine: "Bakery", address: "Rua do Loreto, Chiado", priceRange: "Low",
+      offset: [-0.0118, -0.0047], scores: [95, 90, 3, 96],
+      dishes: [
+        { name: "Pastel de Nata", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+        { name: "Galão", dietary: ["vegetarian", "gluten-free", "nut-free"], allergens: ["dairy"] }
+      ],
+      dietary: ["vegetarian"], hours: weekly("08:00", "00:00"),
+      description: "Custard tarts baked all day, still warm from the oven.",
+      buzz: { summary: "Best nata debate winner", sources: 820, by: ["@pastry_hunt", "@lisbon_eats"] },
+      post: { handle: "@pastry_hunt", caption: "Cinnamon, sugar, still warm 🥧", likes: "48k", image: DEMO_IMAGES.dessert, isReel: true }
+    },
+    {
+      name: "Cervejaria Ramiro", cuisine: "Seafood", address: "Avenida Almirante Reis", priceRange: "High",
+      offset: [-0.0013, 0.0033], scores: [94, 91, 6, 94],
+      dishes: [
+        { name: "Garlic Prawns", dietary: ["gluten-free"], allergens: ["shellfish", "dairy"] },
+        { name: "Prego Steak Roll", dietary: ["dairy-free"], allergens: ["gluten"] }
+      ],
+      hours: weekly("12:00", "00:00", NOT_MONDAY),
+      description: "Shellfish feasts finished, as tradition demands, with a steak roll.",
+      buzz: { summary: "Seafood feast + prego", sources: 560, by: ["@lisbon_eats", "@food_hunter"] },
+      post: { handle: "@lisbon_eats", caption: "Prawns first, prego for dessert 🦐🥖", likes: "24k", image: DEMO_IMAGES.fineDining, isReel: true }
+    },
+    {
+      name: "Time Out Market", cuisine: "Food Hall", address: "Cais do Sodré", priceRange: "Medium",
+      offset: [-0.0153, -0.0067], scores: [86, 89, 4, 86],
+      dishes: [
+        { name: "Bifana", dietary: ["dairy-free"], allergens: ["gluten"] },
+        { name: "Croquetes", allergens: ["gluten", "eggs", "dairy"] }
+      ],
+      hours: weekly("10:00", "00:00"),
+      description: "Chefs' stalls under one roof by the river.",
+      buzz: { summary: "Something for everyone", sources: 700, by: ["@travel_diaries"] },
+      post: { handle: "@travel_diaries", caption: "Can't decide? Try everything 🍴", likes: "13k", image: DEMO_IMAGES.crowd, isReel: false }
+    },
+    {
+      name: "Taberna da Rua das Flores", cuisine: "Portuguese Petiscos", address: "Chiado", priceRange: "Medium",
+      offset: [-0.0123, -0.0037], scores: [93, 88, 9, 92],
+      dishes: [
+        { name: "Sardine Toast", dietary: ["dairy-free"], allergens: ["fish", "gluten"] },
+        { name: "Pork Cheek Stew", dietary: ["gluten-free", "dairy-free"] }
+      ],
+      hours: weekly("12:00", "23:30", [1, 2, 3, 4, 5, 6]),
+      description: "Chalkboard menu of small plates in a tiny tavern.",
+      buzz: { summary: "Chalkboard petiscos", sources: 290, by: ["@lisbon_eats"] },
+      post: { handle: "@lisbon_eats", caption: "Menu changes daily, go early 🐟", likes: "8.2k", image: DEMO_IMAGES.curry, isReel: false }
+    },
+    {
+      name: "Ao 26 Vegan Food Project", cuisine: "Vegan", address: "Rua Vítor Cordon", priceRange: "Medium",
+      offset: [-0.0133, -0.0027], scores: [90, 83, 10, 89],
+      dishes: [
+        { name: "Vegan Francesinha", dietary: ["vegan"], allergens: ["gluten", "soy"] },
+        { name: "Chocolate Mousse", dietary: ["vegan", "gluten-free"], allergens: ["soy"] }
+      ],
+      dietary: ["vegan", "vegetarian"], hours: weekly("12:00", "23:00", [1, 2, 3, 4, 5, 6]),
+      description: "Portuguese classics rebuilt entirely from plants.",
+      buzz: { summary: "Vegan francesinha", sources: 180, by: ["@plantbased_eats"] },
+      post: { handle: "@plantbased_eats", caption: "Francesinha, but make it vegan 🌱🥪", likes: "5.9k", image: DEMO_IMAGES.plantBased, isReel: true }
+    }
+  ]
+};
@@ -0,0 +1,89 @@
+import { Coordinates, GeocodeResult } from "../../types";
+import { distanceKm } from "../geo";
+
+// Offline gazetteer for demo mode: enough places to resolve common location
+// queries without a network call. Places listed in demoFixtures have bundled
+// spots; the rest get seeded spots around their center.
+
+export interface DemoPlace {
+  id: string;
+  name: string;
+  center: Coordinates;
+  timezone: string;
+  aliases: string[]; // Lowercase, accent-free alternatives to the name's first part
+}
+
+export const DEMO_PLACES: DemoPlace[] = [
+  { id: 'kochi', name: 'Kochi, Kerala', center: { lat: 9.9312, lng: 76.2673 }, timezone: 'Asia/Kolkata', aliases: ['cochin', 'ernakulam', 'fort kochi'] },
+  { id: 'paris', name: 'Paris, France', center: { lat: 48.8566, lng: 2.3522 }, timezone: 'Europe/Paris', aliases: [] },
+  { id: 'new-york', name: 'New York, USA', center: { lat: 40.7128, lng: -74.0060 }, timezone: 'America/New_York', aliases: ['nyc', 'manhattan'] },
+  { id: 'tokyo', name: 'Tokyo, Japan', center: { lat: 35.6800, lng: 139.7000 }, timezone: 'Asia/Tokyo', aliases: ['shinjuku', 'shibuya'] },
+  { id: 'london', name: 'London, UK', center: { lat: 51.5072, lng: -0.1276 }, timezone: 'Europe/London', aliases: [] },
+  { id: 'mexico-city', name: 'Mexico City, Mexico', center: { lat: 19.4326, lng: -99.1332 }, timezone: 'America/Mexico_City', aliases: ['cdmx', 'ciudad de mexico'] },
+  { id: 'bangkok', name: 'Bangkok, Thailand', center: { lat: 13.7563, lng: 100.5018 }, timezone: 'Asia/Bangkok', aliases: ['krung thep'] },
+  { id: 'istanbul', name: 'Istanbul, Turkey', center: { lat: 41.0082, lng: 28.9784 }, timezone: 'Europe/Istanbul', aliases: [] },
+  { id: 'rome', name: 'Rome, Italy', center: { lat: 41.9028, lng: 12.4964 }, timezone: 'Europe/Rome', aliases: ['roma'] },
+  { id: 'singapore', name: 'Singapore', center: { lat: 1.2903, lng: 103.8520 }, timezone: 'Asia/Singapore', aliases: [] },
+  { id: 'mumbai', name: 'Mumbai, Maharashtra', center: { lat: 18.9400, lng: 72.8350 }, timezone: 'Asia/Kolkata', aliases: ['bombay'] },
+  { id: 'lisbon', name: 'Lisbon, Portugal', center: { lat: 38.7223, lng: -9.1393 }, timezone: 'Europe/Lisbon', aliases: ['lisboa'] },
+  { id: 'bengaluru', name: 'Bengaluru, Karnataka', center: { lat: 12.9716, lng: 77.5946 }, timezone: 'Asia/Kolkata', aliases: ['bangalore'] },
+  { id: 'delhi', name: 'New Delhi, India', center: { lat: 28.6139, lng: 77.2090 }, timezone: 'Asia/Kolkata', aliases: ['new delhi'] },
+  { id: 'chennai', name: 'Chennai, Tamil Nadu', center: { lat: 13.0827, lng: 80.2707 }, timezone: 'Asia/Kolkata', aliases: ['madras'] },
+  { id: 'berlin', name: 'Berlin, Germany', center: { lat: 52.5200, lng: 13.4050 }, timezone: 'Europe/Berlin', aliases: [] },
+  { id: 'barcelona', name: 'Barcelona, Spain', center: { lat: 41.3874, lng: 2.1686 }, timezone: 'Europe/Madrid', aliases: [] },
+  { id: 'madrid', name: 'Madrid, Spain', center: { lat: 40.4168, lng: -3.7038 }, timezone: 'Europe/Madrid', aliases: [] },
+  { id: 'amsterdam', name: 'Amsterdam, Netherlands', center: { lat: 52.3676, lng: 4.9041 }, timezone: 'Europe/Amsterdam', aliases: [] },
+  { id: 'san-francisco', name: 'San Francisco, USA', center: { lat: 37.7749, lng: -122.4194 }, timezone: 'America/Los_Angeles', aliases: ['sf'] },
+  { id: 'los-angeles', name: 'Los Angeles, USA', center: { lat: 34.0522, lng: -118.2437 }, timezone: 'America/Los_Angeles', aliases: [] },
+  { id: 'chicago', name: 'Chicago, USA', center: { lat: 41.8781, lng: -87.6298 }, timezone: 'America/Chicago', aliases: [] },
+  { id: 'toronto', name: 'Toronto, Canada', center: { lat: 43.6532, lng: -79.3832 }, timezone: 'America/Toronto', aliases: [] },
+  { id: 'sydney', name: 'Sydney, Australia', center: { lat: -33.8688, lng: 151.2093 }, timezone: 'Australia/Sydney', aliases: [] },
+  { id: 'seoul', name: 'Seoul, South Korea', center: { lat: 37.5665, lng: 126.9780 }, timezone: 'Asia/Seoul', aliases: [] },
+  { id: 'hong-kong', name: 'Hong Kong', center: { lat: 22.3193, lng: 114.1694 }, timezone: 'Asia/Hong_Kong', aliases: [] },
+  { id: 'dubai', name: 'Dubai, UAE', center: { lat: 25.2048, lng: 55.2708 }, timezone: 'Asia/Dubai', aliases: [] },
+  { id: 'hanoi', name: 'Hanoi, Vietnam', center: { lat: 21.0278, lng: 105.8342 }, timezone: 'Asia/Bangkok', aliases: ['ha noi'] },
+  { id: 'kuala-lumpur', name: 'Kuala Lumpur, Malaysia', center: { lat: 3.1390, lng: 101.6869 }, timezone: 'Asia/Kuala_Lumpur', aliases: ['kl'] },
+  { id: 'cape-town', name: 'Cape Town, South Africa', center: { lat: -33.9249, lng: 18.4241 }, timezone: 'Africa/Johannesburg', aliases: [] },
+  { id: 'buenos-aires', name: 'Buenos Aires, Argentina', center: { lat: -34.6037, lng: -58.3816 }, timezone: 'America/Argentina/Buenos_Aires', aliases: [] },
+  { id: 'sao-paulo', name: 'São Paulo, Brazil', center: { lat: -23.5558, lng: -46.6396 }, timezone: 'America/Sao_Paulo', aliases: [] }
+];
+
+// Lowercase without accents, so "São Paulo" and "sao paulo" match
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every way a place can be written: its aliases plus the name before the first comma
+const SEARCH_TERMS = DEMO_PLACES.flatMap(place =>
+  [normalize(place.name.split(',')[0]), ...place.aliases].map(term => ({
+    place,
+    length: term.length,
+    pattern: new RegExp(`\\b${escapeRegExp(term)}\\b`)
+  }))
+).sort((a, b) => b.length - a.length);
+
+// The place named in free text ("ramen in shinjuku" -> Tokyo); longest match wins
+export const findPlace = (query: string): DemoPlace | null => {
+  const text = normalize(query);
+  return SEARCH_TERMS.find(term => term.pattern.test(text))?.place ?? null;
+};
+
+// Closest known place to a position, if one is within `maxKm`
+export const findNearestPlace = (position: Coordinates, maxKm: number): DemoPlace | null => {
+  let nearest: DemoPlace | null = null;
+  let nearestKm = maxKm;
+  for (const place of DEMO_PLACES) {
+    const km = distanceKm(position, place.center);
+    if (km <= nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+  return nearest;
+};
+
+export const toGeocodeResult = (place: DemoPlace): GeocodeResult => ({
+  center: place.center,
+  locationName: place.name,
+  timezone: place.timezone
+});
@@ -0,0 +1,241 @@
+import { Coordinates, DietaryTag, FoodSpot } from "../../types";
+import { DEMO_IMAGES, DemoDish, DemoSpotSeed, weekly } from "./demoFixtures";
+
+// Deterministic stand-in spots for places without bundled fixtures. The same
+// seed text always produces the same spots, so demos and CI runs are stable.
+
+interface CuisineTemplate {
+  cuisine: string;
+  keywords: string[]; // Query words that ask for this cuisine
+  names: string[];
+  dishes: DemoDish[];
+  dietary?: DietaryTag[];
+  priceRanges: FoodSpot['priceRange'][];
+  hours: [string, string];
+  image: string;
+  blurbs: string[];
+  captions: string[];
+}
+
+const TEMPLATES: CuisineTemplate[] = [
+  {
+    cuisine: "Ramen", keywords: ["ramen", "noodle", "noodles", "japanese"],
+    names: ["Noodle Bar", "Ramen-ya", "Broth House"],
+    dishes: [
+      { name: "Tonkotsu Ramen", dietary: ["dairy-free"], allergens: ["gluten", "eggs", "soy"] },
+      { name: "Gyoza", dietary: ["dairy-free"], allergens: ["gluten", "soy", "sesame"] }
+    ],
+    dietary: ["dairy-free"], priceRanges: ["Low", "Medium"], hours: ["11:30", "23:00"], image: DEMO_IMAGES.curry,
+    blurbs: ["Slow-simmered broth and springy noodles at a busy counter.", "Late-night bowls with a cult following."],
+    captions: ["That broth though 🍜", "Slurping encouraged 🍜🔥"]
+  },
+  {
+    cuisine: "Pizza", keywords: ["pizza", "pizzeria", "slice", "italian"],
+    names: ["Pizzeria", "Slice Shop", "Forno"],
+    dishes: [
+      { name: "Margherita", dietary: ["vegetarian"], allergens: ["gluten", "dairy"] },
+      { name: "Spicy Salami Pie", allergens: ["gluten", "dairy"] }
+    ],
+    dietary: ["vegetarian"], priceRanges: ["Low", "Medium"], hours: ["12:00", "23:30"], image: DEMO_IMAGES.streetFood,
+    blurbs: ["Blistered wood-fired crusts and simple toppings.", "Neighbourhood slice spot that locals swear by."],
+    captions: ["Cheese pull of the year 🍕", "Crust goals 🍕🔥"]
+  },
+  {
+    cuisine: "Tacos", keywords: ["taco", "tacos", "mexican", "taqueria", "burrito"],
+    names: ["Taqueria", "Taco Stand", "Cantina"],
+    dishes: [
+      { name: "Carnitas Tacos", dietary: ["gluten-free", "dairy-free"] },
+      { name: "Elote", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy", "eggs"] }
+    ],
+    dietary: ["gluten-free"], priceRanges: ["Low"], hours: ["11:00", "00:00"], image: DEMO_IMAGES.streetFood,
+    blurbs: ["Handmade tortillas and a salsa bar worth the trip.", "Griddle-hot tacos until late."],
+    captions: ["Taco Tuesday, every day 🌮", "Salsa verde supremacy 🌮🌶️"]
+  },
+  {
+    cuisine: "Indian Curry House", keywords: ["curry", "indian", "biryani", "dosa", "tandoori"],
+    names: ["Curry House", "Tandoor", "Spice Kitchen"],
+    dishes: [
+      { name: "Chicken Biryani", dietary: ["halal", "gluten-free"], allergens: ["dairy", "nuts"] },
+      { name: "Chana Masala", dietary: ["vegan", "gluten-free", "nut-free"] }
+    ],
+    dietary: ["halal", "vegetarian"], priceRanges: ["Low", "Medium"], hours: ["12:00", "23:00"], image: DEMO_IMAGES.curry,
+    blurbs: ["Fragrant biryanis and slow-cooked curries.", "Tandoor-fired breads and rich gravies."],
+    captions: ["Biryani day is every day 🍛", "Naan straight from the tandoor 🔥"]
+  },
+  {
+    cuisine: "Sushi", keywords: ["sushi", "sashimi", "omakase", "japanese"],
+    names: ["Sushi Counter", "Sushi Bar", "Omakase"],
+    dishes: [
+      { name: "Nigiri Set", dietary: ["dairy-free"], allergens: ["fish", "soy"] },
+      { name: "Avocado Maki", dietary: ["vegan", "dairy-free"], allergens: ["soy", "sesame"] }
+    ],
+    dietary: ["dairy-free"], priceRanges: ["Medium", "High"], hours: ["12:00", "22:00"], image: DEMO_IMAGES.fineDining,
+    blurbs: ["Quiet counter seating and precise nigiri.", "Daily fish delivery, chef's choice recommended."],
+    captions: ["Omakase night 🍣", "Fresh off the boat 🍣✨"]
+  },
+  {
+    cuisine: "Cafe & Bakery", keywords: ["cafe", "coffee", "bakery", "brunch", "breakfast", "pastry"],
+    names: ["Coffee House", "Bakehouse", "Cafe"],
+    dishes: [
+      { name: "Almond Croissant", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs", "nuts"] },
+      { name: "Flat White", dietary: ["vegetarian", "gluten-free", "nut-free"], allergens: ["dairy"] }
+    ],
+    dietary: ["vegetarian"], priceRanges: ["Low", "Medium"], hours: ["07:00", "18:00"], image: DEMO_IMAGES.cafe,
+    blurbs: ["Sunny corner cafe with pastries baked in-house.", "Specialty coffee and a brunch queue on weekends."],
+    captions: ["Croissant crumbs everywhere 🥐", "Flat white, window seat ☕️"]
+  },
+  {
+    cuisine: "Vegan", keywords: ["vegan", "vegetarian", "plant", "plant-based", "salad"],
+    names: ["Green Kitchen", "Plant Bar", "Garden Table"],
+    dishes: [
+      { name: "Buddha Bowl", dietary: ["vegan", "gluten-free"], allergens: ["sesame", "soy"] },
+      { name: "Cashew Cheesecake", dietary: ["vegan", "gluten-free"], allergens: ["nuts"] }
+    ],
+    dietary: ["vegan", "vegetarian"], priceRanges: ["Low", "Medium"], hours: ["10:00", "21:00"], image: DEMO_IMAGES.plantBased,
+    blurbs: ["Colourful plant-based bowls and fresh juices.", "Vegan comfort food that wins over everyone."],
+    captions: ["Plants, but make it pretty 🌱", "You won't miss the meat 🌱🥗"]
+  },
+  {
+    cuisine: "Burgers", keywords: ["burger", "burgers", "fries", "american"],
+    names: ["Burger Joint", "Smash Shack", "Grill"],
+    dishes: [
+      { name: "Double Smash Burger", allergens: ["gluten", "dairy", "sesame"] },
+      { name: "Loaded Fries", dietary: ["vegetarian", "gluten-free"], allergens: ["dairy"] }
+    ],
+    priceRanges: ["Low", "Medium"], hours: ["12:00", "00:00"], image: DEMO_IMAGES.burger,
+    blurbs: ["Crispy-edged smash burgers and thick shakes.", "No-frills grill with a viral secret sauce."],
+    captions: ["Smash it 🍔", "Sauce on everything 🍔🍟"]
+  },
+  {
+    cuisine: "Seafood", keywords: ["seafood", "fish", "oyster", "oysters", "crab", "prawn"],
+    names: ["Fish House", "Oyster Bar", "Harbour Grill"],
+    dishes: [
+      { name: "Grilled Catch of the Day", dietary: ["gluten-free", "dairy-free"], allergens: ["fish"] },
+      { name: "Garlic Prawns", dietary: ["gluten-free"], allergens: ["shellfish", "dairy"] }
+    ],
+    dietary: ["gluten-free"], priceRanges: ["Medium", "High"], hours: ["12:00", "22:30"], image: DEMO_IMAGES.fineDining,
+    blurbs: ["Whatever the boats brought in, simply grilled.", "Seafood platters built for sharing."],
+    captions: ["Catch of the day 🐟", "Shell yeah 🦐"]
+  },
+  {
+    cuisine: "Thai", keywords: ["thai", "pad thai", "green curry", "som tam"],
+    names: ["Thai Kitchen", "Street Wok", "Som Tam House"],
+    dishes: [
+      { name: "Pad Kra Pao", dietary: ["dairy-free"], allergens: ["soy", "fish", "eggs"] },
+      { name: "Green Curry", dietary: ["gluten-free", "dairy-free"], allergens: ["fish"] }
+    ],
+    dietary: ["dairy-free"], priceRanges: ["Low", "Medium"], hours: ["11:00", "22:00"], image: DEMO_IMAGES.curry,
+    blurbs: ["Fiery wok dishes and fragrant curries.", "Bright, herby plates with proper heat."],
+    captions: ["Spice level: yes 🌶️", "Wok hei for days 🔥"]
+  },
+  {
+    cuisine: "Mediterranean", keywords: ["mediterranean", "greek", "falafel", "meze", "kebab", "lebanese", "halal"],
+    names: ["Meze House", "Falafel Bar", "Grill & Meze"],
+    dishes: [
+      { name: "Falafel Plate", dietary: ["vegan", "dairy-free"], allergens: ["sesame", "gluten"] },
+      { name: "Lamb Shawarma", dietary: ["halal", "dairy-free"], allergens: ["gluten", "sesame"] }
+    ],
+    dietary: ["halal", "vegetarian"], priceRanges: ["Low", "Medium"], hours: ["11:00", "23:00"], image: DEMO_IMAGES.streetFood,
+    blurbs: ["Charcoal grills, warm flatbreads and generous meze.", "Crispy falafel and tahini everything."],
+    captions: ["Meze spread goals 🧆", "Hummus, but better 🧆✨"]
+  },
+  {
+    cuisine: "Desserts", keywords: ["dessert", "desserts", "ice cream", "gelato", "cake", "sweet"],
+    names: ["Dessert Bar", "Gelateria", "Patisserie"],
+    dishes: [
+      { name: "Chocolate Fondant", dietary: ["vegetarian"], allergens: ["gluten", "dairy", "eggs"] },
+      { name: "Mango Sorbet", dietary: ["vegan", "gluten-free", "nut-free"] }
+    ],
+    dietary: ["vegetarian"], priceRanges: ["Low", "Medium"], hours: ["12:00", "23:00"], image: DEMO_IMAGES.dessert,
+    blurbs: ["Late-night sweets and plated desserts.", "Small-batch gelato in rotating flavours."],
+    captions: ["Dessert first 🍰", "That chocolate ooze 🍫"]
+  }
+];
+
+const PREFIXES = ["Golden", "Little", "Corner", "Old Town", "Lucky", "Blue Door", "Copper", "Saffron", "Midnight", "Market", "Lantern", "Riverside"];
+const STREETS = ["Market Street", "Station Road", "Harbour Lane", "High Street", "Temple Road", "Park Avenue", "Mill Lane", "Church Street", "Canal Walk", "Garden Road"];
+const HANDLES = ["@local_bites", "@city_food_map", "@hungry_wanderer", "@eat_local", "@foodie_daily", "@street_eats"];
+
+// 32-bit FNV-1a hash, to turn seed text into a PRNG seed
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG returning floats in [0, 1)
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const KM_PER_DEGREE = 111.32;
+
+// Cuisines the query asks for, best match first
+const matchTemplates = (text: string): CuisineTemplate[] => {
+  const q = text.toLowerCase();
+  return TEMPLATES.filter(template => template.keywords.some(keyword => new RegExp(`\\b${keyword}\\b`).test(q)));
+};
+
+export const generateDemoSpots = (seedText: string, center: Coordinates, queryText: string, count = 6): DemoSpotSeed[] => {
+  const random = createSeededRandom(hashSeed(seedText.toLowerCase()));
+  const between = (min: number, max: number) => min + random() * (max - min);
+  const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  // Half the results follow the requested cuisine, the rest are a seeded mix
+  const requested = matchTemplates(queryText);
+  const mix = TEMPLATES.filter(template => !requested.includes(template));
+  for (let i = mix.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [mix[i], mix[j]] = [mix[j], mix[i]];
+  }
+  const templates = requested.length > 0
+    ? [...Array.from({ length: Math.ceil(count / 2) }, (_, i) => requested[i % requested.length]), ...mix]
+    : mix;
+
+  const usedNames = new Set<string>();
+  return templates.slice(0, count).map(template => {
+    let name = `${pick(PREFIXES)} ${pick(template.names)}`;
+    while (usedNames.has(name)) name = `${pick(PREFIXES)} ${pick(template.names)}`;
+    usedNames.add(name);
+
+    // Somewhere 0.3-3.5 km from the center, well inside the search radius
+    const distance = between(0.3, 3.5);
+    const bearing = between(0, 2 * Math.PI);
+    const dLat = (distance * Math.cos(bearing)) / KM_PER_DEGREE;
+    const dLng = (distance * Math.sin(bearing)) / (KM_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180));
+
+    const closedDay = random() < 0.4 ? Math.floor(between(0, 7)) : null;
+    const openDays = [0, 1, 2, 3, 4, 5, 6].filter(day => day !== closedDay);
+
+    return {
+      name,
+      cuisine: template.cuisine,
+      address: `${Math.floor(between(1, 240))} ${pick(STREETS)}`,
+      priceRange: pick(template.priceRanges),
+      offset: [dLat, dLng],
+      // Generated spots are less certain than curated fixtures
+      scores: [Math.round(between(72, 96)), Math.round(between(55, 97)), Math.round(between(-6, 24)), Math.round(between(50, 75))],
+      dishes: template.dishes,
+      dietary: template.dietary,
+      hours: weekly(template.hours[0], template.hours[1], openDays),
+      description: pick(template.blurbs),
+      buzz: { summary: `Local ${template.cuisine.toLowerCase()} favourite`, sources: Math.round(between(30, 420)), by: [pick(HANDLES)] },
+      post: {
+        handle: pick(HANDLES),
+        caption: pick(template.captions),
+        likes: `${between(0.8, 40).toFixed(1)}k`,
+        image: template.image,
+        isReel: random() < 0.5
+      }
+    };
+  });
+};
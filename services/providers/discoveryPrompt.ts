@@ -0,0 +1,99 @@
+import { Coordinates, DiscoveryResult, MapBounds, QueryIntent } from "../../types";
+import { getBoundsRadiusKm } from "../geo";
+import { validateRawSpots, isValidCoordinates } from "../validationService";
+
+// Prompt, system instruction and response parsing shared by the LLM-backed providers.
+// Providers are expected to return JSON in the shape described by `RawDiscoveryResponse`.
+
+export const DISCOVERY_SYSTEM_INSTRUCTION = `You are FoodiFind's core intelligence. Focus on 'hidden gems', viral spots, and high-quality experiences within the requested search area.`;
+
+// Structured constraints from query parsing, so the model doesn't have to re-interpret the raw text
+const describeIntent = (intent?: QueryIntent): string => {
+  if (!intent) return '';
+  const lines = [
+    intent.location && `- Location: ${intent.location}`,
+    intent.cuisine && `- Cuisine or dish: ${intent.cuisine}`,
+    intent.maxPrice && `- Price ceiling: ${intent.maxPrice} (exclude spots in a higher price range)`,
+    intent.dietary.length > 0 && `- Dietary needs: ${intent.dietary.join(', ')} (every spot must offer suitable options)`,
+    intent.mealTime && `- Meal time: ${intent.mealTime} (spots should serve this meal)`,
+    intent.keywords.length > 0 && `- Other preferences: ${intent.keywords.join(' ')}`
+  ].filter(Boolean);
+  return lines.length > 0 ? `\n      Parsed search intent (treat as hard constraints):\n      ${lines.join('\n      ')}\n` : '';
+};
+
+// "Search this area": the visible map, so results land where the user is looking
+const describeBounds = (bounds?: MapBounds): string => bounds
+  ? `      Search area: the visible map, latitude ${bounds.south.toFixed(5)} to ${bounds.north.toFixed(5)}, longitude ${bounds.west.toFixed(5)} to ${bounds.east.toFixed(5)} (about ${getBoundsRadiusKm(bounds).toFixed(1)}km from center to corner). Only return spots inside this area.\n`
+  : '';
+
+const describeLimit = (bounds?: MapBounds): string => bounds
+  ? 'All spots MUST be inside the search area above. Do not recommend spots outside it.'
+  : 'All spots MUST be within a STRICT 5km radius of the location center. Do not recommend spots further away.';
+
+export const buildDiscoveryPrompt = (query: string, center: Coordinates, intent?: QueryIntent, bounds?: MapBounds) => `
+      You are an autonomous AI food discovery agent.
+      
+      Current location coordinates: ${center.lat.toFixed(5)}, ${center.lng.toFixed(5)}
+${describeBounds(bounds)}${describeIntent(intent)}
+      Task:
+      1. Analyze the query "${query}". If it is a location (e.g., "Tokyo"), identify its geographic center (lat/lng). If it is a generic food search (e.g., "Sushi") or refers to the current location, use the provided current location coordinates.
+      2. Find between 6 to 12 trending food spots in that area. 
+      3. CRITICAL: ${describeLimit(bounds)}
+      4. For each spot, analyze recent social sentiment (TikTok/Instagram) to generate scores.
+      5. Provide EXACT latitude and longitude for each spot to ensure map accuracy.
+      6. For each spot, create 1 or 2 simulated viral social media posts (Instagram/TikTok style) that capture the vibe. Mark some as Reels.
+      7. For each spot, list the dietary options it reliably offers and common allergens, and mark each best dish with its dietary suitability and allergens. Leave these empty rather than guessing.
+      8. Include regular weekly opening hours with the establishment's IANA timezone. Omit them if unsure.
+      9. Return a structured JSON object containing the region details and the list of spots.
+    `;
+
+// Plain-text description of the response shape for providers without schema support
+export const DISCOVERY_RESPONSE_FORMAT = `
+      Respond ONLY with a JSON object of the form:
+      {
+        "regionName": string, "regionLat": number, "regionLng": number,
+        "spots": [{
+          "name": string, "cuisine": string, "address": string,
+          "priceRange": "Low" | "Medium" | "High" | "Luxury",
+          "sentimentScore": number (0-100), "trendingScore": number (0-100),
+          "popularityVelocity": number, "bestDishes": string[], "description": string,
+          "dietaryTags": string[] (any of "vegetarian", "vegan", "gluten-free", "halal", "kosher", "dairy-free", "nut-free"),
+          "allergens": string[] (any of "gluten", "dairy", "eggs", "nuts", "peanuts", "shellfish", "fish", "soy", "sesame"),
+          "dishDetails": [{ "name": string (as in bestDishes), "dietary": string[], "allergens": string[] }],
+          "openingHours": { "timezone": string (IANA, e.g. "Asia/Kolkata"), "periods": [{ "day": number (0 = Sunday), "open": "HH:MM", "close": "HH:MM" }] },
+          "aiConfidence": number (0-100), "influencerSummary": string,
+          "sourceCount": number (distinct social posts or creators mentioning the spot recently), "topInfluencers": string[],
+          "latitude": number, "longitude": number,
+          "viralPosts": [{ "handle": string, "caption": string, "likes": string, "imageUrl": string, "isReel": boolean }]
+        }]
+      }
+    `;
+
+export const parseDiscoveryResponse = (
+  text: string,
+  query: string,
+  currentLat: number,
+  currentLng: number,
+  idPrefix: string,
+  stamp: number = Date.now(), // Shared with a stream parser so ids line up
+  bounds?: MapBounds // "Search this area" limits spots to the visible map instead of the radius
+): DiscoveryResult => {
+  const rawData = JSON.parse(text || '{}');
+  const regionName = isNonEmptyString(rawData.regionName) ? rawData.regionName : query;
+  const hasRegionCenter = isValidCoordinates(rawData.regionLat, rawData.regionLng);
+  const center = hasRegionCenter
+    ? { lat: Number(rawData.regionLat), lng: Number(rawData.regionLng) }
+    : { lat: currentLat, lng: currentLng };
+
+  const { spots, report } = validateRawSpots(rawData.spots, center, index => `${idPrefix}-${stamp}-${index}`, bounds);
+
+  return {
+    spots,
+    center,
+    locationName: regionName,
+    validation: report,
+    source: 'live'
+  };
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
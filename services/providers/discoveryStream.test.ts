@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { DiscoveryStreamEvent } from '../../types';
+import { createDiscoveryStreamParser } from './discoveryStream';
+
+const current = { lat: 9.9312, lng: 76.2673 };
+
+const spot = (name: string, extra: Record<string, unknown> = {}) => ({
+  name,
+  cuisine: 'Kerala',
+  latitude: 9.9332,
+  longitude: 76.2643,
+  sentimentScore: 90,
+  trendingScore: 80,
+  bestDishes: ['Fish Moilee'],
+  description: 'Tricky text: {"braces"} [brackets] \\ backslash and "quotes"',
+  ...extra
+});
+
+const response = JSON.stringify({
+  regionName: 'Kochi, Kerala',
+  regionLat: 9.9312,
+  regionLng: 76.2673,
+  spots: [
+    spot('Paragon {"Annex"}'),
+    spot('Kashi Art Cafe', { openingHours: { timezone: 'Asia/Kolkata', periods: [{ day: 1, open: '08:30', close: '19:30' }] } }),
+    spot('Dhe Puttu \\ "Puttu"', { dishDetails: [{ name: 'Fish Moilee', dietary: [], allergens: ['fish'] }] })
+  ]
+});
+
+// Feeds the text in pieces cut at the given offsets and collects every event
+const feed = (text: string, cuts: number[]) => {
+  const parser = createDiscoveryStreamParser('Kochi', current, 'test');
+  const events: DiscoveryStreamEvent[] = [];
+  [0, ...cuts, text.length].reduce((start, end) => {
+    events.push(...parser.push(text.slice(start, end)));
+    return end;
+  });
+  return { events, parser };
+};
+
+const names = (events: DiscoveryStreamEvent[]) =>
+  events.flatMap(event => event.type === 'spot' ? [event.spot.name] : []);
+
+describe('createDiscoveryStreamParser', () => {
+  const expected = ['Paragon {"Annex"}', 'Kashi Art Cafe', 'Dhe Puttu \\ "Puttu"'];
+
+  it('emits the region and each spot from a single chunk', () => {
+    const { events, parser } = feed(response, []);
+    expect(events[0]).toEqual({ type: 'region', center: { lat: 9.9312, lng: 76.2673 }, locationName: 'Kochi, Kerala' });
+    expect(names(events)).toEqual(expected);
+    const done = parser.finish();
+    expect(done.type === 'done' && done.result.spots.map(s => s.id)).toEqual(events.flatMap(e => e.type === 'spot' ? [e.spot.id] : []));
+  });
+
+  it('gives the same spots whatever the chunk size', () => {
+    [1, 2, 3, 7, 64].forEach(size => {
+      const cuts = Array.from({ length: Math.ceil(response.length / size) - 1 }, (_, i) => (i + 1) * size);
+      expect(names(feed(response, cuts).events)).toEqual(expected);
+    });
+  });
+
+  it('handles splits inside strings and right after an escape', () => {
+    const escape = response.indexOf('\\"Annex');
+    const inString = response.indexOf('backslash');
+    const { events } = feed(response, [escape + 1, inString + 3]);
+    expect(names(events)).toEqual(expected);
+  });
+
+  it('waits for nested objects to close before emitting a spot', () => {
+    const nested = response.indexOf('"periods"');
+    const { events: before } = feed(response.slice(0, nested), []);
+    expect(names(before)).toEqual(['Paragon {"Annex"}']);
+    expect(names(feed(response, [nested, nested + 20]).events)).toEqual(expected);
+  });
+
+  it('keeps the spots read before a truncated response and fails the final parse', () => {
+    const cut = response.indexOf('Dhe Puttu');
+    const parser = createDiscoveryStreamParser('Kochi', current, 'test');
+    const events = parser.push(response.slice(0, cut));
+    expect(names(events)).toEqual(expected.slice(0, 2));
+    expect(() => parser.finish()).toThrow(SyntaxError);
+  });
+
+  it('falls back to the current position when the region is missing', () => {
+    const text = JSON.stringify({ spots: [spot('Paragon')] });
+    const { events } = feed(text, [5]);
+    expect(events[0]).toEqual({ type: 'region', center: current, locationName: 'Kochi' });
+    expect(names(events)).toEqual(['Paragon']);
+  });
+});
@@ -0,0 +1,126 @@
+import { Coordinates, DiscoveryStreamEvent, FoodSpot, MapBounds } from "../../types";
+import { isRecord, isValidCoordinates, validateRawSpot } from "../validationService";
+import { parseDiscoveryResponse } from "./discoveryPrompt";
+
+// Incremental reader for the discovery JSON shape. Text arrives in arbitrary
+// chunks; each spot object inside "spots" is parsed and validated as soon as
+// its closing brace arrives, so the UI can show it before the response ends.
+
+interface ScannerState {
+  inString: boolean;
+  escaped: boolean;
+  depth: number;
+  spotsDepth: number | null; // Depth inside the "spots" array, once found
+  itemStart: number | null; // Offset of the spot object being read
+  lastKey: string | null; // Most recent string token at depth 1 (a key candidate)
+  stringStart: number;
+}
+
+export interface DiscoveryStreamParser {
+  push: (chunk: string) => DiscoveryStreamEvent[];
+  finish: () => DiscoveryStreamEvent; // The complete result, validated as a whole
+}
+
+export const createDiscoveryStreamParser = (
+  query: string,
+  current: Coordinates,
+  idPrefix: string,
+  bounds?: MapBounds
+): DiscoveryStreamParser => {
+  const stamp = Date.now();
+  let text = '';
+  let scanned = 0;
+  let center: Coordinates | null = null;
+  let itemIndex = 0;
+  const state: ScannerState = {
+    inString: false, escaped: false, depth: 0, spotsDepth: null, itemStart: null, lastKey: null, stringStart: 0
+  };
+
+  // Region fields precede "spots"; close the object early to read them
+  const readRegion = (keyOffset: number): DiscoveryStreamEvent => {
+    let region: Record<string, unknown> = {};
+    try {
+      const head = text.slice(text.indexOf('{'), keyOffset).trim().replace(/,$/, '');
+      const parsed: unknown = JSON.parse(`${head}}`);
+      if (isRecord(parsed)) region = parsed;
+    } catch {
+      // Region arrives with the final result instead
+    }
+    center = isValidCoordinates(region.regionLat, region.regionLng)
+      ? { lat: Number(region.regionLat), lng: Number(region.regionLng) }
+      : current;
+    const locationName = typeof region.regionName === 'string' && region.regionName.trim() ? region.regionName : query;
+    return { type: 'region', center, locationName };
+  };
+
+  const readSpot = (raw: string): FoodSpot | null => {
+    const index = itemIndex++;
+    try {
+      return validateRawSpot(JSON.parse(raw), `${idPrefix}-${stamp}-${index}`, center, bounds).spot;
+    } catch {
+      return null;
+    }
+  };
+
+  const push = (chunk: string): DiscoveryStreamEvent[] => {
+    text += chunk;
+    const events: DiscoveryStreamEvent[] = [];
+
+    for (; scanned < text.length; scanned++) {
+      const char = text[scanned];
+      if (state.inString) {
+        if (state.escaped) state.escaped = false;
+        else if (char === '\\') state.escaped = true;
+        else if (char === '"') {
+          state.inString = false;
+          if (state.depth === 1) state.lastKey = text.slice(state.stringStart + 1, scanned);
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        state.inString = true;
+        state.stringStart = scanned;
+      } else if (char === '{' || char === '[') {
+        if (char === '[' && state.depth === 1 && state.lastKey === 'spots' && state.spotsDepth === null) {
+          events.push(readRegion(text.lastIndexOf('"spots"', scanned)));
+          state.spotsDepth = state.depth + 1;
+        } else if (char === '{' && state.spotsDepth !== null && state.depth === state.spotsDepth) {
+          state.itemStart = scanned;
+        }
+        state.depth++;
+      } else if (char === '}' || char === ']') {
+        state.depth--;
+        if (char === '}' && state.itemStart !== null && state.depth === state.spotsDepth) {
+          const spot = readSpot(text.slice(state.itemStart, scanned + 1));
+          state.itemStart = null;
+          if (spot) events.push({ type: 'spot', spot });
+        }
+      }
+    }
+    return events;
+  };
+
+  // Same ids as the streamed spots, so the final result replaces them in place
+  const finish = (): DiscoveryStreamEvent => ({
+    type: 'done',
+    result: parseDiscoveryResponse(text, query, current.lat, current.lng, idPrefix, stamp, bounds)
+  });
+
+  return { push, finish };
+};
+
+// Turns a stream of text chunks into discovery events, ending with 'done'
+export async function* parseDiscoveryStream(
+  chunks: AsyncIterable<string>,
+  query: string,
+  current: Coordinates,
+  idPrefix: string,
+  bounds?: MapBounds
+): AsyncGenerator<DiscoveryStreamEvent> {
+  const parser = createDiscoveryStreamParser(query, current, idPrefix, bounds);
+  for await (const chunk of chunks) {
+    yield* parser.push(chunk);
+  }
+  yield parser.finish();
+}
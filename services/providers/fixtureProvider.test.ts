@@ -0,0 +1,25 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createFixtureProvider } from './fixtureProvider';
+import { mockSpots } from './mockProvider';
+
+const request = { query: 'Kochi', center: { lat: 9.9312, lng: 76.2673 } };
+
+describe('createFixtureProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a fixture that failed to load', async () => {
+    const fixture = mockSpots('Kochi, Kerala', 0, 0);
+    const fetch = vi.fn()
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce({ ok: true, json: async () => fixture });
+    vi.stubGlobal('fetch', fetch);
+    const provider = createFixtureProvider('/fixtures/kochi.json');
+
+    await expect(provider.discover(request)).rejects.toThrow('Failed to load fixture /fixtures/kochi.json: 503');
+    await expect(provider.discover(request)).resolves.toMatchObject({ locationName: fixture.locationName, source: 'mock' });
+    await provider.discover(request);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
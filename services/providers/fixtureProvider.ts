@@ -0,0 +1,31 @@
+import { DiscoveryProvider, DiscoveryResult } from "../../types";
+
+// Serves a static DiscoveryResult, either inline or loaded once from a JSON URL.
+// Useful for tests and screenshots where results must never change.
+export const createFixtureProvider = (source: DiscoveryResult | string): DiscoveryProvider => {
+  let fixturePromise: Promise<DiscoveryResult> | null = null;
+
+  const load = () => {
+    if (!fixturePromise) {
+      fixturePromise = typeof source === 'string'
+        ? fetch(source).then(res => {
+            if (!res.ok) throw new Error(`Failed to load fixture ${source}: ${res.status}`);
+            return res.json() as Promise<DiscoveryResult>;
+          })
+        : Promise.resolve(source);
+      // A failed load isn't cached, so the next discovery tries again
+      fixturePromise.catch(() => { fixturePromise = null; });
+    }
+    return fixturePromise;
+  };
+
+  return {
+    id: 'fixture',
+    label: 'Fixture',
+    discover: async () => {
+      const fixture = await load();
+      // Hand out copies so callers can't mutate the fixture; canned data is never live
+      return { ...structuredClone(fixture), source: 'mock' };
+    }
+  };
+};
@@ -0,0 +1,148 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { DiscoveryProvider, DiscoveryRequest, QueryIntent } from "../../types";
+import { buildDiscoveryPrompt, parseDiscoveryResponse, DISCOVERY_SYSTEM_INSTRUCTION } from "./discoveryPrompt";
+import { parseDiscoveryStream } from "./discoveryStream";
+import { ALLERGENS, DIETARY_TAGS } from "../dietaryService";
+
+const dietaryEnum = DIETARY_TAGS.map(tag => tag.key);
+const allergenEnum = ALLERGENS.map(allergen => allergen.key);
+
+const spotSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    cuisine: { type: Type.STRING },
+    address: { type: Type.STRING },
+    priceRange: { type: Type.STRING, enum: ['Low', 'Medium', 'High', 'Luxury'] },
+    sentimentScore: { type: Type.NUMBER, description: "Score from 0-100 based on reviews" },
+    trendingScore: { type: Type.NUMBER, description: "Score from 0-100 based on recent social media activity" },
+    popularityVelocity: { type: Type.NUMBER, description: "Positive or negative integer indicating growth" },
+    bestDishes: { type: Type.ARRAY, items: { type: Type.STRING } },
+    dietaryTags: { type: Type.ARRAY, description: "Dietary options the kitchen reliably offers", items: { type: Type.STRING, enum: dietaryEnum } },
+    allergens: { type: Type.ARRAY, description: "Allergens common across the menu", items: { type: Type.STRING, enum: allergenEnum } },
+    dishDetails: {
+      type: Type.ARRAY,
+      description: "Dietary suitability and allergens for each of the best dishes",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "Exactly as listed in bestDishes" },
+          dietary: { type: Type.ARRAY, items: { type: Type.STRING, enum: dietaryEnum } },
+          allergens: { type: Type.ARRAY, items: { type: Type.STRING, enum: allergenEnum } }
+        }
+      }
+    },
+    description: { type: Type.STRING, description: "Short AI summary of the vibe" },
+    aiConfidence: { type: Type.NUMBER, description: "0-100 confidence in data accuracy" },
+    influencerSummary: { type: Type.STRING, description: "Summary of what influencers are saying" },
+    sourceCount: { type: Type.INTEGER, description: "Number of distinct social posts or creators mentioning the spot recently" },
+    topInfluencers: { type: Type.ARRAY, items: { type: Type.STRING } },
+    openingHours: {
+      type: Type.OBJECT,
+      description: "Regular weekly opening hours",
+      properties: {
+        timezone: { type: Type.STRING, description: "IANA timezone of the establishment, e.g. 'Asia/Kolkata'" },
+        periods: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              day: { type: Type.INTEGER, description: "Day the period opens, 0 = Sunday ... 6 = Saturday" },
+              open: { type: Type.STRING, description: "Opening time, HH:MM 24h local time" },
+              close: { type: Type.STRING, description: "Closing time, HH:MM 24h; earlier than open if past midnight" }
+            }
+          }
+        }
+      }
+    },
+    latitude: { type: Type.NUMBER, description: "Precise latitude of the establishment" },
+    longitude: { type: Type.NUMBER, description: "Precise longitude of the establishment" },
+    viralPosts: { 
+      type: Type.ARRAY, 
+      description: "List of 1-2 relevant social media posts",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          handle: { type: Type.STRING },
+          caption: { type: Type.STRING },
+          likes: { type: Type.STRING },
+          imageUrl: { type: Type.STRING },
+          isReel: { type: Type.BOOLEAN }
+        }
+      }
+    }
+  },
+  required: ["name", "cuisine", "sentimentScore", "trendingScore", "bestDishes", "description", "latitude", "longitude"]
+};
+
+// Root schema now includes region metadata to handle "Geocoding" via AI
+const discoveryResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    regionName: { type: Type.STRING, description: "The formalized name of the location found, e.g. 'Paris, France'" },
+    regionLat: { type: Type.NUMBER, description: "Latitude of the location center" },
+    regionLng: { type: Type.NUMBER, description: "Longitude of the location center" },
+    spots: {
+      type: Type.ARRAY,
+      items: spotSchema
+    }
+  },
+  // Region first, so a streamed response can place the map before any spot arrives
+  propertyOrdering: ['regionName', 'regionLat', 'regionLng', 'spots']
+};
+
+const queryIntentSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    location: { type: Type.STRING, nullable: true, description: "Place name, if the query names one" },
+    cuisine: { type: Type.STRING, nullable: true, description: "Cuisine or dish, as the user phrased it" },
+    maxPrice: { type: Type.STRING, nullable: true, enum: ['Low', 'Medium', 'High', 'Luxury'], description: "Most expensive acceptable price range" },
+    dietary: { type: Type.ARRAY, items: { type: Type.STRING, enum: dietaryEnum } },
+    mealTime: { type: Type.STRING, nullable: true, enum: ['breakfast', 'brunch', 'lunch', 'dinner', 'late-night'] }
+  }
+};
+
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.5-flash'): DiscoveryProvider => {
+  // Initialize Gemini
+  const ai = new GoogleGenAI({ apiKey });
+
+  const discoveryParams = ({ query, center, intent, bounds, signal }: DiscoveryRequest) => ({
+    model,
+    contents: buildDiscoveryPrompt(query, center, intent, bounds),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: discoveryResponseSchema,
+      systemInstruction: DISCOVERY_SYSTEM_INSTRUCTION,
+      abortSignal: signal
+    }
+  });
+
+  return {
+    id: 'gemini',
+    label: 'Gemini',
+    discover: async (request) => {
+      const result = await ai.models.generateContent(discoveryParams(request));
+      return parseDiscoveryResponse(result.text || '{}', request.query, request.center.lat, request.center.lng, 'gemini', Date.now(), request.bounds);
+    },
+    discoverStream: async function* (request) {
+      const stream = await ai.models.generateContentStream(discoveryParams(request));
+      const chunks = (async function* () {
+        for await (const chunk of stream) {
+          if (chunk.text) yield chunk.text;
+        }
+      })();
+      yield* parseDiscoveryStream(chunks, request.query, request.center, 'gemini', request.bounds);
+    },
+    parseQuery: async (query) => {
+      const result = await ai.models.generateContent({
+        model,
+        contents: `Extract the structured food search intent from this query: "${query}". Leave fields null when the query does not say.`,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: queryIntentSchema
+        }
+      });
+      return JSON.parse(result.text || '{}') as Partial<QueryIntent>;
+    }
+  };
+};
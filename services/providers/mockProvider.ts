@@ -0,0 +1,102 @@
+import { Allergen, Coordinates, DiscoveryProvider, DiscoveryResult, DishAttributes, FoodSpot } from "../../types";
+import { distanceKm } from "../geo";
+import { MAX_RADIUS_KM } from "../validationService";
+import { DEMO_FIXTURES, DemoSpotSeed } from "./demoFixtures";
+import { DemoPlace, findNearestPlace, findPlace, toGeocodeResult } from "./demoGazetteer";
+import { generateDemoSpots, hashSeed } from "./demoGenerator";
+
+// How far from a known place a position still borrows its name
+const NEARBY_PLACE_KM = 50;
+
+// Offline geocoding against the bundled gazetteer
+export const mockGeocode = (query: string) => {
+  const place = findPlace(query);
+  return place ? toGeocodeResult(place) : null;
+};
+
+const toFoodSpot = (seed: DemoSpotSeed, id: string, center: Coordinates, timezone: string): FoodSpot => {
+  const [sentimentScore, trendingScore, popularityVelocity, aiConfidence] = seed.scores;
+  const allergens = new Set<Allergen>(seed.dishes.flatMap(dish => dish.allergens ?? []));
+  const dishAttributes: Record<string, DishAttributes> = Object.fromEntries(
+    seed.dishes.map(dish => [dish.name, { dietary: dish.dietary ?? [], allergens: dish.allergens ?? [] }])
+  );
+  return {
+    id,
+    name: seed.name,
+    cuisine: seed.cuisine,
+    address: seed.address,
+    priceRange: seed.priceRange,
+    coordinates: { lat: center.lat + seed.offset[0], lng: center.lng + seed.offset[1] },
+    sentimentScore,
+    trendingScore,
+    popularityVelocity,
+    bestDishes: seed.dishes.map(dish => dish.name),
+    dietaryTags: seed.dietary ?? [],
+    allergens: [...allergens],
+    dishAttributes,
+    openingHours: { timezone, periods: seed.hours },
+    description: seed.description,
+    aiConfidence,
+    influencerData: { summary: seed.buzz.summary, sourceCount: seed.buzz.sources, topMentionedBy: seed.buzz.by },
+    viralPosts: [{
+      handle: seed.post.handle,
+      caption: seed.post.caption,
+      likes: seed.post.likes,
+      imageUrl: seed.post.image,
+      isReel: seed.post.isReel
+    }],
+    lastUpdated: new Date().toISOString()
+  };
+};
+
+const fixtureSpots = (place: DemoPlace): FoodSpot[] =>
+  DEMO_FIXTURES[place.id].map((seed, i) => toFoodSpot(seed, `demo-${place.id}-${i + 1}`, place.center, place.timezone));
+
+// Seeded spots: the same place and query always give the same results
+const generatedSpots = (seedText: string, center: Coordinates, queryText: string, timezone: string): FoodSpot[] => {
+  const prefix = `demo-gen-${hashSeed(seedText.toLowerCase()).toString(36)}`;
+  return generateDemoSpots(seedText, center, queryText)
+    .map((seed, i) => toFoodSpot(seed, `${prefix}-${i + 1}`, center, timezone));
+};
+
+// Demo discovery: bundled spots for fixture cities, seeded spots everywhere else.
+// `cuisine` (from the parsed intent) steers seeded results alongside the query text.
+export const mockSpots = (query: string, lat: number, lng: number, cuisine?: string | null): DiscoveryResult => {
+  const queryText = cuisine ? `${query} ${cuisine}` : query;
+  const named = findPlace(query);
+
+  if (named) {
+    const spots = DEMO_FIXTURES[named.id]
+      ? fixtureSpots(named)
+      : generatedSpots(`${named.id}|${cuisine ?? query}`, named.center, queryText, named.timezone);
+    return { spots, center: named.center, locationName: named.name, source: 'mock' };
+  }
+
+  // No place in the query ("Current Map Area", "ramen near me"): search around the given position
+  const center = { lat, lng };
+  const fixtureCity = findNearestPlace(center, MAX_RADIUS_KM);
+  if (fixtureCity && DEMO_FIXTURES[fixtureCity.id]) {
+    // Keep the user's position as the center; fixture spots beyond the radius from it are left out
+    const spots = fixtureSpots(fixtureCity).filter(spot => distanceKm(center, spot.coordinates) <= MAX_RADIUS_KM);
+    return { spots, center, locationName: fixtureCity.name, source: 'mock' };
+  }
+
+  const nearby = findNearestPlace(center, NEARBY_PLACE_KM);
+  // Rounded so small map nudges keep the same seeded spots
+  const cell = `${lat.toFixed(2)},${lng.toFixed(2)}`;
+  // Unknown places are assumed to be local to the browser
+  const timezone = nearby?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return {
+    spots: generatedSpots(`${cell}|${cuisine ?? query}`, center, queryText, timezone),
+    center,
+    locationName: nearby ? `Near ${nearby.name}` : `Near ${lat.toFixed(3)}, ${lng.toFixed(3)}`,
+    source: 'mock'
+  };
+};
+
+export const createMockProvider = (): DiscoveryProvider => ({
+  id: 'mock',
+  label: 'Demo Data',
+  discover: async ({ query, center, intent }) => mockSpots(query, center.lat, center.lng, intent?.cuisine),
+  geocode: async (query) => mockGeocode(query)
+});
@@ -0,0 +1,85 @@
+import { DiscoveryProvider, DiscoveryRequest } from "../../types";
+import { buildDiscoveryPrompt, parseDiscoveryResponse, DISCOVERY_SYSTEM_INSTRUCTION, DISCOVERY_RESPONSE_FORMAT } from "./discoveryPrompt";
+import { parseDiscoveryStream } from "./discoveryStream";
+import { createHttpError } from "../resilienceService";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+// Content deltas from a server-sent `/chat/completions` stream
+async function* readCompletionDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+          const content = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (content) yield content;
+        } catch {
+          // Keep-alives and partial frames carry no content
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Talks to any server implementing the OpenAI `/chat/completions` API (llama.cpp, Ollama, vLLM, LM Studio...)
+export const createOpenAICompatibleProvider = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): DiscoveryProvider => {
+  const requestCompletion = async ({ query, center, intent, bounds, signal }: DiscoveryRequest, stream: boolean) => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: DISCOVERY_SYSTEM_INSTRUCTION },
+          { role: 'user', content: buildDiscoveryPrompt(query, center, intent, bounds) + DISCOVERY_RESPONSE_FORMAT }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw createHttpError(response);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: `Local (${model})`,
+    discover: async (request) => {
+      const data = await (await requestCompletion(request, false)).json();
+      const text: string = data.choices?.[0]?.message?.content || '{}';
+      return parseDiscoveryResponse(text, request.query, request.center.lat, request.center.lng, 'local', Date.now(), request.bounds);
+    },
+    discoverStream: async function* (request) {
+      const response = await requestCompletion(request, true);
+      if (!response.body) {
+        throw new Error('Local model returned no response body to stream');
+      }
+      yield* parseDiscoveryStream(readCompletionDeltas(response.body), request.query, request.center, 'local', request.bounds);
+    }
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { composeQuery, parseQueryIntent } from './queryIntentService';
+
+describe('parseQueryIntent', () => {
+  it('keeps every word of a bare place name', () => {
+    expect(parseQueryIntent('New York').location).toBe('New York');
+    expect(parseQueryIntent('new york').location).toBe('new york');
+    expect(parseQueryIntent('The Hague').location).toBe('The Hague');
+    expect(parseQueryIntent('Fort Kochi').location).toBe('Fort Kochi');
+  });
+
+  it('drops generic filler around a bare place name', () => {
+    expect(parseQueryIntent('best food New York').location).toBe('New York');
+  });
+
+  it('keeps capitalized place words next to recognized intent', () => {
+    const intent = parseQueryIntent('vegan ramen New York');
+    expect(intent).toMatchObject({ location: 'New York', cuisine: 'Ramen', dietary: ['vegan'] });
+  });
+
+  it('reads the location after a preposition', () => {
+    expect(parseQueryIntent('cheap biryani in New York')).toMatchObject({ location: 'New York', cuisine: 'Biryani', maxPrice: 'Low' });
+    expect(parseQueryIntent('Kochi, Kerala').location).toBe('Kochi, Kerala');
+  });
+
+  it.each(['best biryani near me', 'biryani around me', 'nearby biryani', 'biryani close by', 'biryani near here'])(
+    'treats "%s" as the current position',
+    (query) => {
+      const intent = parseQueryIntent(query);
+      expect(intent.location).toBeNull();
+      expect(intent.cuisine).toBe('Biryani');
+      expect(intent.keywords).toEqual([]);
+    }
+  );
+
+  it('treats a bare "near me" as no intent at all', () => {
+    expect(parseQueryIntent('food near me')).toMatchObject({ location: null, cuisine: null, keywords: [] });
+  });
+
+  it('round-trips through composeQuery', () => {
+    expect(composeQuery(parseQueryIntent('vegan ramen near me'))).toBe('vegan Ramen');
+    expect(composeQuery(parseQueryIntent('pizza in New York'))).toBe('Pizza in New York');
+  });
+});
@@ -0,0 +1,173 @@
+import { DiscoveryProvider, FilterState, MealTime, PriceRange, QueryIntent } from "../types";
+import { DIETARY_TAGS, getDietaryLabel, parseDietaryTags } from "./dietaryService";
+import { PRICE_RANGES } from "./filterService";
+
+// Query understanding: "cheap vegan brunch in Fort Kochi" becomes
+// { location, cuisine, maxPrice, dietary, mealTime }. The rule-based parser
+// runs offline; providers that implement parseQuery can fill in what it missed.
+
+export const EMPTY_INTENT: QueryIntent = { location: null, cuisine: null, maxPrice: null, dietary: [], mealTime: null, keywords: [] };
+
+export const MEAL_TIMES: { key: MealTime; label: string; pattern: RegExp }[] = [
+  { key: 'breakfast', label: 'Breakfast', pattern: /\bbreakfast\b/ },
+  { key: 'brunch', label: 'Brunch', pattern: /\bbrunch\b/ },
+  { key: 'lunch', label: 'Lunch', pattern: /\blunch\b/ },
+  { key: 'dinner', label: 'Dinner', pattern: /\b(dinner|supper)\b/ },
+  { key: 'late-night', label: 'Late night', pattern: /\b(late[- ]night|midnight|after hours)\b/ }
+];
+
+// Ceilings only: "upscale" says nothing about the most someone will pay
+const PRICE_CEILINGS: { maxPrice: PriceRange; word: string; pattern: RegExp }[] = [
+  { maxPrice: 'Low', word: 'cheap', pattern: /\b(cheap|budget|affordable|inexpensive|pocket[- ]friendly)\b/ },
+  { maxPrice: 'Medium', word: 'mid-range', pattern: /\b(mid[- ]range|moderately priced|moderate|not too expensive)\b/ }
+];
+
+// Cuisine and dish vocabulary; the user's own term is kept as the cuisine ("sushi", not "Japanese")
+const CUISINE_PATTERN = new RegExp('\\b(' + [
+  'seafood', 'fish', 'prawns?', 'crab', 'kerala', 'malabar', 'south indian', 'north indian', 'dosa', 'idli', 'thali',
+  'biryani', 'indian', 'curry', 'tandoori', 'chinese', 'dim sum', 'dumplings?', 'japanese', 'sushi', 'ramen', 'izakaya',
+  'korean', 'thai', 'vietnamese', 'pho', 'banh mi', 'italian', 'pasta', 'pizza', 'french', 'bistro', 'mexican', 'tacos?',
+  'burritos?', 'mediterranean', 'greek', 'falafel', 'middle eastern', 'arabic', 'lebanese', 'shawarma', 'mandi', 'burgers?',
+  'bbq', 'barbecue', 'street food', 'cafe', 'café', 'coffee', 'bakery', 'pastries', 'desserts?', 'ice cream', 'gelato'
+].join('|') + ')\\b');
+
+const titleCase = (text: string) => text.replace(/\b\w/g, c => c.toUpperCase());
+
+// "Kochi, Kerala" or "Paris, France": a place even though it contains a cuisine word
+const PLACE_WITH_REGION = /^[A-Z][\w\s'.-]*,\s*[A-Z][\w\s'.-]*$/;
+
+const LOCATION_PATTERN = /\b(?:in|at|near|around)\s+(.+)$/i;
+
+// "near me", "nearby": search around the current position, so no location
+const NEAR_ME_PATTERN = /\b(?:(?:near|around|close to)\s+(?:me|here|my location)|nearby|close by)\b/gi;
+
+// Words with no intent once the recognized phrases are removed
+const FILLER = new Set([
+  'a', 'an', 'the', 'best', 'good', 'great', 'top', 'trending', 'popular', 'food', 'foods', 'spots', 'spot', 'places',
+  'place', 'restaurants', 'restaurant', 'eats', 'eat', 'where', 'to', 'some', 'find', 'me', 'show', 'for', 'and',
+  'with', 'options', 'joints', 'hidden', 'gems', 'gem', 'viral', 'new', 'of'
+]);
+
+// Filler words that also start or join place names ("New York", "The Hague", "Isle of Man")
+const PLACE_WORDS = new Set(['new', 'the', 'of', 'and']);
+
+const bareWord = (word: string) => word.toLowerCase().replace(/[^a-z0-9'-]/g, '');
+
+// A query that is only a place keeps all its words; just generic filler around it is dropped
+const trimFiller = (words: string[]): string[] => {
+  const isEdgeFiller = (word: string) => FILLER.has(bareWord(word)) && !PLACE_WORDS.has(bareWord(word));
+  let start = 0;
+  let end = words.length;
+  while (start < end && isEdgeFiller(words[start])) start++;
+  while (end > start && isEdgeFiller(words[end - 1])) end--;
+  return words.slice(start, end);
+};
+
+const stripPattern = (text: string, pattern: RegExp) => text.replace(new RegExp(pattern.source, 'g'), ' ');
+
+export const parseQueryIntent = (query: string): QueryIntent => {
+  const original = query.replace(NEAR_ME_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  let location: string | null = null;
+  let rest = original;
+
+  if (PLACE_WITH_REGION.test(original)) {
+    return { ...EMPTY_INTENT, location: original };
+  }
+
+  const locationMatch = original.match(LOCATION_PATTERN);
+  if (locationMatch) {
+    location = locationMatch[1].trim().replace(/[?!.]+$/, '') || null;
+    rest = original.slice(0, locationMatch.index);
+  }
+
+  let text = rest.toLowerCase();
+  const dietary = parseDietaryTags(text);
+  DIETARY_TAGS.forEach(tag => { text = stripPattern(text, tag.pattern); });
+
+  const price = PRICE_CEILINGS.find(p => p.pattern.test(text));
+  if (price) text = stripPattern(text, price.pattern);
+
+  const meal = MEAL_TIMES.find(m => m.pattern.test(text));
+  if (meal) text = stripPattern(text, meal.pattern);
+
+  const cuisineMatch = text.match(CUISINE_PATTERN);
+  const cuisine = cuisineMatch ? titleCase(cuisineMatch[1]) : null;
+  if (cuisineMatch) text = text.replace(cuisineMatch[0], ' ');
+
+  const leftover = text.replace(/[^a-z0-9\s'-]/g, ' ').split(/\s+/).filter(word => word && !FILLER.has(word));
+
+  // A bare place name ("Paris", "Fort Kochi") has nothing else to recognize
+  const recognizedAnything = Boolean(dietary.length || price || meal || cuisine);
+  if (!location && leftover.length > 0 && (!recognizedAnything || /[A-Z]/.test(rest))) {
+    const words = recognizedAnything
+      // Capitalized place words stay with the name ("vegan New York" -> "New York")
+      ? rest.split(/\s+/).filter(word => leftover.includes(bareWord(word)) || (/^[A-Z]/.test(word) && PLACE_WORDS.has(bareWord(word))))
+      : trimFiller(rest.trim().split(/\s+/));
+    location = words.join(' ').replace(/[,.?!\s]+$/, '') || null;
+    return { location, cuisine, maxPrice: price?.maxPrice ?? null, dietary, mealTime: meal?.key ?? null, keywords: [] };
+  }
+
+  return {
+    location,
+    cuisine,
+    maxPrice: price?.maxPrice ?? null,
+    dietary,
+    mealTime: meal?.key ?? null,
+    keywords: leftover
+  };
+};
+
+// Rebuilds a readable query so edited chips round-trip through the URL and the cache key
+export const composeQuery = (intent: QueryIntent): string => {
+  const parts = [
+    PRICE_CEILINGS.find(p => p.maxPrice === intent.maxPrice)?.word,
+    ...intent.dietary.map(tag => getDietaryLabel(tag).toLowerCase()),
+    MEAL_TIMES.find(m => m.key === intent.mealTime)?.label.toLowerCase(),
+    intent.cuisine,
+    ...intent.keywords
+  ].filter(Boolean);
+  const what = parts.join(' ');
+  if (!intent.location) return what;
+  return what ? `${what} in ${intent.location}` : intent.location;
+};
+
+export const isEmptyIntent = (intent: QueryIntent) => composeQuery(intent) === '';
+
+// Fills gaps in the rule-based result from the model; rule-based values win
+const mergeIntent = (parsed: QueryIntent, assisted: Partial<QueryIntent>): QueryIntent => {
+  const merged: QueryIntent = {
+    location: parsed.location ?? assisted.location ?? null,
+    cuisine: parsed.cuisine ?? assisted.cuisine ?? null,
+    maxPrice: parsed.maxPrice ?? (assisted.maxPrice && PRICE_RANGES.includes(assisted.maxPrice) ? assisted.maxPrice : null),
+    dietary: Array.from(new Set([...parsed.dietary, ...(assisted.dietary ?? []).filter(tag => DIETARY_TAGS.some(t => t.key === tag))])),
+    mealTime: parsed.mealTime ?? (MEAL_TIMES.some(m => m.key === assisted.mealTime) ? assisted.mealTime! : null),
+    keywords: []
+  };
+  const claimed = [merged.location, merged.cuisine].filter(Boolean).join(' ').toLowerCase();
+  merged.keywords = parsed.keywords.filter(word => !claimed.includes(word));
+  return merged;
+};
+
+// Rule-based first; only ask the provider when words were left unexplained
+export const resolveQueryIntent = async (query: string, provider?: DiscoveryProvider): Promise<QueryIntent> => {
+  const parsed = parseQueryIntent(query);
+  if (!provider?.parseQuery || parsed.keywords.length === 0) return parsed;
+  try {
+    const assisted = await provider.parseQuery(query);
+    return assisted ? mergeIntent(parsed, assisted) : parsed;
+  } catch (error) {
+    console.warn("Model-assisted query parsing failed, using rule-based result:", error);
+    return parsed;
+  }
+};
+
+// Applies the intent to the filters; cuisine is matched against the labels the results actually use
+export const applyIntentToFilters = (intent: QueryIntent, filters: FilterState, cuisineOptions: string[]): FilterState => {
+  const cuisine = intent.cuisine?.toLowerCase();
+  return {
+    ...filters,
+    cuisines: cuisine ? cuisineOptions.filter(option => option.toLowerCase().includes(cuisine)) : [],
+    priceRanges: intent.maxPrice ? PRICE_RANGES.slice(0, PRICE_RANGES.indexOf(intent.maxPrice) + 1) : [],
+    dietary: intent.dietary
+  };
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WEIGHTS, scoreSpot } from './rankingService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('scoreSpot', () => {
+  const { spots, center } = mockSpots('Kochi, Kerala', 0, 0);
+  const spot = spots[0];
+  const unreported = { ...spot, influencerData: { ...spot.influencerData, sourceCount: undefined } };
+
+  it('leaves an unreported source count out of the weighting', () => {
+    const { score, components } = scoreSpot(unreported, center, DEFAULT_WEIGHTS);
+    expect(components.map(c => c.key)).not.toContain('sources');
+    expect(components.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1);
+    const weights = { ...DEFAULT_WEIGHTS, sources: 0 };
+    expect(score).toBe(scoreSpot(spot, center, weights).score);
+  });
+
+  it('scores a negative source count like zero instead of NaN', () => {
+    const negative = { ...spot, influencerData: { ...spot.influencerData, sourceCount: -5 } };
+    const zero = { ...spot, influencerData: { ...spot.influencerData, sourceCount: 0 } };
+    expect(scoreSpot(negative, center, DEFAULT_WEIGHTS).score).toBe(scoreSpot(zero, center, DEFAULT_WEIGHTS).score);
+    expect(Number.isNaN(scoreSpot(negative, center, DEFAULT_WEIGHTS).score)).toBe(false);
+  });
+});
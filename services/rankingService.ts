@@ -0,0 +1,101 @@
+import { Coordinates, FoodSpot, RankingWeights, ScoreComponent, SpotRanking } from "../types";
+import { distanceKm } from "./geo";
+import { MAX_RADIUS_KM } from "./validationService";
+
+export const DEFAULT_WEIGHTS: RankingWeights = {
+  sentiment: 3,
+  trending: 3,
+  velocity: 2,
+  confidence: 1,
+  sources: 1,
+  distance: 2
+};
+
+export const WEIGHT_LABELS: Record<keyof RankingWeights, string> = {
+  sentiment: 'Sentiment',
+  trending: 'Trending',
+  velocity: 'Velocity',
+  confidence: 'AI Confidence',
+  sources: 'Influencer Sources',
+  distance: 'Proximity'
+};
+
+const WEIGHTS_STORAGE_KEY = 'foodifind-ranking-weights';
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+// Velocity beyond ±25 is treated as saturated
+const VELOCITY_RANGE = 25;
+// Source counts are log-scaled so one mega-viral spot doesn't flatten the rest
+const SOURCE_SATURATION = 500;
+
+type SignalValues = Partial<Record<keyof RankingWeights, { raw: number; normalized: number }>>;
+
+// Each known signal mapped to 0-1; shared by the composite score and the comparison radar.
+// An unreported source count is left out rather than read as zero.
+export const normalizeSignals = (spot: FoodSpot, center: Coordinates, radiusKm = MAX_RADIUS_KM): SignalValues => {
+  const distance = distanceKm(center, spot.coordinates);
+  const signals: SignalValues = {
+    sentiment: { raw: spot.sentimentScore, normalized: clamp01(spot.sentimentScore / 100) },
+    trending: { raw: spot.trendingScore, normalized: clamp01(spot.trendingScore / 100) },
+    velocity: { raw: spot.popularityVelocity, normalized: clamp01((spot.popularityVelocity + VELOCITY_RANGE) / (2 * VELOCITY_RANGE)) },
+    confidence: { raw: spot.aiConfidence, normalized: clamp01(spot.aiConfidence / 100) }
+  };
+  const sources = spot.influencerData?.sourceCount;
+  if (sources !== undefined) {
+    const count = Math.max(0, sources);
+    signals.sources = { raw: count, normalized: clamp01(Math.log10(1 + count) / Math.log10(1 + SOURCE_SATURATION)) };
+  }
+  signals.distance = { raw: Math.round(distance * 100) / 100, normalized: clamp01(1 - distance / radiusKm) };
+  return signals;
+};
+
+// Composite 0-100 score as the weighted mean of known signals, with a per-signal breakdown.
+// Proximity is measured against `radiusKm`, the reach of the search that found the spot.
+export const scoreSpot = (spot: FoodSpot, center: Coordinates, weights: RankingWeights, radiusKm = MAX_RADIUS_KM): Omit<SpotRanking, 'rank'> => {
+  const signals = normalizeSignals(spot, center, radiusKm);
+  const known = (Object.keys(signals) as (keyof RankingWeights)[]).flatMap(key => {
+    const signal = signals[key];
+    return signal ? [{ key, ...signal }] : [];
+  });
+  const totalWeight = known.reduce((sum, { key }) => sum + Math.max(0, weights[key]), 0);
+
+  const components: ScoreComponent[] = known.map(({ key, raw, normalized }) => {
+    const weight = totalWeight > 0 ? Math.max(0, weights[key]) / totalWeight : 0;
+    return {
+      key,
+      label: WEIGHT_LABELS[key],
+      raw,
+      normalized,
+      weight,
+      contribution: normalized * weight * 100
+    };
+  });
+
+  const score = Math.round(components.reduce((sum, c) => sum + c.contribution, 0) * 10) / 10;
+  return { score, components };
+};
+
+// Deterministic: ties break on name so the same input always yields the same order
+export const rankSpots = (spots: FoodSpot[], center: Coordinates, weights: RankingWeights = DEFAULT_WEIGHTS, radiusKm = MAX_RADIUS_KM): FoodSpot[] =>
+  spots
+    .map(spot => ({ spot, result: scoreSpot(spot, center, weights, radiusKm) }))
+    .sort((a, b) => (b.result.score - a.result.score) || a.spot.name.localeCompare(b.spot.name))
+    .map(({ spot, result }, index) => ({ ...spot, ranking: { ...result, rank: index + 1 } }));
+
+export const loadWeights = (): RankingWeights => {
+  try {
+    const raw = localStorage.getItem(WEIGHTS_STORAGE_KEY);
+    return raw ? { ...DEFAULT_WEIGHTS, ...JSON.parse(raw) } : DEFAULT_WEIGHTS;
+  } catch {
+    return DEFAULT_WEIGHTS;
+  }
+};
+
+export const saveWeights = (weights: RankingWeights) => {
+  try {
+    localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+  } catch (error) {
+    console.warn("Could not persist ranking weights:", error);
+  }
+};
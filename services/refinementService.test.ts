@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { RefinementContext, refineResults } from './refinementService';
+import { DEFAULT_FILTERS } from './filterService';
+import { mockSpots } from './providers/mockProvider';
+
+describe('refineResults', () => {
+  const { spots, center } = mockSpots('Kochi, Kerala', 0, 0);
+  const context: RefinementContext = {
+    query: 'Kochi, Kerala',
+    locationName: 'Kochi, Kerala',
+    center,
+    spots,
+    selectedSpot: null,
+    filters: DEFAULT_FILTERS
+  };
+
+  it('clears every refinement on reset', () => {
+    const outcome = refineResults('start over', { ...context, filters: { ...DEFAULT_FILTERS, priceRanges: ['Low'], sortBy: 'distance' } });
+    expect(outcome).toMatchObject({ kind: 'local', filters: DEFAULT_FILTERS });
+  });
+
+  it('drops the most expensive tier on screen for "cheaper"', () => {
+    const outcome = refineResults('Only the cheaper ones', context);
+    expect(outcome.kind).toBe('local');
+    if (outcome.kind !== 'local') return;
+    expect(outcome.filters.priceRanges).toEqual(['Low', 'Medium']);
+    expect(outcome.reply).toMatch(/^4 of 5 spots match/);
+  });
+
+  it('maps sorting, distance and cuisine phrases onto filters', () => {
+    const outcome = refineResults('only seafood, closest first within 2 km', context);
+    expect(outcome).toMatchObject({
+      kind: 'local',
+      filters: { cuisines: ['Seafood'], sortBy: 'distance', maxDistanceKm: 2 }
+    });
+
+    const metres = refineResults('within 500m', context);
+    expect(metres).toMatchObject({ kind: 'local', filters: { maxDistanceKm: 0.5 } });
+  });
+
+  it('keeps existing filters it was not asked to change', () => {
+    const outcome = refineResults('top rated', { ...context, filters: { ...DEFAULT_FILTERS, cuisines: ['Cafe'] } });
+    expect(outcome).toMatchObject({ kind: 'local', filters: { cuisines: ['Cafe'], sortBy: 'sentiment', minSentiment: 80 } });
+  });
+
+  it('searches around a spot named in the results', () => {
+    const outcome = refineResults('something vegetarian near Kashi Art Cafe', context);
+    const kashi = spots.find(s => s.name === 'Kashi Art Cafe');
+    expect(outcome).toMatchObject({
+      kind: 'discover',
+      query: 'trending food near Kashi Art Cafe',
+      center: kashi?.coordinates,
+      filters: { dietary: ['vegetarian'] }
+    });
+  });
+
+  it('resolves "this" to the selected spot and asks for one otherwise', () => {
+    const selected = spots[1];
+    expect(refineResults('biryani near this', { ...context, selectedSpot: selected }))
+      .toMatchObject({ kind: 'discover', query: `biryani near ${selected.name}`, center: selected.coordinates });
+    expect(refineResults('biryani near this', context).kind).toBe('unknown');
+  });
+
+  it('hands unknown places and leftover keywords to the provider', () => {
+    expect(refineResults('sushi near Marine Drive', context))
+      .toMatchObject({ kind: 'discover', query: 'sushi near Marine Drive, Kochi, Kerala', center });
+    expect(refineResults('show me biryani', context))
+      .toMatchObject({ kind: 'discover', query: 'biryani near Kochi, Kerala', center });
+  });
+
+  it('reports a message it cannot map', () => {
+    expect(refineResults('please', context).kind).toBe('unknown');
+  });
+});
@@ -0,0 +1,206 @@
+import { Coordinates, FilterState, FoodSpot, PriceRange, SortKey } from "../types";
+import { applyFilters, DEFAULT_FILTERS, getCuisineOptions, PRICE_RANGES, SORT_OPTIONS } from "./filterService";
+import { normalizeName, similarity } from "./identityService";
+import { formatDistance } from "./geo";
+import { DIETARY_TAGS, getDietaryLabel, parseDietaryTags } from "./dietaryService";
+
+// Follow-up refinement of the current results ("only the cheaper ones",
+// "something vegetarian near Kashi Art Cafe"). Rule-based so it behaves the
+// same with every provider: what maps onto FilterState is applied locally,
+// anything else becomes a follow-up discovery constrained to an anchor point.
+
+export interface RefinementContext {
+  query: string; // Query that produced the current results
+  locationName: string;
+  center: Coordinates;
+  spots: FoodSpot[]; // Ranked, unfiltered
+  selectedSpot: FoodSpot | null;
+  filters: FilterState;
+}
+
+export type RefinementOutcome =
+  | { kind: 'local'; filters: FilterState; reply: string }
+  | { kind: 'discover'; query: string; center: Coordinates; filters: FilterState; reply: string }
+  | { kind: 'unknown'; reply: string };
+
+export interface RefinementTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+}
+
+const RESET_PATTERN = /\b(reset|start over|clear (all )?filters|show (me )?(all|everything))\b/;
+const SELF_REFERENCES = /^(this|it|that|here|this one|that one|the selected( one| spot)?)$/;
+const ANCHOR_PATTERN = /\b(?:near|close to|around|next to|by)\s+(.+)$/;
+const OPEN_NOW_PATTERN = /\b(open (right )?now|still open|currently open|open late)\b/;
+const DISTANCE_PATTERN = /\bwithin\s+(\d+(?:\.\d+)?)\s*(km|kilometers?|kilometres?|m|meters?|metres?)\b/;
+
+const SORT_PATTERNS: { pattern: RegExp; sortBy: SortKey }[] = [
+  { pattern: /\b(closest|nearest|closer)\b/, sortBy: 'distance' },
+  { pattern: /\b(rising|growing|up and coming|fastest growing)\b/, sortBy: 'velocity' },
+  { pattern: /\b(best|top|highest)[- ]?(rated|reviewed)\b/, sortBy: 'sentiment' },
+  { pattern: /\b(most popular|trending|hottest|most buzz)\b/, sortBy: 'trending' }
+];
+
+// Words that carry no search intent once the recognized phrases are removed
+const FILLER = new Set([
+  'a', 'an', 'the', 'only', 'just', 'show', 'me', 'i', 'want', 'find', 'some', 'something', 'somewhere', 'any',
+  'ones', 'one', 'places', 'place', 'spots', 'spot', 'food', 'options', 'that', 'which', 'are', 'is', 'with',
+  'and', 'or', 'but', 'more', 'please', 'also', 'instead', 'what', 'about', 'how', 'of', 'in', 'for', 'to', 'there',
+  'sorted', 'sort', 'by', 'first', 'them', 'those', 'these', 'can', 'you', 'give', 'ok', 'now', 'less', 'lower',
+  'rated', 'reviewed', 'highly', 'well', 'good', 'reviews', 'expensive', 'price', 'priced', 'prices', 'top', 'best'
+]);
+
+// Price vocabulary handled by resolvePrice
+const PRICE_WORDS = /\b(cheaper|cheap|budget|affordable|inexpensive|fancy|upscale|fine dining|splurge|luxury|high[- ]end|mid[- ]range|moderate(ly)?)\b/g;
+
+const PRICE_LABELS: Record<PriceRange, string> = { Low: 'budget', Medium: 'mid-range', High: 'upscale', Luxury: 'luxury' };
+
+const resolvePrice = (text: string, spots: FoodSpot[]): PriceRange[] | null => {
+  if (/\b(cheaper|less expensive|more affordable|lower price)\b/.test(text)) {
+    // Relative to what is on screen: drop the most expensive tier present
+    const present = spots.map(s => PRICE_RANGES.indexOf(s.priceRange));
+    const highest = present.length > 0 ? Math.max(...present) : 0;
+    return PRICE_RANGES.filter((_, i) => i < Math.max(1, highest));
+  }
+  if (/\b(cheap|budget|affordable|inexpensive)\b/.test(text)) return ['Low'];
+  if (/\b(mid[- ]range|moderate|moderately priced)\b/.test(text)) return ['Medium'];
+  if (/\b(fancy|upscale|fine dining|splurge|luxury|high[- ]end)\b/.test(text)) return ['High', 'Luxury'];
+  return null;
+};
+
+const resolveAnchor = (target: string, context: RefinementContext): FoodSpot | null => {
+  if (SELF_REFERENCES.test(target)) return context.selectedSpot;
+  const wanted = normalizeName(target);
+  if (!wanted) return null;
+  const scored = context.spots.map(spot => {
+    const name = normalizeName(spot.name);
+    return { spot, score: name.includes(wanted) || wanted.includes(name) ? 1 : similarity(wanted, name) };
+  });
+  const best = scored.sort((a, b) => b.score - a.score)[0];
+  return best && best.score >= 0.6 ? best.spot : null;
+};
+
+const describeFilters = (filters: FilterState): string[] => {
+  const parts: string[] = [];
+  if (filters.priceRanges.length > 0) parts.push(filters.priceRanges.map(p => PRICE_LABELS[p]).join('/'));
+  if (filters.cuisines.length > 0) parts.push(filters.cuisines.join('/'));
+  if (filters.dietary.length > 0) parts.push(filters.dietary.map(tag => getDietaryLabel(tag).toLowerCase()).join(' + '));
+  if (filters.minSentiment > 0) parts.push(`sentiment ${filters.minSentiment}+`);
+  if (filters.maxDistanceKm !== null) parts.push(`within ${formatDistance(filters.maxDistanceKm)}`);
+  if (filters.openAt === 'now') parts.push('open now');
+  return parts;
+};
+
+const sortLabel = (sortBy: SortKey) => SORT_OPTIONS.find(o => o.key === sortBy)?.label.toLowerCase() ?? sortBy;
+
+export const refineResults = (message: string, context: RefinementContext): RefinementOutcome => {
+  const original = message.trim().replace(/[?!.]+$/, '');
+  let text = original.toLowerCase();
+
+  if (RESET_PATTERN.test(text)) {
+    return { kind: 'local', filters: DEFAULT_FILTERS, reply: `Cleared all refinements. Showing all ${context.spots.length} spots.` };
+  }
+
+  const filters: FilterState = { ...context.filters };
+  let changed = false;
+
+  // Anchor first so a spot name doesn't get mistaken for a cuisine or keyword
+  let anchor: FoodSpot | null = null;
+  let anchorText: string | null = null;
+  const anchorMatch = text.match(ANCHOR_PATTERN);
+  if (anchorMatch) {
+    // Keep the user's casing for place names passed on to the provider
+    anchorText = original.slice(text.length - anchorMatch[1].length).trim();
+    anchor = resolveAnchor(anchorText.toLowerCase(), context);
+    text = text.slice(0, anchorMatch.index).trim();
+  }
+
+  const price = resolvePrice(text, context.spots);
+  if (price) {
+    filters.priceRanges = price;
+    changed = true;
+  }
+
+  SORT_PATTERNS.some(({ pattern, sortBy }) => {
+    if (!pattern.test(text)) return false;
+    filters.sortBy = sortBy;
+    changed = true;
+    return true;
+  });
+
+  if (/\b(highly|well|best|top)[- ]?(rated|reviewed)\b|\bgood reviews\b/.test(text)) {
+    filters.minSentiment = Math.max(filters.minSentiment, 80);
+    changed = true;
+  }
+
+  const distance = text.match(DISTANCE_PATTERN);
+  if (distance) {
+    const value = Number(distance[1]);
+    filters.maxDistanceKm = distance[2].startsWith('k') ? value : value / 1000;
+    changed = true;
+  } else if (/\bwalking distance\b/.test(text)) {
+    filters.maxDistanceKm = 1;
+    changed = true;
+  }
+
+  if (OPEN_NOW_PATTERN.test(text)) {
+    filters.openAt = 'now';
+    changed = true;
+  }
+
+  const dietary = parseDietaryTags(text);
+  if (dietary.length > 0) {
+    filters.dietary = Array.from(new Set([...filters.dietary, ...dietary]));
+    changed = true;
+  }
+
+  const cuisines = getCuisineOptions(context.spots).filter(c => text.includes(c.toLowerCase()));
+  if (cuisines.length > 0) {
+    filters.cuisines = cuisines;
+    changed = true;
+  }
+
+  // Whatever is left over is intent the current results can't answer locally
+  const recognized = [RESET_PATTERN, DISTANCE_PATTERN, OPEN_NOW_PATTERN, /\bwalking distance\b/, ...SORT_PATTERNS.map(s => s.pattern), ...DIETARY_TAGS.map(t => t.pattern)]
+    .reduce((rest, pattern) => rest.replace(new RegExp(pattern.source, 'g'), ' '), text);
+  const keywords = cuisines
+    .reduce((rest, cuisine) => rest.replace(cuisine.toLowerCase(), ' '), recognized)
+    .replace(PRICE_WORDS, ' ')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !FILLER.has(word));
+
+  if (anchorText && !anchor) {
+    if (SELF_REFERENCES.test(anchorText.toLowerCase())) {
+      return { kind: 'unknown', reply: 'Select a spot first so I know which one you mean.' };
+    }
+    // Not one of the current spots: let the provider resolve the place
+    const query = `${keywords.join(' ') || 'trending food'} near ${anchorText}, ${context.locationName}`;
+    return { kind: 'discover', query, center: context.center, filters, reply: `Searching for ${query}...` };
+  }
+
+  if (anchor || keywords.length > 0) {
+    // The anchor's coordinates constrain the search; its name only adds context
+    const center = anchor?.coordinates ?? context.center;
+    const place = anchor ? anchor.name : context.locationName;
+    const query = `${keywords.join(' ') || 'trending food'} near ${place}`;
+    return { kind: 'discover', query, center, filters, reply: `Looking for ${keywords.join(' ') || 'more spots'} around ${place}...` };
+  }
+
+  if (!changed) {
+    return {
+      kind: 'unknown',
+      reply: 'I couldn\'t map that to a refinement. Try "cheaper", "only seafood", "closest first", "within 2 km" or "vegetarian near <spot>".'
+    };
+  }
+
+  const matching = applyFilters(context.spots, filters, context.center).length;
+  const described = describeFilters(filters);
+  return {
+    kind: 'local',
+    filters,
+    reply: `${matching} of ${context.spots.length} spots match${described.length > 0 ? ` (${described.join(', ')})` : ''}, sorted by ${sortLabel(filters.sortBy)}.`
+  };
+};
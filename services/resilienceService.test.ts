@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DiscoveryProvider, DiscoveryResult } from '../types';
+import {
+  backoffDelay, createRateLimiter, createResilientProvider, DEFAULT_RESILIENCE_CONFIG, DiscoveryError,
+  parseRetryAfter, ResilienceConfig, toDiscoveryFailure
+} from './resilienceService';
+
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); }
+  };
+};
+
+const config: ResilienceConfig = { ...DEFAULT_RESILIENCE_CONFIG, timeoutMs: 1_000, maxRetries: 2, baseDelayMs: 100, maxDelayMs: 1_000 };
+const request = { query: 'Kochi', center: { lat: 9.9312, lng: 76.2673 } };
+const result: DiscoveryResult = { spots: [], center: request.center, locationName: 'Kochi' };
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+// A provider whose discover calls play back the given outcomes in order
+const scriptedProvider = (...outcomes: (DiscoveryResult | Error | 'hang')[]) => {
+  const discover = vi.fn(() => {
+    const next = outcomes.shift() ?? result;
+    if (next === 'hang') return new Promise<DiscoveryResult>(() => {});
+    return next instanceof Error ? Promise.reject(next) : Promise.resolve(next);
+  });
+  const provider: DiscoveryProvider = { id: 'test', label: 'Test', discover };
+  return { provider, discover };
+};
+
+describe('backoffDelay', () => {
+  it('doubles each attempt with half the delay left to jitter', () => {
+    expect([1, 2, 3].map(attempt => backoffDelay(attempt, config, () => 0))).toEqual([50, 100, 200]);
+    expect([1, 2, 3].map(attempt => backoffDelay(attempt, config, () => 1))).toEqual([100, 200, 400]);
+  });
+
+  it('caps the delay', () => {
+    expect(backoffDelay(10, config, () => 1)).toBe(config.maxDelayMs);
+  });
+});
+
+describe('failure classification', () => {
+  it('reads Retry-After as seconds or a date', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+
+  it('retries rate limits, server errors, timeouts and network failures only', () => {
+    expect(toDiscoveryFailure(httpError(429))).toMatchObject({ kind: 'rate-limited', retryable: true });
+    expect(toDiscoveryFailure(httpError(503))).toMatchObject({ kind: 'provider', retryable: true });
+    expect(toDiscoveryFailure(httpError(400))).toMatchObject({ kind: 'provider', retryable: false });
+    expect(toDiscoveryFailure(new DOMException('slow', 'TimeoutError'))).toMatchObject({ kind: 'timeout', retryable: true });
+    expect(toDiscoveryFailure(new TypeError('Failed to fetch'))).toMatchObject({ kind: 'network', retryable: true });
+    expect(toDiscoveryFailure(new Error('bad JSON'))).toMatchObject({ kind: 'provider', retryable: false });
+  });
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-02T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits for the one-minute window to free a slot', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 2, dailyQuota: 0 }, createMemoryStorage());
+    const onWait = vi.fn();
+    await limiter.acquire();
+    await limiter.acquire();
+
+    let acquired = false;
+    limiter.acquire(undefined, onWait).then(() => { acquired = true; });
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(acquired).toBe(false);
+    expect(onWait).toHaveBeenCalledWith(60_000);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(acquired).toBe(true);
+  });
+
+  it('enforces the daily quota across limiters and resets the next day', async () => {
+    const storage = createMemoryStorage();
+    await createRateLimiter({ requestsPerMinute: 10, dailyQuota: 2 }, storage).acquire();
+    const limiter = createRateLimiter({ requestsPerMinute: 10, dailyQuota: 2 }, storage);
+    await limiter.acquire();
+    await expect(limiter.acquire()).rejects.toMatchObject({ failure: { kind: 'quota', retryable: false } });
+
+    vi.setSystemTime(new Date('2026-03-03T00:00:01'));
+    await expect(limiter.acquire()).resolves.toBeUndefined();
+    expect(limiter.getUsage().today).toBe(1);
+  });
+});
+
+describe('createResilientProvider', () => {
+  let limiter: ReturnType<typeof createRateLimiter>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    limiter = createRateLimiter({ requestsPerMinute: 100, dailyQuota: 0 }, createMemoryStorage());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('retries retryable failures with backoff', async () => {
+    const { provider, discover } = scriptedProvider(httpError(503), httpError(503), result);
+    const notices: string[] = [];
+    const pending = createResilientProvider(provider, config, limiter).discover({ ...request, onNotice: m => notices.push(m) });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(discover).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(discover).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(pending).resolves.toBe(result);
+    expect(notices).toEqual([
+      expect.stringContaining('Retrying in 0.1s (attempt 2 of 3)'),
+      expect.stringContaining('Retrying in 0.2s (attempt 3 of 3)')
+    ]);
+  });
+
+  it('does not retry a rejected request', async () => {
+    const { provider, discover } = scriptedProvider(httpError(400));
+    await expect(createResilientProvider(provider, config, limiter).discover(request))
+      .rejects.toMatchObject({ failure: { kind: 'provider', status: 400 } });
+    expect(discover).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the last retry', async () => {
+    const { provider, discover } = scriptedProvider(httpError(500), httpError(500), httpError(500));
+    const pending = createResilientProvider(provider, config, limiter).discover(request);
+    const outcome = expect(pending).rejects.toBeInstanceOf(DiscoveryError);
+    await vi.runAllTimersAsync();
+    await outcome;
+    expect(discover).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const limited = new DiscoveryError({ ...toDiscoveryFailure(httpError(429)), retryAfterMs: 5_000 });
+    const { provider, discover } = scriptedProvider(limited, result);
+    const pending = createResilientProvider(provider, config, limiter).discover(request);
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(discover).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(pending).resolves.toBe(result);
+  });
+
+  it('times out an attempt that never answers', async () => {
+    const { provider, discover } = scriptedProvider('hang', 'hang', 'hang');
+    const pending = createResilientProvider(provider, config, limiter).discover(request);
+    const outcome = expect(pending).rejects.toMatchObject({ failure: { kind: 'timeout' } });
+    await vi.runAllTimersAsync();
+    await outcome;
+    expect(discover).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops retrying when the caller cancels', async () => {
+    const { provider, discover } = scriptedProvider(httpError(503), result);
+    const controller = new AbortController();
+    const pending = createResilientProvider(provider, config, limiter).discover({ ...request, signal: controller.signal });
+    const outcome = expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort(new DOMException('cancelled', 'AbortError'));
+    await outcome;
+    expect(discover).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs query parsing under the same timeout and quota', async () => {
+    const storage = createMemoryStorage();
+    const quotaLimiter = createRateLimiter({ requestsPerMinute: 100, dailyQuota: 1 }, storage);
+    const parseQuery = vi.fn(() => new Promise<null>(() => {}));
+    const provider: DiscoveryProvider = { ...scriptedProvider().provider, parseQuery };
+    const resilient = createResilientProvider(provider, { ...config, maxRetries: 0 }, quotaLimiter);
+
+    const pending = resilient.parseQuery!('biryani');
+    const outcome = expect(pending).rejects.toMatchObject({ failure: { kind: 'timeout' } });
+    await vi.advanceTimersByTimeAsync(config.timeoutMs);
+    await outcome;
+    await expect(resilient.parseQuery!('biryani')).rejects.toMatchObject({ failure: { kind: 'quota' } });
+    expect(parseQuery).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,329 @@
+import { DiscoveryFailure, DiscoveryProvider, DiscoveryRequest, DiscoveryStreamEvent } from "../types";
+
+// Timeouts, retries and client-side rate limiting around a live provider.
+// Failures leave here as a DiscoveryError carrying a typed DiscoveryFailure,
+// so the UI can say what went wrong instead of quietly showing other data.
+
+export interface ResilienceConfig {
+  timeoutMs: number; // Per attempt; for streams, the longest allowed gap between events
+  maxRetries: number; // Extra attempts after the first, for retryable failures only
+  baseDelayMs: number;
+  maxDelayMs: number;
+  requestsPerMinute: number;
+  dailyQuota: number; // Provider calls per calendar day; 0 disables the cap
+}
+
+export const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
+  timeoutMs: 45_000,
+  maxRetries: 2,
+  baseDelayMs: 1_000,
+  maxDelayMs: 15_000,
+  requestsPerMinute: 10,
+  dailyQuota: 200
+};
+
+const MINUTE_MS = 60 * 1000;
+const QUOTA_STORAGE_KEY = 'foodifind-provider-quota';
+
+export class DiscoveryError extends Error {
+  readonly failure: DiscoveryFailure;
+
+  constructor(failure: DiscoveryFailure) {
+    super(failure.message);
+    this.name = 'DiscoveryError';
+    this.failure = failure;
+  }
+}
+
+// --- Classification ---
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+const failureForStatus = (status: number, detail: string, retryAfterMs?: number): DiscoveryFailure => {
+  if (status === 429) {
+    return { kind: 'rate-limited', message: 'The provider is rate limiting requests.', retryable: true, status, retryAfterMs };
+  }
+  if (status === 408 || status >= 500) {
+    return { kind: 'provider', message: `The provider is temporarily unavailable (${status}).`, retryable: true, status, retryAfterMs };
+  }
+  return { kind: 'provider', message: `The provider rejected the request (${status}${detail ? ` ${detail}` : ''}).`, retryable: false, status };
+};
+
+export const createHttpError = (response: Response): DiscoveryError =>
+  new DiscoveryError(failureForStatus(response.status, response.statusText, parseRetryAfter(response.headers.get('retry-after'))));
+
+// fetch reports unreachable hosts as a TypeError with a browser-specific message
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|network request failed/i;
+
+export const toDiscoveryFailure = (error: unknown): DiscoveryFailure => {
+  if (error instanceof DiscoveryError) return error.failure;
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return { kind: 'timeout', message: error.message, retryable: true };
+  }
+  if (error instanceof TypeError && NETWORK_ERROR_PATTERN.test(error.message)) {
+    return { kind: 'network', message: 'Could not reach the provider. Check your connection.', retryable: true };
+  }
+  // SDK errors (e.g. the Gemini ApiError) expose the HTTP status directly
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return failureForStatus(status, '');
+  return { kind: 'provider', message: error instanceof Error ? error.message : String(error), retryable: false };
+};
+
+// --- Timing helpers ---
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Settles as soon as `signal` aborts, even if the provider ignores it
+const raceAbort = <T,>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      error => { signal.removeEventListener('abort', onAbort); reject(error); }
+    );
+  });
+
+// Exponential backoff with "equal jitter": half the delay is fixed, half random
+export const backoffDelay = (attempt: number, { baseDelayMs, maxDelayMs }: ResilienceConfig, random: () => number = Math.random): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * ceiling / 2);
+};
+
+interface AttemptTimeout {
+  signal: AbortSignal;
+  restart: () => void;
+  pause: () => void;
+  dispose: () => void;
+}
+
+// Per-attempt signal: aborts on the caller's signal, or after `ms` without a restart
+const createAttemptTimeout = (parent: AbortSignal | undefined, ms: number): AttemptTimeout => {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) onParentAbort();
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const pause = () => clearTimeout(timer);
+  const restart = () => {
+    pause();
+    timer = setTimeout(() => controller.abort(new DOMException(`The provider did not respond within ${Math.round(ms / 1000)}s.`, 'TimeoutError')), ms);
+  };
+  restart();
+
+  return {
+    signal: controller.signal,
+    restart,
+    pause,
+    dispose: () => {
+      pause();
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// --- Rate limiting ---
+
+export interface QuotaUsage {
+  lastMinute: number;
+  requestsPerMinute: number;
+  today: number;
+  dailyQuota: number;
+}
+
+export interface RateLimiter {
+  // Resolves once a request may be sent; throws a 'quota' DiscoveryError when the day's budget is spent
+  acquire: (signal?: AbortSignal, onWait?: (waitMs: number) => void) => Promise<void>;
+  // Holds all requests until `time`, e.g. after a server Retry-After
+  pauseUntil: (time: number) => void;
+  getUsage: () => QuotaUsage;
+}
+
+interface StoredQuota {
+  day: string;
+  count: number;
+}
+
+const loadQuota = (storage: Storage, day: string): StoredQuota => {
+  try {
+    const stored = JSON.parse(storage.getItem(QUOTA_STORAGE_KEY) || 'null');
+    if (stored && stored.day === day && typeof stored.count === 'number') return stored;
+  } catch {
+    // Corrupt entries start the day over
+  }
+  return { day, count: 0 };
+};
+
+const persistQuota = (storage: Storage, quota: StoredQuota) => {
+  try {
+    storage.setItem(QUOTA_STORAGE_KEY, JSON.stringify(quota));
+  } catch (error) {
+    console.warn("Quota write failed:", error);
+  }
+};
+
+// Sliding one-minute window in memory; the daily count survives reloads
+export const createRateLimiter = (
+  { requestsPerMinute, dailyQuota }: Pick<ResilienceConfig, 'requestsPerMinute' | 'dailyQuota'>,
+  storage: Storage = window.localStorage
+): RateLimiter => {
+  let recent: number[] = [];
+  let pausedUntil = 0;
+
+  const today = (now: number) => new Date(now).toDateString();
+
+  const acquire = async (signal?: AbortSignal, onWait?: (waitMs: number) => void) => {
+    while (true) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      const quota = loadQuota(storage, today(now));
+      if (dailyQuota > 0 && quota.count >= dailyQuota) {
+        throw new DiscoveryError({
+          kind: 'quota',
+          message: `Daily limit of ${dailyQuota} provider requests reached. It resets at midnight.`,
+          retryable: false
+        });
+      }
+
+      recent = recent.filter(time => now - time < MINUTE_MS);
+      const windowWait = recent.length >= requestsPerMinute ? recent[0] + MINUTE_MS - now : 0;
+      const wait = Math.max(pausedUntil - now, windowWait);
+      if (wait <= 0) {
+        recent.push(now);
+        persistQuota(storage, { ...quota, count: quota.count + 1 });
+        return;
+      }
+      onWait?.(wait);
+      await sleep(wait, signal);
+    }
+  };
+
+  return {
+    acquire,
+    pauseUntil: (time) => { pausedUntil = Math.max(pausedUntil, time); },
+    getUsage: () => {
+      const now = Date.now();
+      return {
+        lastMinute: recent.filter(time => now - time < MINUTE_MS).length,
+        requestsPerMinute,
+        today: loadQuota(storage, today(now)).count,
+        dailyQuota
+      };
+    }
+  };
+};
+
+// --- Provider wrapper ---
+
+// What a single call needs from the request: cancellation and a place to report waits
+type CallContext = Pick<DiscoveryRequest, 'signal' | 'onNotice'>;
+
+export const createResilientProvider = (
+  provider: DiscoveryProvider,
+  config: ResilienceConfig = DEFAULT_RESILIENCE_CONFIG,
+  limiter: RateLimiter = createRateLimiter(config)
+): DiscoveryProvider => {
+  const maxAttempts = config.maxRetries + 1;
+
+  const beginAttempt = async (request: CallContext): Promise<AttemptTimeout> => {
+    await limiter.acquire(request.signal, wait =>
+      request.onNotice?.(`Client rate limit reached, waiting ${formatSeconds(wait)} before calling ${provider.label}`));
+    return createAttemptTimeout(request.signal, config.timeoutMs);
+  };
+
+  // Decides whether a failed attempt is retried; throws when it isn't
+  const afterFailure = async (error: unknown, attempt: number, request: CallContext, canRetry = true) => {
+    // Cancellation is not a provider failure
+    if (request.signal?.aborted) throw error;
+    const failure = toDiscoveryFailure(error);
+    if (!canRetry || !failure.retryable || attempt >= maxAttempts) throw new DiscoveryError(failure);
+
+    if (failure.retryAfterMs !== undefined) limiter.pauseUntil(Date.now() + failure.retryAfterMs);
+    const delay = failure.retryAfterMs ?? backoffDelay(attempt, config);
+    request.onNotice?.(`${failure.message} Retrying in ${formatSeconds(delay)} (attempt ${attempt + 1} of ${maxAttempts})`);
+    await sleep(delay, request.signal);
+  };
+
+  // One provider call under the rate limit, with a timeout per attempt and retries
+  const call = async <T,>(request: CallContext, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      const timeout = await beginAttempt(request);
+      try {
+        return await raceAbort(run(timeout.signal), timeout.signal);
+      } catch (error) {
+        await afterFailure(error, attempt, request);
+      } finally {
+        timeout.dispose();
+      }
+    }
+  };
+
+  const discover = (request: DiscoveryRequest) => call(request, signal => provider.discover({ ...request, signal }));
+
+  // Query parsing is a provider call too, so it shares the quota and the retry policy
+  const parseQuery = provider.parseQuery
+    ? (query: string) => call({}, () => provider.parseQuery!(query))
+    : undefined;
+
+  // Retries only before the first event; after that the caller has already shown results
+  const discoverStream = async function* (request: DiscoveryRequest): AsyncGenerator<DiscoveryStreamEvent> {
+    for (let attempt = 1; ; attempt++) {
+      const timeout = await beginAttempt(request);
+      const iterator = provider.discoverStream!({ ...request, signal: timeout.signal })[Symbol.asyncIterator]();
+      let started = false;
+      let finished = false;
+      try {
+        while (true) {
+          const next = await raceAbort(iterator.next(), timeout.signal);
+          if (next.done) {
+            finished = true;
+            return;
+          }
+          started = true;
+          // The consumer's own processing time doesn't count against the provider
+          timeout.pause();
+          yield next.value;
+          timeout.restart();
+        }
+      } catch (error) {
+        await afterFailure(error, attempt, request, !started);
+      } finally {
+        timeout.dispose();
+        if (!finished) iterator.return?.().catch(() => {});
+      }
+    }
+  };
+
+  return {
+    ...provider,
+    discover,
+    discoverStream: provider.discoverStream ? discoverStream : undefined,
+    parseQuery
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FoodSpot } from '../types';
+import { createCrawlPlan, formatDuration, MAX_CRAWL_STOPS, optimizeOrder, walkingDistanceKm } from './routeService';
+import { distanceKm } from './geo';
+import { mockSpots } from './providers/mockProvider';
+
+const template = mockSpots('Kochi, Kerala', 0, 0).spots[0];
+const start = { lat: 0, lng: 0 };
+
+// Stops `x` hundredths of a degree east and `y` north of the start
+const stop = (id: string, x: number, y = 0): FoodSpot => ({ ...template, id, name: id, coordinates: { lat: y / 100, lng: x / 100 } });
+
+const walk = (stops: FoodSpot[]) =>
+  stops.reduce((sum, s, i) => sum + distanceKm(i === 0 ? start : stops[i - 1].coordinates, s.coordinates), 0);
+
+describe('optimizeOrder', () => {
+  it('visits stops on a line in order', () => {
+    const stops = [stop('c', 3), stop('a', 1), stop('b', 2)];
+    expect(optimizeOrder(start, stops).map(s => s.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('undoes a nearest-neighbour detour with 2-opt', () => {
+    // Nearest neighbour heads south-west first, then has to walk all the way back north
+    const stops = [stop('south', -2, -2), stop('middle', -2, -1), stop('north', -2, 1.2)];
+    const greedy = [stops[1], stops[0], stops[2]];
+    const order = optimizeOrder(start, stops);
+    expect(order.map(s => s.id)).toEqual(['north', 'middle', 'south']);
+    expect(walk(order)).toBeLessThan(walk(greedy));
+  });
+
+  it('keeps every stop exactly once', () => {
+    const stops = mockSpots('Kochi, Kerala', 0, 0).spots;
+    const order = optimizeOrder(stops[0].coordinates, stops);
+    expect(order.map(s => s.id).sort()).toEqual(stops.map(s => s.id).sort());
+  });
+
+  it('leaves zero or one stop alone', () => {
+    expect(optimizeOrder(start, [])).toEqual([]);
+    expect(optimizeOrder(start, [stop('a', 1)]).map(s => s.id)).toEqual(['a']);
+  });
+});
+
+describe('createCrawlPlan', () => {
+  it('adds up walking legs from the start', () => {
+    const plan = createCrawlPlan('  ', start, 'Hotel', [stop('b', 2), stop('a', 1)]);
+    expect(plan.name).toBe('Food crawl');
+    expect(plan.legs.map(l => l.toId)).toEqual(['a', 'b']);
+    expect(plan.legs[0].distanceKm).toBeCloseTo(walkingDistanceKm(start, { lat: 0, lng: 0.01 }), 2);
+    expect(plan.totalKm).toBeCloseTo(plan.legs[0].distanceKm + plan.legs[1].distanceKm, 2);
+    expect(plan.totalMinutes).toBe(plan.legs[0].walkMinutes + plan.legs[1].walkMinutes);
+  });
+
+  it('caps the number of stops', () => {
+    const many = Array.from({ length: MAX_CRAWL_STOPS + 3 }, (_, i) => stop(`s${i}`, i + 1));
+    expect(createCrawlPlan('Long walk', start, 'Hotel', many).stops).toHaveLength(MAX_CRAWL_STOPS);
+  });
+});
+
+describe('formatDuration', () => {
+  it('switches to hours past an hour', () => {
+    expect(formatDuration(45)).toBe('45 min');
+    expect(formatDuration(135)).toBe('2 h 15 min');
+  });
+});
@@ -0,0 +1,115 @@
+import { Coordinates, CrawlLeg, CrawlPlan, FoodSpot } from "../types";
+import { distanceKm } from "./geo";
+
+// Food-crawl planning: orders stops to keep the walk short (nearest neighbour,
+// then 2-opt) and estimates each leg. Everything runs locally on coordinates.
+
+const CRAWL_STORAGE_KEY = 'foodifind-crawl-plans';
+
+export const MAX_CRAWL_STOPS = 12;
+export const WALKING_SPEED_KMH = 4.8;
+// Streets rarely run straight; straight-line distance is inflated to approximate the walk
+const DETOUR_FACTOR = 1.25;
+const MAX_2OPT_PASSES = 50;
+
+export const walkingDistanceKm = (a: Coordinates, b: Coordinates) => distanceKm(a, b) * DETOUR_FACTOR;
+
+export const walkingMinutes = (km: number) => Math.round((km / WALKING_SPEED_KMH) * 60);
+
+export const formatDuration = (minutes: number): string =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+const pathLength = (start: Coordinates, stops: FoodSpot[]) =>
+  stops.reduce((sum, stop, i) => sum + distanceKm(i === 0 ? start : stops[i - 1].coordinates, stop.coordinates), 0);
+
+const nearestNeighbourOrder = (start: Coordinates, spots: FoodSpot[]): FoodSpot[] => {
+  const remaining = [...spots];
+  const order: FoodSpot[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    remaining.forEach((spot, i) => {
+      if (distanceKm(current, spot.coordinates) < distanceKm(current, remaining[bestIndex].coordinates)) bestIndex = i;
+    });
+    const [next] = remaining.splice(bestIndex, 1);
+    order.push(next);
+    current = next.coordinates;
+  }
+  return order;
+};
+
+// 2-opt on an open path with a fixed start: reverse stops[i..j] while that shortens the walk
+const twoOpt = (start: Coordinates, stops: FoodSpot[]): FoodSpot[] => {
+  const route = [...stops];
+  const point = (i: number) => (i < 0 ? start : route[i].coordinates);
+
+  for (let pass = 0; pass < MAX_2OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const before = distanceKm(point(i - 1), point(i)) + (j + 1 < route.length ? distanceKm(point(j), point(j + 1)) : 0);
+        const after = distanceKm(point(i - 1), point(j)) + (j + 1 < route.length ? distanceKm(point(i), point(j + 1)) : 0);
+        if (after < before - 1e-9) {
+          route.splice(i, j - i + 1, ...route.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return route;
+};
+
+export const optimizeOrder = (start: Coordinates, spots: FoodSpot[]): FoodSpot[] => {
+  if (spots.length < 2) return [...spots];
+  const greedy = nearestNeighbourOrder(start, spots);
+  const improved = twoOpt(start, greedy);
+  return pathLength(start, improved) <= pathLength(start, greedy) ? improved : greedy;
+};
+
+export const buildLegs = (start: Coordinates, stops: FoodSpot[]): CrawlLeg[] =>
+  stops.map((stop, i) => {
+    const km = walkingDistanceKm(i === 0 ? start : stops[i - 1].coordinates, stop.coordinates);
+    return { toId: stop.id, distanceKm: Math.round(km * 100) / 100, walkMinutes: walkingMinutes(km) };
+  });
+
+export const createCrawlPlan = (name: string, start: Coordinates, startLabel: string, spots: FoodSpot[]): CrawlPlan => {
+  const stops = optimizeOrder(start, spots.slice(0, MAX_CRAWL_STOPS));
+  const legs = buildLegs(start, stops);
+  return {
+    id: `crawl-${Date.now()}`,
+    name: name.trim() || 'Food crawl',
+    createdAt: new Date().toISOString(),
+    start,
+    startLabel,
+    stops,
+    legs,
+    totalKm: Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0) * 100) / 100,
+    totalMinutes: legs.reduce((sum, leg) => sum + leg.walkMinutes, 0)
+  };
+};
+
+export const loadCrawlPlans = (): CrawlPlan[] => {
+  try {
+    const raw = localStorage.getItem(CRAWL_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const persistCrawlPlans = (plans: CrawlPlan[]) => {
+  try {
+    localStorage.setItem(CRAWL_STORAGE_KEY, JSON.stringify(plans));
+  } catch (error) {
+    console.warn("Could not persist crawl plans:", error);
+  }
+};
+
+// Saving a plan with an existing id replaces it
+export const saveCrawlPlan = (plans: CrawlPlan[], plan: CrawlPlan): CrawlPlan[] =>
+  [plan, ...plans.filter(p => p.id !== plan.id)];
+
+export const deleteCrawlPlan = (plans: CrawlPlan[], planId: string): CrawlPlan[] =>
+  plans.filter(p => p.id !== planId);
@@ -0,0 +1,95 @@
+import { FoodSpot, SavedSpot, SavedState, SpotList } from "../types";
+
+// Favorites, named lists, notes and visited status. All updates are pure
+// (state in, state out) so App can hold the state and persist after each change.
+
+const SAVED_STORAGE_KEY = 'foodifind-saved-spots';
+
+export const EMPTY_SAVED_STATE: SavedState = { spots: {}, lists: [] };
+
+export const loadSavedState = (): SavedState => {
+  try {
+    const raw = localStorage.getItem(SAVED_STORAGE_KEY);
+    return raw ? { ...EMPTY_SAVED_STATE, ...JSON.parse(raw) } : EMPTY_SAVED_STATE;
+  } catch {
+    return EMPTY_SAVED_STATE;
+  }
+};
+
+export const persistSavedState = (state: SavedState) => {
+  try {
+    localStorage.setItem(SAVED_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn("Could not persist saved spots:", error);
+  }
+};
+
+export const isSaved = (state: SavedState, spotId: string) => Boolean(state.spots[spotId]);
+
+const updateSaved = (state: SavedState, spotId: string, patch: Partial<SavedSpot>): SavedState => {
+  const existing = state.spots[spotId];
+  if (!existing) return state;
+  return { ...state, spots: { ...state.spots, [spotId]: { ...existing, ...patch } } };
+};
+
+export const saveSpot = (state: SavedState, spot: FoodSpot): SavedState => {
+  const existing = state.spots[spot.id];
+  // Re-saving refreshes the stored copy but keeps the user's own data
+  const saved: SavedSpot = existing
+    ? { ...existing, spot }
+    : { spot, savedAt: new Date().toISOString(), note: '', visited: false, listIds: [] };
+  return { ...state, spots: { ...state.spots, [spot.id]: saved } };
+};
+
+export const unsaveSpot = (state: SavedState, spotId: string): SavedState => {
+  const { [spotId]: _removed, ...rest } = state.spots;
+  return { ...state, spots: rest };
+};
+
+export const toggleSaved = (state: SavedState, spot: FoodSpot): SavedState =>
+  isSaved(state, spot.id) ? unsaveSpot(state, spot.id) : saveSpot(state, spot);
+
+export const setNote = (state: SavedState, spotId: string, note: string): SavedState =>
+  updateSaved(state, spotId, { note });
+
+export const setVisited = (state: SavedState, spotId: string, visited: boolean): SavedState =>
+  updateSaved(state, spotId, { visited });
+
+export const createList = (state: SavedState, name: string): SavedState => {
+  const trimmed = name.trim();
+  if (!trimmed) return state;
+  const list: SpotList = { id: `list-${Date.now().toString(36)}`, name: trimmed, createdAt: new Date().toISOString() };
+  return { ...state, lists: [...state.lists, list] };
+};
+
+export const deleteList = (state: SavedState, listId: string): SavedState => ({
+  lists: state.lists.filter(l => l.id !== listId),
+  spots: Object.fromEntries(
+    Object.entries(state.spots).map(([id, saved]) => [id, { ...saved, listIds: saved.listIds.filter(l => l !== listId) }])
+  )
+});
+
+// Adding to a list implicitly stars the spot
+export const toggleInList = (state: SavedState, spot: FoodSpot, listId: string): SavedState => {
+  const withSpot = isSaved(state, spot.id) ? state : saveSpot(state, spot);
+  const saved = withSpot.spots[spot.id];
+  const listIds = saved.listIds.includes(listId)
+    ? saved.listIds.filter(l => l !== listId)
+    : [...saved.listIds, listId];
+  return updateSaved(withSpot, spot.id, { listIds });
+};
+
+// Keeps stored copies current when a saved spot shows up in a fresh result
+export const syncSavedSpots = (state: SavedState, spots: FoodSpot[]): SavedState => {
+  const updates = spots.filter(spot => state.spots[spot.id]);
+  if (updates.length === 0) return state;
+  return updates.reduce((acc, spot) => updateSaved(acc, spot.id, { spot }), state);
+};
+
+export const getSavedSpots = (state: SavedState): FoodSpot[] =>
+  Object.values(state.spots).map(saved => saved.spot);
+
+export const getSavedList = (state: SavedState, listId: string | null): SavedSpot[] =>
+  Object.values(state.spots)
+    .filter(saved => listId === null || saved.listIds.includes(listId))
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseUrlState, serializeUrlState } from './urlStateService';
+import { sameBounds } from './geo';
+
+describe('url state', () => {
+  const bounds = { north: 10.0123456, south: 9.9, east: 76.35, west: 76.2 };
+
+  it('round-trips the map view and the searched area', () => {
+    const search = serializeUrlState({ query: 'Current Map Area', center: { lat: 9.95, lng: 76.28 }, zoom: 11, bounds });
+    expect(search).toContain('area=9.90000%2C76.20000%2C10.01235%2C76.35000');
+    const state = parseUrlState(search);
+    expect(state.center).toEqual({ lat: 9.95, lng: 76.28 });
+    expect(state.zoom).toBe(11);
+    expect(sameBounds(state.bounds, bounds)).toBe(true);
+  });
+
+  it('keeps an area across the antimeridian', () => {
+    expect(parseUrlState('?area=-18,178,-16,-179').bounds).toEqual({ north: -16, south: -18, east: -179, west: 178 });
+  });
+
+  it('ignores malformed areas', () => {
+    expect(parseUrlState('?area=1,2,3').bounds).toBeUndefined();
+    expect(parseUrlState('?area=10,76,9,77').bounds).toBeUndefined();
+    expect(parseUrlState('?area=a,b,c,d').bounds).toBeUndefined();
+    expect(parseUrlState('?area=0,,1,2').bounds).toBeUndefined();
+  });
+});
@@ -0,0 +1,125 @@
+import { Coordinates, FilterState, MapBounds, PriceRange, SortKey } from "../types";
+import { DEFAULT_FILTERS, PRICE_RANGES, SORT_OPTIONS } from "./filterService";
+import { isAllergen, isDietaryTag } from "./dietaryService";
+
+// Two-way mapping between the shareable view state and the URL query string.
+// Only non-default values are written so links stay short.
+
+export type MapType = 'map' | 'satellite';
+export type ViewMode = 'map' | 'list';
+
+export interface UrlState {
+  query?: string;
+  center?: Coordinates; // Map view center, which may differ from where discovery ran
+  zoom?: number;
+  bounds?: MapBounds; // Set when the results came from "Search this area"
+  mapType?: MapType;
+  viewMode?: ViewMode;
+  filters?: FilterState;
+  spotId?: string;
+}
+
+const readNumber = (params: URLSearchParams, key: string): number | undefined => {
+  const value = params.get(key);
+  if (value === null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const readList = (params: URLSearchParams, key: string): string[] =>
+  (params.get(key) || '').split(',').map(v => v.trim()).filter(Boolean);
+
+// "south,west,north,east"; west > east is kept as an area across the antimeridian
+const readBounds = (value: string | null): MapBounds | undefined => {
+  const parts = (value || '').split(',').map(v => v.trim() === '' ? NaN : Number(v));
+  if (parts.length !== 4 || !parts.every(Number.isFinite)) return undefined;
+  const [south, west, north, east] = parts;
+  if (south > north || Math.abs(south) > 90 || Math.abs(north) > 90 || Math.abs(west) > 180 || Math.abs(east) > 180) return undefined;
+  return { north, south, east, west };
+};
+
+const readOpenAt = (value: string | null): string | null =>
+  value === 'now' || (value && /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)) ? value : null;
+
+const parseFilters = (params: URLSearchParams): FilterState => {
+  const sort = params.get('sort') as SortKey | null;
+  return {
+    cuisines: readList(params, 'cuisine'),
+    priceRanges: readList(params, 'price').filter((p): p is PriceRange => PRICE_RANGES.includes(p as PriceRange)),
+    minSentiment: readNumber(params, 'minSentiment') ?? DEFAULT_FILTERS.minSentiment,
+    minTrending: readNumber(params, 'minTrending') ?? DEFAULT_FILTERS.minTrending,
+    minConfidence: readNumber(params, 'minConfidence') ?? DEFAULT_FILTERS.minConfidence,
+    maxDistanceKm: readNumber(params, 'maxKm') ?? DEFAULT_FILTERS.maxDistanceKm,
+    dietary: readList(params, 'diet').filter(isDietaryTag),
+    avoidAllergens: readList(params, 'avoid').filter(isAllergen),
+    openAt: readOpenAt(params.get('open')),
+    sortBy: sort && SORT_OPTIONS.some(o => o.key === sort) ? sort : DEFAULT_FILTERS.sortBy
+  };
+};
+
+export const parseUrlState = (search: string): UrlState => {
+  const params = new URLSearchParams(search);
+  const lat = readNumber(params, 'lat');
+  const lng = readNumber(params, 'lng');
+  const mapType = params.get('mapType');
+  const viewMode = params.get('view');
+
+  return {
+    query: params.get('q')?.trim() || undefined,
+    center: lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : undefined,
+    zoom: readNumber(params, 'z'),
+    bounds: readBounds(params.get('area')),
+    mapType: mapType === 'satellite' || mapType === 'map' ? mapType : undefined,
+    viewMode: viewMode === 'list' || viewMode === 'map' ? viewMode : undefined,
+    filters: parseFilters(params),
+    spotId: params.get('spot') || undefined
+  };
+};
+
+export const serializeUrlState = (state: UrlState): string => {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.query) params.set('q', state.query);
+  if (state.center) {
+    params.set('lat', state.center.lat.toFixed(5));
+    params.set('lng', state.center.lng.toFixed(5));
+  }
+  if (state.zoom !== undefined) params.set('z', String(state.zoom));
+  if (state.bounds) {
+    const { south, west, north, east } = state.bounds;
+    params.set('area', [south, west, north, east].map(n => n.toFixed(5)).join(','));
+  }
+  if (state.mapType && state.mapType !== 'map') params.set('mapType', state.mapType);
+  if (state.viewMode && state.viewMode !== 'map') params.set('view', state.viewMode);
+
+  if (filters) {
+    if (filters.cuisines.length > 0) params.set('cuisine', filters.cuisines.join(','));
+    if (filters.priceRanges.length > 0) params.set('price', filters.priceRanges.join(','));
+    if (filters.minSentiment !== DEFAULT_FILTERS.minSentiment) params.set('minSentiment', String(filters.minSentiment));
+    if (filters.minTrending !== DEFAULT_FILTERS.minTrending) params.set('minTrending', String(filters.minTrending));
+    if (filters.minConfidence !== DEFAULT_FILTERS.minConfidence) params.set('minConfidence', String(filters.minConfidence));
+    if (filters.maxDistanceKm !== null) params.set('maxKm', String(filters.maxDistanceKm));
+    if (filters.dietary.length > 0) params.set('diet', filters.dietary.join(','));
+    if (filters.avoidAllergens.length > 0) params.set('avoid', filters.avoidAllergens.join(','));
+    if (filters.openAt !== null) params.set('open', filters.openAt);
+    if (filters.sortBy !== DEFAULT_FILTERS.sortBy) params.set('sort', filters.sortBy);
+  }
+
+  if (state.spotId) params.set('spot', state.spotId);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// A new search gets its own history entry; everything else updates the current one
+export const writeUrlState = (state: UrlState, mode: 'push' | 'replace') => {
+  const search = serializeUrlState(state);
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}${window.location.hash}`;
+  if (mode === 'push') {
+    window.history.pushState(null, '', url);
+  } else {
+    window.history.replaceState(null, '', url);
+  }
+};
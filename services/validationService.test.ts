@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { validateRawSpot } from './validationService';
+
+const kochi = { lat: 9.9312, lng: 76.2673 };
+const raw = { name: 'Paragon Restaurant', latitude: 9.9332, longitude: 76.2643 };
+
+describe('validateRawSpot', () => {
+  it('leaves unreported influencer data empty instead of inventing it', () => {
+    const { spot } = validateRawSpot(raw, 'spot-1', kochi);
+    expect(spot?.influencerData.sourceCount).toBeUndefined();
+    expect(spot?.viralPosts).toEqual([]);
+  });
+
+  it('keeps a reported source count', () => {
+    const { spot } = validateRawSpot({ ...raw, sourceCount: '540' }, 'spot-1', kochi);
+    expect(spot?.influencerData.sourceCount).toBe(540);
+  });
+
+  it('clamps a negative source count to zero', () => {
+    const { spot, issues } = validateRawSpot({ ...raw, sourceCount: -12 }, 'spot-1', kochi);
+    expect(spot?.influencerData.sourceCount).toBe(0);
+    expect(issues.some(i => i.field === 'sourceCount')).toBe(true);
+  });
+
+  it('rejects entries that are not objects', () => {
+    expect(validateRawSpot('Paragon', 'spot-1', kochi).spot).toBeNull();
+    expect(validateRawSpot([raw], 'spot-1', kochi).spot).toBeNull();
+  });
+
+  it('rejects spots outside the search radius', () => {
+    const { spot, issues } = validateRawSpot({ ...raw, latitude: 10.1 }, 'spot-1', kochi);
+    expect(spot).toBeNull();
+    expect(issues[0]).toMatchObject({ field: 'coordinates', severity: 'rejected' });
+  });
+
+  it('uses the searched map area instead of the radius when given bounds', () => {
+    const bounds = { north: 10.05, south: 9.8, east: 76.4, west: 76.1 };
+    expect(validateRawSpot({ ...raw, latitude: 10.0 }, 'spot-1', kochi, bounds).spot).not.toBeNull();
+    const { spot, issues } = validateRawSpot({ ...raw, latitude: 10.1 }, 'spot-1', kochi, bounds);
+    expect(spot).toBeNull();
+    expect(issues[0]).toMatchObject({ field: 'coordinates', message: 'outside the searched map area' });
+  });
+
+  it('drops malformed opening periods but keeps the rest', () => {
+    const openingHours = { timezone: 'Asia/Kolkata', periods: [{ day: 1, open: '11:00', close: '23:00' }, 'nonsense', { day: 9 }] };
+    const { spot, issues } = validateRawSpot({ ...raw, openingHours }, 'spot-1', kochi);
+    expect(spot?.openingHours).toEqual({ timezone: 'Asia/Kolkata', periods: [{ day: 1, open: '11:00', close: '23:00' }] });
+    expect(issues.some(i => i.message === 'dropped 2 malformed opening periods')).toBe(true);
+  });
+});
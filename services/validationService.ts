@@ -0,0 +1,348 @@
+import { Allergen, Coordinates, DietaryTag, DishAttributes, FoodSpot, MapBounds, OpeningHours, OpeningPeriod, PriceRange, ValidationIssue, ValidationReport, ViralPost } from "../types";
+import { distanceKm, getBoundsRadiusKm, isWithinBounds } from "./geo";
+import { PRICE_RANGES } from "./filterService";
+import { isAllergen, isDietaryTag } from "./dietaryService";
+import { formatTime, isValidTimezone, parseTime, WEEKDAYS } from "./hoursService";
+
+// Spots further than this from the region center are dropped (the prompt promises 5km)
+export const MAX_RADIUS_KM = 5;
+
+// How far from the center a search reaches: the visible map for "Search this area", else the fixed radius
+export const getSearchRadiusKm = (bounds?: MapBounds): number => bounds ? getBoundsRadiusKm(bounds) : MAX_RADIUS_KM;
+
+const DOLLAR_PRICES: Record<string, PriceRange> = { '$': 'Low', '$$': 'Medium', '$$$': 'High', '$$$$': 'Luxury' };
+
+// Collects issues for a single spot while its fields are normalized
+const createIssueRecorder = (spotName: string) => {
+  const issues: ValidationIssue[] = [];
+  return {
+    issues,
+    warn: (field: string, message: string) => issues.push({ spotName, field, message, severity: 'warning' }),
+    reject: (field: string, message: string) => issues.push({ spotName, field, message, severity: 'rejected' })
+  };
+};
+
+type Recorder = ReturnType<typeof createIssueRecorder>;
+
+// A spot as a model response or imported file describes it; no field is trusted until read
+export interface RawSpot {
+  name?: unknown;
+  cuisine?: unknown;
+  address?: unknown;
+  priceRange?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+  sentimentScore?: unknown;
+  trendingScore?: unknown;
+  popularityVelocity?: unknown;
+  aiConfidence?: unknown;
+  bestDishes?: unknown;
+  description?: unknown;
+  influencerSummary?: unknown;
+  sourceCount?: unknown;
+  topInfluencers?: unknown;
+  viralPosts?: unknown;
+  lastUpdated?: unknown;
+  dietaryTags?: unknown;
+  allergens?: unknown;
+  dishDetails?: unknown;
+  openingHours?: unknown;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const toNumber = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const readString = (value: unknown, field: string, fallback: string, rec: Recorder): string => {
+  if (isNonEmptyString(value)) return value.trim();
+  rec.warn(field, `missing ${field}, defaulted to "${fallback}"`);
+  return fallback;
+};
+
+const readScore = (value: unknown, field: string, fallback: number, rec: Recorder, min = 0, max = 100): number => {
+  const n = toNumber(value);
+  if (n === null) {
+    rec.warn(field, `missing ${field}, defaulted to ${fallback}`);
+    return fallback;
+  }
+  if (n < min || n > max) {
+    const clamped = Math.min(max, Math.max(min, n));
+    rec.warn(field, `${field} ${n} out of range, clamped to ${clamped}`);
+    return Math.round(clamped);
+  }
+  return Math.round(n);
+};
+
+// Counts can't go below zero; fractional ones are rounded
+const readCount = (value: unknown, field: string, rec: Recorder): number | undefined => {
+  const n = toNumber(value);
+  if (n === null) return undefined;
+  if (n < 0) {
+    rec.warn(field, `${field} ${n} is negative, clamped to 0`);
+    return 0;
+  }
+  return Math.round(n);
+};
+
+const readStringList = (value: unknown, field: string, rec: Recorder): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    rec.warn(field, `${field} is not a list, ignored`);
+    return [];
+  }
+  const valid = value.filter(isNonEmptyString).map(v => v.trim());
+  if (valid.length !== value.length) {
+    rec.warn(field, `dropped ${value.length - valid.length} invalid ${field} entries`);
+  }
+  return valid;
+};
+
+// Common spellings models use for the same allergen
+const ALLERGEN_ALIASES: Record<string, Allergen> = {
+  wheat: 'gluten', milk: 'dairy', lactose: 'dairy', egg: 'eggs', nut: 'nuts', 'tree-nuts': 'nuts',
+  'tree-nut': 'nuts', peanut: 'peanuts', crustaceans: 'shellfish', prawns: 'shellfish', soya: 'soy'
+};
+
+// "Gluten Free" and "gluten_free" both mean 'gluten-free'
+const toKey = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+const readKeyList = <T extends string>(
+  value: unknown,
+  field: string,
+  resolve: (key: string) => T | null,
+  rec: Recorder
+): T[] => {
+  const list = readStringList(value, field, rec);
+  const keys = list.map(item => resolve(toKey(item)));
+  const unknown = list.filter((_, i) => keys[i] === null);
+  if (unknown.length > 0) {
+    rec.warn(field, `dropped unknown ${field} ${unknown.map(u => JSON.stringify(u)).join(', ')}`);
+  }
+  return Array.from(new Set(keys.filter((key): key is T => key !== null)));
+};
+
+const readDietaryTags = (value: unknown, field: string, rec: Recorder): DietaryTag[] =>
+  readKeyList(value, field, key => isDietaryTag(key) ? key : null, rec);
+
+const readAllergens = (value: unknown, field: string, rec: Recorder): Allergen[] =>
+  readKeyList(value, field, key => isAllergen(key) ? key : ALLERGEN_ALIASES[key] ?? null, rec);
+
+// Per-dish attributes arrive as a list ({ name, dietary, allergens }) and are keyed by the matching best dish
+const readDishAttributes = (value: unknown, bestDishes: string[], rec: Recorder): Record<string, DishAttributes> => {
+  const attributes: Record<string, DishAttributes> = {};
+  if (value === undefined || value === null) return attributes;
+  if (!Array.isArray(value)) {
+    rec.warn('dishDetails', 'dishDetails is not a list, ignored');
+    return attributes;
+  }
+  let unmatched = 0;
+  value.forEach((entry: unknown) => {
+    const name = isRecord(entry) && isNonEmptyString(entry.name) ? entry.name.trim().toLowerCase() : null;
+    const dish = name ? bestDishes.find(d => d.toLowerCase() === name) : undefined;
+    if (!isRecord(entry) || !dish) {
+      unmatched++;
+      return;
+    }
+    attributes[dish] = {
+      dietary: readDietaryTags(entry.dietary, 'dish dietary tags', rec),
+      allergens: readAllergens(entry.allergens, 'dish allergens', rec)
+    };
+  });
+  if (unmatched > 0) {
+    rec.warn('dishDetails', `dropped ${unmatched} dish details that don't match a best dish`);
+  }
+  return attributes;
+};
+
+// 0-6 (Sunday first) or a day name ("Monday", "mon")
+const readWeekday = (value: unknown): number | null => {
+  const n = toNumber(value);
+  if (n !== null) return Number.isInteger(n) && n >= 0 && n <= 6 ? n : null;
+  if (!isNonEmptyString(value)) return null;
+  const index = WEEKDAYS.findIndex(day => value.trim().toLowerCase().startsWith(day.toLowerCase()));
+  return index === -1 ? null : index;
+};
+
+// Hours without a usable timezone can't be evaluated anywhere, so they're dropped whole
+const readOpeningHours = (value: unknown, rec: Recorder): OpeningHours | null => {
+  if (value === undefined || value === null) return null;
+  const rawPeriods: unknown[] | null = isRecord(value) && Array.isArray(value.periods) ? value.periods : null;
+  if (!isRecord(value) || !rawPeriods) {
+    rec.warn('openingHours', 'openingHours has no periods, ignored');
+    return null;
+  }
+  const timezone = isNonEmptyString(value.timezone) ? value.timezone.trim() : null;
+  if (!timezone || !isValidTimezone(timezone)) {
+    rec.warn('openingHours', `invalid timezone ${JSON.stringify(value.timezone)}, opening hours ignored`);
+    return null;
+  }
+  const periods: OpeningPeriod[] = [];
+  rawPeriods.forEach(p => {
+    const period = isRecord(p) ? p : {};
+    const day = readWeekday(period.day);
+    const open = isNonEmptyString(period.open) ? parseTime(period.open) : null;
+    const close = isNonEmptyString(period.close) ? parseTime(period.close) : null;
+    if (day === null || open === null || close === null) return;
+    periods.push({ day, open: formatTime(open), close: close === 24 * 60 ? '24:00' : formatTime(close) });
+  });
+  if (periods.length !== rawPeriods.length) {
+    rec.warn('openingHours', `dropped ${rawPeriods.length - periods.length} malformed opening periods`);
+  }
+  return periods.length > 0 ? { timezone, periods } : null;
+};
+
+const readPriceRange = (value: unknown, rec: Recorder): PriceRange => {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    const match = PRICE_RANGES.find(p => p.toLowerCase() === trimmed.toLowerCase());
+    if (match) return match;
+    if (DOLLAR_PRICES[trimmed]) return DOLLAR_PRICES[trimmed];
+  }
+  rec.warn('priceRange', `invalid priceRange ${JSON.stringify(value)}, defaulted to Medium`);
+  return 'Medium';
+};
+
+const readViralPosts = (value: unknown, rec: Recorder): ViralPost[] | null => {
+  if (!Array.isArray(value)) return null;
+  const posts = value.flatMap((p: unknown): ViralPost[] => {
+    if (!isRecord(p) || !isNonEmptyString(p.handle) || !isNonEmptyString(p.caption)) return [];
+    return [{
+      handle: p.handle,
+      caption: p.caption,
+      likes: isNonEmptyString(p.likes) ? p.likes : String(toNumber(p.likes) ?? 0),
+      imageUrl: isNonEmptyString(p.imageUrl) ? p.imageUrl : `https://picsum.photos/seed/${encodeURIComponent(p.handle)}/400/400`,
+      isReel: p.isReel === true
+    }];
+  });
+  if (posts.length !== value.length) {
+    rec.warn('viralPosts', `dropped ${value.length - posts.length} malformed viral posts`);
+  }
+  return posts;
+};
+
+const readCoordinates = (item: RawSpot, regionCenter: Coordinates | null, bounds: MapBounds | undefined, rec: Recorder): Coordinates | null => {
+  const lat = toNumber(item.latitude);
+  const lng = toNumber(item.longitude);
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    rec.reject('coordinates', 'missing or invalid coordinates');
+    return null;
+  }
+  const coords = { lat, lng };
+  if (bounds) {
+    if (isWithinBounds(coords, bounds)) return coords;
+    rec.reject('coordinates', 'outside the searched map area');
+    return null;
+  }
+  if (!regionCenter) return coords;
+  const distance = distanceKm(regionCenter, coords);
+  if (distance > MAX_RADIUS_KM) {
+    rec.reject('coordinates', `${distance.toFixed(1)}km from region center (limit ${MAX_RADIUS_KM}km)`);
+    return null;
+  }
+  return coords;
+};
+
+export const isValidCoordinates = (lat: unknown, lng: unknown): boolean => {
+  const a = toNumber(lat);
+  const b = toNumber(lng);
+  return a !== null && b !== null && Math.abs(a) <= 90 && Math.abs(b) <= 180;
+};
+
+export interface SpotValidationResult {
+  spot: FoodSpot | null;
+  issues: ValidationIssue[];
+}
+
+// Normalizes one raw model item into a FoodSpot, or rejects it.
+// Pass a null region center to skip the radius check (e.g. for imported files);
+// with bounds, the searched map area replaces the radius.
+export const validateRawSpot = (input: unknown, id: string, regionCenter: Coordinates | null, bounds?: MapBounds): SpotValidationResult => {
+  const rawName = isRecord(input) ? input.name : undefined;
+  const rec = createIssueRecorder(isNonEmptyString(rawName) ? rawName.trim() : `Spot ${id}`);
+
+  if (!isRecord(input)) {
+    rec.reject('spot', 'entry is not an object');
+    return { spot: null, issues: rec.issues };
+  }
+  const item: RawSpot = input;
+  if (!isNonEmptyString(rawName)) {
+    rec.reject('name', 'missing name');
+    return { spot: null, issues: rec.issues };
+  }
+
+  const coordinates = readCoordinates(item, regionCenter, bounds, rec);
+  if (!coordinates) {
+    return { spot: null, issues: rec.issues };
+  }
+
+  const name = rawName.trim();
+  const bestDishes = readStringList(item.bestDishes, 'bestDishes', rec);
+  const spot: FoodSpot = {
+    id,
+    name,
+    cuisine: readString(item.cuisine, 'cuisine', 'Unknown', rec),
+    address: readString(item.address, 'address', 'Address unavailable', rec),
+    priceRange: readPriceRange(item.priceRange, rec),
+    coordinates,
+    sentimentScore: readScore(item.sentimentScore, 'sentimentScore', 50, rec),
+    trendingScore: readScore(item.trendingScore, 'trendingScore', 50, rec),
+    popularityVelocity: readScore(item.popularityVelocity, 'popularityVelocity', 0, rec, -100, 100),
+    bestDishes,
+    description: readString(item.description, 'description', '', rec),
+    aiConfidence: readScore(item.aiConfidence, 'aiConfidence', 50, rec),
+    influencerData: {
+      summary: isNonEmptyString(item.influencerSummary) ? item.influencerSummary : "Trending on social feeds",
+      // Left unknown rather than guessed; the UI says so
+      sourceCount: readCount(item.sourceCount, 'sourceCount', rec),
+      topMentionedBy: readStringList(item.topInfluencers, 'topInfluencers', rec)
+    },
+    viralPosts: readViralPosts(item.viralPosts, rec) ?? [],
+    lastUpdated: isNonEmptyString(item.lastUpdated) && !isNaN(Date.parse(item.lastUpdated))
+      ? item.lastUpdated
+      : new Date().toISOString()
+  };
+
+  // Dietary data is optional: absent fields mean "unknown", not "none"
+  const dietaryTags = readDietaryTags(item.dietaryTags, 'dietaryTags', rec);
+  const allergens = readAllergens(item.allergens, 'allergens', rec);
+  const dishAttributes = readDishAttributes(item.dishDetails, bestDishes, rec);
+  if (dietaryTags.length > 0) spot.dietaryTags = dietaryTags;
+  if (allergens.length > 0) spot.allergens = allergens;
+  if (Object.keys(dishAttributes).length > 0) spot.dishAttributes = dishAttributes;
+  const openingHours = readOpeningHours(item.openingHours, rec);
+  if (openingHours) spot.openingHours = openingHours;
+
+  if (rec.issues.length > 0) {
+    spot.validationWarnings = rec.issues.map(i => i.message);
+  }
+
+  return { spot, issues: rec.issues };
+};
+
+export const validateRawSpots = (
+  items: unknown,
+  regionCenter: Coordinates | null,
+  makeId: (index: number) => string,
+  bounds?: MapBounds
+): { spots: FoodSpot[]; report: ValidationReport } => {
+  const list = Array.isArray(items) ? items : [];
+  const spots: FoodSpot[] = [];
+  const issues: ValidationIssue[] = [];
+
+  list.forEach((item, index) => {
+    const result = validateRawSpot(item, makeId(index), regionCenter, bounds);
+    issues.push(...result.issues);
+    if (result.spot) spots.push(result.spot);
+  });
+
+  return {
+    spots,
+    report: { accepted: spots.length, rejected: list.length - spots.length, issues }
+  };
+};
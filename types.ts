@@ -3,9 +3,17 @@ export interface Coordinates {
   lng: number;
 }
 
+// Visible map area, edges in degrees
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
 export interface InfluencerData {
   summary: string;
-  sourceCount: number;
+  sourceCount?: number; // Undefined when the source didn't report one
   topMentionedBy: string[];
 }
 
@@ -33,12 +41,176 @@ export interface FoodSpot {
   influencerData: InfluencerData;
   viralPosts: ViralPost[];
   lastUpdated: string;
+  dietaryTags?: DietaryTag[]; // Options the kitchen reliably offers
+  allergens?: Allergen[]; // Allergens present across the menu
+  dishAttributes?: Record<string, DishAttributes>; // Keyed by entry in bestDishes
+  openingHours?: OpeningHours;
+  validationWarnings?: string[]; // Repairs applied while normalizing model output
+  ranking?: SpotRanking; // Attached by the ranking model, relative to the current result set
+}
+
+export interface RankingWeights {
+  sentiment: number;
+  trending: number;
+  velocity: number;
+  confidence: number;
+  sources: number;
+  distance: number;
+}
+
+export interface ScoreComponent {
+  key: keyof RankingWeights;
+  label: string;
+  raw: number; // Input value (distance in km)
+  normalized: number; // 0-1
+  weight: number; // Share of total weight, 0-1
+  contribution: number; // Points added to the composite score
+}
+
+export interface SpotRanking {
+  score: number; // 0-100 composite
+  rank: number; // 1-based
+  components: ScoreComponent[];
+}
+
+export interface ValidationIssue {
+  spotName: string;
+  field: string;
+  message: string;
+  severity: 'warning' | 'rejected';
+}
+
+export interface ValidationReport {
+  accepted: number;
+  rejected: number;
+  issues: ValidationIssue[];
+}
+
+export interface SpotIdentity {
+  id: string;
+  name: string;
+  address: string;
+  coordinates: Coordinates;
 }
 
+export interface SpotChange {
+  kind: 'new' | 'rising' | 'falling' | 'gone' | 'unchanged';
+  trendingDelta: number;
+  sentimentDelta: number;
+}
+
+export interface SpotDiff {
+  changes: Record<string, SpotChange>; // Keyed by spot ID, covers both current and removed spots
+  removed: FoodSpot[]; // Spots from the previous result that are no longer listed
+  counts: { new: number; rising: number; falling: number; gone: number };
+  comparedAt: string;
+}
+
+export interface SpotList {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface SavedSpot {
+  spot: FoodSpot; // Copy kept so the spot survives new searches
+  savedAt: string;
+  note: string;
+  visited: boolean;
+  listIds: string[];
+}
+
+export interface SavedState {
+  spots: Record<string, SavedSpot>; // Keyed by stable spot ID
+  lists: SpotList[];
+}
+
+export interface CrawlLeg {
+  toId: string; // Spot reached at the end of this leg
+  distanceKm: number; // Estimated walking distance
+  walkMinutes: number;
+}
+
+export interface CrawlPlan {
+  id: string;
+  name: string;
+  createdAt: string;
+  start: Coordinates;
+  startLabel: string;
+  stops: FoodSpot[]; // In visiting order
+  legs: CrawlLeg[]; // legs[i] ends at stops[i]
+  totalKm: number;
+  totalMinutes: number;
+}
+
+export type LocationStatus = 'idle' | 'locating' | 'watching' | 'located' | 'denied' | 'unavailable' | 'timeout' | 'unsupported';
+
+export interface UserPosition {
+  coordinates: Coordinates;
+  accuracyMeters: number;
+  timestamp: number;
+}
+
+export interface MetricSnapshot {
+  timestamp: number;
+  trendingScore: number;
+  sentimentScore: number;
+  popularityVelocity: number;
+  mentions?: number; // influencerData.sourceCount at snapshot time, when reported
+}
+
+// Where a result came from: the configured provider, the discovery cache, or demo data
+export type DiscoverySource = 'live' | 'cache' | 'mock';
+
 export interface DiscoveryResult {
   spots: FoodSpot[];
   center: Coordinates;
   locationName: string;
+  validation?: ValidationReport; // Present when the spots came from untrusted model output
+  source?: DiscoverySource; // Absent for imported files
+}
+
+export type DiscoveryFailureKind = 'timeout' | 'rate-limited' | 'quota' | 'network' | 'provider';
+
+// Why a discovery failed, in a form the UI can explain and offer to retry
+export interface DiscoveryFailure {
+  kind: DiscoveryFailureKind;
+  message: string;
+  retryable: boolean;
+  status?: number; // HTTP status, when the provider returned one
+  retryAfterMs?: number; // Server-requested wait before the next attempt
+}
+
+export interface DiscoveryRequest {
+  query: string;
+  center: Coordinates; // Reference position for non-location queries
+  bypassCache?: boolean; // Force a fresh provider call (the result is still cached)
+  intent?: QueryIntent; // Structured reading of the query, when parsed
+  bounds?: MapBounds; // Visible map area for "Search this area"; spots outside it are dropped
+  signal?: AbortSignal; // Aborted when the run is cancelled or superseded
+  onNotice?: (message: string) => void; // Retries and rate-limit waits, for the agent log
+}
+
+// Progressive discovery: the region as soon as it is known, each spot as it
+// is parsed, then the complete result, which supersedes everything before it
+export type DiscoveryStreamEvent =
+  | { type: 'region'; center: Coordinates; locationName: string }
+  | { type: 'spot'; spot: FoodSpot }
+  | { type: 'done'; result: DiscoveryResult };
+
+export interface GeocodeResult {
+  center: Coordinates;
+  locationName: string;
+  timezone?: string; // IANA zone of the region, when known
+}
+
+export interface DiscoveryProvider {
+  id: string;
+  label: string;
+  discover: (request: DiscoveryRequest) => Promise<DiscoveryResult>;
+  discoverStream?: (request: DiscoveryRequest) => AsyncIterable<DiscoveryStreamEvent>; // Optional: ends with a 'done' event
+  geocode?: (query: string) => Promise<GeocodeResult | null>; // Optional: providers without it geocode inside discover
+  parseQuery?: (query: string) => Promise<Partial<QueryIntent> | null>; // Optional model-assisted query understanding
 }
 
 export enum AgentType {
@@ -47,7 +219,8 @@ export enum AgentType {
   SEARCH = 'Search & Extract Agent',
   RANKING = 'Spot Ranking Agent',
   VALIDATION = 'Validation Agent',
-  REFRESH = 'Weekly Refresh Agent'
+  REFRESH = 'Weekly Refresh Agent',
+  REFINEMENT = 'Refinement Agent'
 }
 
 export interface AgentLog {
@@ -55,10 +228,55 @@ export interface AgentLog {
   timestamp: number;
   message: string;
   agent: AgentType;
+  status?: 'info' | 'success' | 'error';
+  durationMs?: number;
+  runId?: string; // Discovery run that produced the log; absent for app-level messages
 }
 
-export interface FilterState {
+export type PriceRange = FoodSpot['priceRange'];
+
+export type DietaryTag = 'vegetarian' | 'vegan' | 'gluten-free' | 'halal' | 'kosher' | 'dairy-free' | 'nut-free';
+
+export type Allergen = 'gluten' | 'dairy' | 'eggs' | 'nuts' | 'peanuts' | 'shellfish' | 'fish' | 'soy' | 'sesame';
+
+export interface DishAttributes {
+  dietary: DietaryTag[];
+  allergens: Allergen[];
+}
+
+export interface OpeningPeriod {
+  day: number; // 0 = Sunday ... 6 = Saturday, the day the period opens
+  open: string; // "HH:MM", 24h local time
+  close: string; // "HH:MM"; at or before `open` means past midnight
+}
+
+export interface OpeningHours {
+  timezone: string; // IANA zone, e.g. "Asia/Kolkata"
+  periods: OpeningPeriod[];
+}
+
+export type MealTime = 'breakfast' | 'brunch' | 'lunch' | 'dinner' | 'late-night';
+
+export interface QueryIntent {
+  location: string | null;
   cuisine: string | null;
+  maxPrice: PriceRange | null; // Price ceiling
+  dietary: DietaryTag[];
+  mealTime: MealTime | null;
+  keywords: string[]; // Words not mapped to any field
+}
+
+export type SortKey = 'score' | 'trending' | 'sentiment' | 'velocity' | 'distance';
+
+export interface FilterState {
+  cuisines: string[]; // empty = all cuisines
+  priceRanges: PriceRange[]; // empty = all price ranges
   minSentiment: number;
-  onlyTrending: boolean;
+  minTrending: number;
+  minConfidence: number;
+  maxDistanceKm: number | null; // null = no distance limit
+  dietary: DietaryTag[]; // Spot must support every tag
+  avoidAllergens: Allergen[]; // Spot needs a signature dish free of all of these
+  openAt: string | null; // null = any time, 'now', or "YYYY-MM-DDTHH:MM" local time at the spot
+  sortBy: SortKey;
 }
\ No newline at end of file
@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DISCOVERY_PROVIDER': JSON.stringify(env.DISCOVERY_PROVIDER),
+        'process.env.DISCOVERY_FIXTURE_URL': JSON.stringify(env.DISCOVERY_FIXTURE_URL),
+        'process.env.LOCAL_LLM_URL': JSON.stringify(env.LOCAL_LLM_URL),
+        'process.env.LOCAL_LLM_MODEL': JSON.stringify(env.LOCAL_LLM_MODEL),
+        'process.env.LOCAL_LLM_API_KEY': JSON.stringify(env.LOCAL_LLM_API_KEY),
+        'process.env.DISCOVERY_TIMEOUT_MS': JSON.stringify(env.DISCOVERY_TIMEOUT_MS),
+        'process.env.DISCOVERY_MAX_RETRIES': JSON.stringify(env.DISCOVERY_MAX_RETRIES),
+        'process.env.DISCOVERY_REQUESTS_PER_MINUTE': JSON.stringify(env.DISCOVERY_REQUESTS_PER_MINUTE),
+        'process.env.DISCOVERY_DAILY_QUOTA': JSON.stringify(env.DISCOVERY_DAILY_QUOTA)
       },
       resolve: {
         alias: {